@@ -0,0 +1,58 @@
+import * as path from 'node:path';
+
+export interface ServerConfig {
+  port: number;
+  staticDir: string;
+  // The SPA's app-config.json: tables and orders are checked against its tenants
+  appConfigFile: string;
+  freya: {
+    baseUrl: string;
+    apiKey: string;
+    username: string;
+    password: string;
+  };
+  session: {
+    secret: string;
+    ttlSeconds: number;
+    secureCookie: boolean;
+    // When set, a session is only opened with the table's signed QR code token
+    tableTokenSecret: string | null;
+  };
+  // The services the SPA's environment counts promo code uses and keeps loyalty
+  // points in (promotionUsageUrl, loyaltyUrl), as the server reaches them. Without
+  // them orders using a limited code or redeeming points are refused.
+  promotionUsageUrl: string | null;
+  loyaltyUrl: string | null;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+}
+
+// Everything secret comes from the environment; nothing here ends up in the browser bundle
+export function loadServerConfig(): ServerConfig {
+  const staticDir = path.resolve(process.env['STATIC_DIR'] || 'dist/qr-menu-scanner/browser');
+  return {
+    port: Number(process.env['PORT'] || 8080),
+    staticDir,
+    appConfigFile: path.resolve(process.env['APP_CONFIG_FILE'] || path.join(staticDir, 'config', 'app-config.json')),
+    freya: {
+      baseUrl: (process.env['FREYA_BASE_URL'] || 'https://api-staging-hesburger.freya.cloud').replace(/\/+$/, ''),
+      apiKey: process.env['FREYA_API_KEY'] || '',
+      username: required('FREYA_USERNAME'),
+      password: required('FREYA_PASSWORD')
+    },
+    session: {
+      secret: required('SESSION_SECRET'),
+      ttlSeconds: Number(process.env['SESSION_TTL_SECONDS'] || 90 * 60),
+      secureCookie: process.env['NODE_ENV'] === 'production',
+      tableTokenSecret: process.env['TABLE_TOKEN_SECRET'] || null
+    },
+    promotionUsageUrl: process.env['PROMOTION_USAGE_URL']?.replace(/\/+$/, '') || null,
+    loyaltyUrl: process.env['LOYALTY_URL']?.replace(/\/+$/, '') || null
+  };
+}
@@ -0,0 +1,91 @@
+import { loginResponseSchema } from '../src/app/api/freya-dto';
+import { parse } from '../src/app/api/schema';
+import { ServerConfig } from './config';
+
+export interface ForwardRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  search: string;
+  body?: Buffer;
+  headers?: { [name: string]: string };
+}
+
+/**
+ * Talks to the Freya API on behalf of every browser. The login credentials and the
+ * bearer token only ever live in this process.
+ */
+export class FreyaClient {
+  private token: string | null = null;
+  private pendingLogin: Promise<string> | null = null;
+
+  constructor(private config: ServerConfig['freya']) {}
+
+  async forward(request: ForwardRequest): Promise<Response> {
+    let response = await this.send(request, await this.getToken());
+
+    // Token revoked or expired upstream: log in again and retry exactly once
+    if (response.status === 401) {
+      this.token = null;
+      response = await this.send(request, await this.getToken());
+    }
+
+    return response;
+  }
+
+  private send(request: ForwardRequest, token: string): Promise<Response> {
+    return fetch(`${this.config.baseUrl}${request.path}${request.search}`, {
+      method: request.method,
+      headers: {
+        'Accept': request.path.startsWith('/file/') ? '*/*' : 'application/json',
+        'Content-Type': 'application/json',
+        'ApiKey': this.config.apiKey,
+        'Authorization': `Bearer ${token}`,
+        ...request.headers
+      },
+      body: request.method === 'POST' ? request.body : undefined,
+      signal: AbortSignal.timeout(15000)
+    });
+  }
+
+  private getToken(): Promise<string> {
+    if (this.token) return Promise.resolve(this.token);
+
+    // Concurrent requests share one login
+    this.pendingLogin ??= this.login().finally(() => this.pendingLogin = null);
+    return this.pendingLogin;
+  }
+
+  private async login(): Promise<string> {
+    console.log('🔐 Logging in to Freya API...');
+    const response = await fetch(`${this.config.baseUrl}/login`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'ApiKey': this.config.apiKey
+      },
+      body: JSON.stringify({ username: this.config.username, password: this.config.password }),
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Freya login failed with HTTP ${response.status}`);
+    }
+
+    // Throws ApiSchemaError when the answer is not the /login contract the SPA checks too
+    const body: unknown = await response.json();
+    const login = parse(loginResponseSchema, body, 'login');
+    if (!login.isSuccess || !login.payload) {
+      throw new Error(`Freya login was refused: ${login.message || 'no reason given'}`);
+    }
+
+    const token = login.payload.token.replace(/^Bearer\s+/i, '').trim();
+    if (token.length === 0) {
+      throw new Error('Freya login response did not contain a token');
+    }
+
+    this.token = token;
+    console.log('✅ Freya login succeeded');
+    return this.token;
+  }
+}
@@ -0,0 +1,83 @@
+import { createServer } from 'node:http';
+import { sendJson } from '../http';
+import { isValidTableId } from '../table-session';
+import { WebSocketConnection, acceptWebSocket } from '../websocket';
+
+// Stand-in for the server through which the diners at one table share a cart. It
+// relays every message to the others in the same room (tenant and table) and hands
+// whoever joins the last cart it saw; merging is left to the phones. The SPA's
+// "mock" environment reaches it through the dev-server proxy at /group-cart.
+// Rooms live in memory and go when their last diner leaves.
+
+const PORT = Number(process.env['GROUP_CART_PORT'] || 8095);
+
+interface Room {
+  members: Set<WebSocketConnection>;
+  // Last cart message, as received
+  cart: string | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const server = createServer((_, response) => {
+  sendJson(response, 426, { isSuccess: false, message: 'Connect with a WebSocket to /group-cart?room=<tenant>:<table>' });
+});
+
+server.on('upgrade', (request, socket, head) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const roomId = url.searchParams.get('room') || '';
+  const [tenantId, tableId, ...rest] = roomId.split(':');
+
+  if (url.pathname !== '/group-cart' || rest.length > 0 || !isValidTableId(tenantId) || !isValidTableId(tableId)) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const connection = acceptWebSocket(request, socket, head);
+  if (connection) join(roomId, connection);
+});
+
+server.listen(PORT, () => {
+  console.log(`👥 Group cart stand-in listening on :${PORT}`);
+});
+
+function join(roomId: string, connection: WebSocketConnection): void {
+  const room = rooms.get(roomId) ?? { members: new Set<WebSocketConnection>(), cart: null };
+  rooms.set(roomId, room);
+  room.members.add(connection);
+  console.log(`👥 ${roomId}: ${room.members.size} connected`);
+
+  // Always answered, so the newcomer knows to share what it already has
+  connection.send(room.cart ?? JSON.stringify({ type: 'cart', items: [], removed: {}, from: null }));
+
+  connection.onMessage = text => {
+    const type = relayedType(text);
+    if (!type) return;
+
+    if (type === 'cart') room.cart = text;
+    room.members.forEach(member => {
+      if (member !== connection) member.send(text);
+    });
+  };
+
+  connection.onClose = () => {
+    room.members.delete(connection);
+    console.log(`👥 ${roomId}: ${room.members.size} connected`);
+    if (room.members.size === 0) rooms.delete(roomId);
+  };
+}
+
+// What a diner may send the others: the cart, or word that it was ordered
+function relayedType(text: string): 'cart' | 'submitted' | null {
+  const message = parseJson(text);
+  const type = message && typeof message === 'object' ? (message as { type?: unknown }).type : undefined;
+  return type === 'cart' || type === 'submitted' ? type : null;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,305 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream, promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { ProductDto, productListResponseSchema } from '../src/app/api/freya-dto';
+import { parse } from '../src/app/api/schema';
+import { TenantConfig } from '../src/app/config/config-types';
+import { resolveTableLocation } from '../src/app/config/table-locations';
+import { PromotionContext, findPromotion } from '../src/app/services/discounts';
+import { loadServerConfig } from './config';
+import { FreyaClient, ForwardRequest } from './freya-client';
+import { readBody, sendJson } from './http';
+import { orderProblem } from './order-check';
+import { TableSession, issueSession, isValidTableId, isValidTableToken, readSession, sessionCookie } from './table-session';
+import { loadAppConfigFile, tenantForHost } from './tenant';
+
+// Backend-for-frontend: serves the SPA, hands out table-session cookies and proxies
+// the few Freya endpoints the SPA needs, adding the server-held credentials.
+
+const config = loadServerConfig();
+const appConfig = loadAppConfigFile(config.appConfigFile);
+const freya = new FreyaClient(config.freya);
+
+// Only these upstream endpoints are reachable through /api
+const PROXIED_ROUTES: { [path: string]: ForwardRequest['method'] } = {
+  '/ProductCategory/FindMany': 'GET',
+  '/Product/FindMany': 'GET',
+  '/Product/FindSellingProducts': 'GET',
+  '/file/getImage': 'GET',
+  '/ClientOrder/Insert': 'POST'
+};
+
+// Upstream request headers the SPA is allowed to pass through
+const FORWARDED_HEADERS = ['idempotency-key'];
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.ico': 'image/x-icon',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+const server = createServer((request, response) => {
+  handle(request, response).catch(error => {
+    console.error('❌ Unhandled request error:', error);
+    if (!response.headersSent) {
+      sendJson(response, 500, { isSuccess: false, message: 'Internal server error' });
+    } else {
+      response.destroy();
+    }
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`🚀 BFF listening on :${config.port}, proxying ${config.freya.baseUrl}`);
+});
+
+async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+
+  if (url.pathname === '/api/session') {
+    return handleSession(request, response);
+  }
+
+  if (url.pathname.startsWith('/api/')) {
+    return handleProxy(request, response, url);
+  }
+
+  return serveStatic(url.pathname, response);
+}
+
+// =============== TABLE SESSIONS ===============
+
+async function handleSession(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  if (request.method !== 'POST') {
+    return sendJson(response, 405, { isSuccess: false, message: 'Method not allowed' });
+  }
+
+  let tableId: unknown;
+  let token: unknown;
+  try {
+    ({ tableId, token } = JSON.parse((await readBody(request)).toString('utf8')) ?? {});
+  } catch {
+    return sendJson(response, 400, { isSuccess: false, message: 'Invalid JSON body' });
+  }
+
+  if (!isValidTableId(tableId)) {
+    return sendJson(response, 400, { isSuccess: false, message: 'Invalid table id' });
+  }
+  // Only tables of one of the tenant's restaurants, and with signing on only those whose QR code was printed
+  const tenant = tenantForHost(appConfig, request.headers.host);
+  if (!tenant || !resolveTableLocation(tenant, tableId)) {
+    return sendJson(response, 403, { isSuccess: false, message: `Table ${tableId} is not a table of this restaurant` });
+  }
+  if (config.session.tableTokenSecret && !isValidTableToken(tableId, token, config.session.tableTokenSecret)) {
+    return sendJson(response, 403, { isSuccess: false, message: 'Scan the QR code on the table to order' });
+  }
+
+  const { session, value } = issueSession(tableId, config.session.secret, config.session.ttlSeconds);
+  response.setHeader('Set-Cookie', sessionCookie(value, config.session.ttlSeconds, config.session.secureCookie));
+  sendJson(response, 200, {
+    isSuccess: true,
+    payload: { tableId: session.tableId, expiresAt: new Date(session.expiresAt).toISOString() }
+  });
+}
+
+// =============== API PROXY ===============
+
+async function handleProxy(request: IncomingMessage, response: ServerResponse, url: URL): Promise<void> {
+  const upstreamPath = url.pathname.slice('/api'.length);
+  const method = PROXIED_ROUTES[upstreamPath];
+
+  if (!method) {
+    return sendJson(response, 404, { isSuccess: false, message: 'Endpoint not found' });
+  }
+  if (request.method !== method) {
+    return sendJson(response, 405, { isSuccess: false, message: 'Method not allowed' });
+  }
+
+  const session = readSession(request, config.session.secret);
+  if (!session) {
+    return sendJson(response, 401, { isSuccess: false, message: 'Table session missing or expired' });
+  }
+
+  const headers: { [name: string]: string } = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = request.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+
+  const body = method === 'POST' ? await readBody(request) : undefined;
+  if (upstreamPath === '/ClientOrder/Insert') {
+    const refusal = await checkOrderRequest(request, session, body!);
+    if (refusal) {
+      console.warn(`🚫 Order for table ${session.tableId} refused: ${refusal.message}`);
+      return sendJson(response, refusal.status, { isSuccess: false, message: refusal.message });
+    }
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await freya.forward({
+      method,
+      path: upstreamPath,
+      search: url.search,
+      body,
+      headers
+    });
+  } catch (error) {
+    console.error(`❌ Upstream ${upstreamPath} failed:`, error);
+    return sendJson(response, 502, { isSuccess: false, message: 'Upstream API unavailable' });
+  }
+
+  response.statusCode = upstream.status;
+  response.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/octet-stream');
+  response.setHeader('Cache-Control', upstreamPath.startsWith('/file/') ? 'private, max-age=3600' : 'no-store');
+  response.end(Buffer.from(await upstream.arrayBuffer()));
+}
+
+type Refusal = { status: number; message: string };
+
+// The order must be for the session's table and priced the way the catalog sells it there
+async function checkOrderRequest(request: IncomingMessage, session: TableSession, body: Buffer): Promise<Refusal | null> {
+  if (request.headers['x-table-id'] !== session.tableId) {
+    return { status: 409, message: `This session is for table ${session.tableId}` };
+  }
+
+  const tenant = tenantForHost(appConfig, request.headers.host);
+  const location = tenant && resolveTableLocation(tenant, session.tableId);
+  if (!tenant || !location) {
+    return { status: 403, message: `Table ${session.tableId} is not a table of this restaurant` };
+  }
+
+  let order: unknown;
+  try {
+    order = JSON.parse(body.toString('utf8'));
+  } catch {
+    return { status: 400, message: 'Invalid JSON body' };
+  }
+
+  let catalog: ProductDto[];
+  try {
+    catalog = await sellingProducts();
+  } catch (error) {
+    console.error('❌ Cannot load the catalog to check an order:', error);
+    return { status: 502, message: 'Upstream API unavailable' };
+  }
+
+  // The codes and points the SPA priced the order with come alongside it
+  const codes = (request.headers['x-promo-codes'] as string | undefined)?.split(',').map(code => code.trim()).filter(Boolean) ?? [];
+  const redeemedPoints = Number(request.headers['x-loyalty-points'] ?? 0);
+  if (!Number.isInteger(redeemedPoints) || redeemedPoints < 0) {
+    return { status: 400, message: 'Invalid loyalty points' };
+  }
+
+  const counted = await codeUsage(tenant, codes);
+  if ('status' in counted) return counted;
+
+  const problem = orderProblem(order, tenant, location.uid, catalog, { codes, redeemedPoints, usage: counted.usage, now: new Date() });
+  if (problem) {
+    return { status: 400, message: problem };
+  }
+  return redeemedPoints > 0 ? checkHeldPoints(request, order, redeemedPoints) : null;
+}
+
+// Usage limits hold across devices only when counted by the usage service
+async function codeUsage(tenant: TenantConfig, codes: string[]): Promise<{ usage: PromotionContext['usage'] } | Refusal> {
+  if (!codes.some(code => findPromotion(tenant.promotions ?? [], code)?.usageLimit !== undefined)) {
+    return { usage: {} };
+  }
+  if (!config.promotionUsageUrl) {
+    return { status: 403, message: 'Promo codes with a usage limit cannot be checked here' };
+  }
+
+  try {
+    const upstream = await fetch(`${config.promotionUsageUrl}/${encodeURIComponent(tenant.id)}`);
+    const usage = upstream.ok ? (await upstream.json() as { usage?: unknown } | null)?.usage : null;
+    if (!usage || typeof usage !== 'object') {
+      throw new Error(`Promotion usage service answered HTTP ${upstream.status}`);
+    }
+    return { usage: Object.fromEntries(Object.entries(usage).filter(([, orders]) => typeof orders === 'number')) };
+  } catch (error) {
+    console.error('❌ Cannot load the promo code usage to check an order:', error);
+    return { status: 502, message: 'Promotion usage service unavailable' };
+  }
+}
+
+// Redeemed points must be held on the card for this order. The hold is recorded
+// again under the SPA's id: the ledger keeps an id once, so an existing hold is
+// left as it is, and a missing one is taken now or refused for lack of points.
+async function checkHeldPoints(request: IncomingMessage, order: unknown, points: number): Promise<Refusal | null> {
+  if (!config.loyaltyUrl) {
+    return { status: 403, message: 'Loyalty points cannot be checked here' };
+  }
+
+  const holdId = request.headers['x-loyalty-hold'];
+  const idempotencyKey = request.headers['idempotency-key'];
+  const card = (order as { billingClient?: { fidelityCard?: unknown } } | null)?.billingClient?.fidelityCard;
+  if (typeof holdId !== 'string' || typeof idempotencyKey !== 'string' || !holdId.startsWith(`${idempotencyKey}:`) || typeof card !== 'string') {
+    return { status: 400, message: 'Redeemed points must be held for this order' };
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${config.loyaltyUrl}/${encodeURIComponent(card)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: holdId, card, points: -points, at: new Date().toISOString() })
+    });
+  } catch (error) {
+    console.error('❌ Cannot reach the loyalty ledger to check an order:', error);
+    return { status: 502, message: 'Loyalty ledger unavailable' };
+  }
+  if (upstream.status === 409) {
+    return { status: 409, message: 'Not enough loyalty points on the card' };
+  }
+  return upstream.ok ? null : { status: 502, message: `Loyalty ledger answered HTTP ${upstream.status}` };
+}
+
+async function sellingProducts(): Promise<ProductDto[]> {
+  const upstream = await freya.forward({ method: 'GET', path: '/Product/FindSellingProducts', search: '' });
+  const products = parse(productListResponseSchema, await upstream.json(), 'Product/FindSellingProducts');
+  if (!products.isSuccess || !products.payload) {
+    throw new Error(products.message || 'Product/FindSellingProducts was refused');
+  }
+  return products.payload.records;
+}
+
+// =============== STATIC FILES ===============
+
+async function serveStatic(pathname: string, response: ServerResponse): Promise<void> {
+  const requested = path.normalize(path.join(config.staticDir, decodeURIComponent(pathname)));
+  const insideRoot = requested === config.staticDir || requested.startsWith(config.staticDir + path.sep);
+
+  let file = path.join(config.staticDir, 'index.html');
+  if (insideRoot) {
+    const stat = await fs.stat(requested).catch(() => null);
+    if (stat?.isFile()) {
+      file = requested;
+    }
+  }
+
+  const extension = path.extname(file);
+  response.statusCode = 200;
+  response.setHeader('Content-Type', CONTENT_TYPES[extension] || 'application/octet-stream');
+  // Hashed bundles can be cached forever; index.html and the runtime config must not be
+  response.setHeader('Cache-Control', extension === '.html' || extension === '.json' ? 'no-cache' : 'public, max-age=31536000, immutable');
+  createReadStream(file)
+    .on('error', error => {
+      // A missing index.html or a wrong STATIC_DIR fails this request, not the process
+      console.error(`❌ Cannot serve ${file}:`, error);
+      if (!response.headersSent) {
+        sendJson(response, 404, { isSuccess: false, message: 'Not found' });
+      } else {
+        response.destroy();
+      }
+    })
+    .pipe(response);
+}
@@ -0,0 +1,79 @@
+// Fault injection for the stand-in Freya API. Defaults come from the environment;
+// tests and developers can change them at runtime through /__mock/faults.
+
+export interface FaultSettings {
+  // Added before every answer
+  latencyMs: number;
+  // Share of authenticated requests answered 401 (the presented token is revoked)
+  unauthorizedRate: number;
+  // Share of requests answered with serverErrorStatus
+  serverErrorRate: number;
+  serverErrorStatus: number;
+  // Deterministic alternative to the rates: fail exactly the next `count` requests
+  failNext: { status: number; count: number } | null;
+}
+
+export function defaultFaultSettings(): FaultSettings {
+  return {
+    latencyMs: Number(process.env['MOCK_LATENCY_MS'] || 0),
+    unauthorizedRate: Number(process.env['MOCK_UNAUTHORIZED_RATE'] || 0),
+    serverErrorRate: Number(process.env['MOCK_SERVER_ERROR_RATE'] || 0),
+    serverErrorStatus: Number(process.env['MOCK_SERVER_ERROR_STATUS'] || 503),
+    failNext: null
+  };
+}
+
+export class FaultInjector {
+  private settings = defaultFaultSettings();
+
+  get current(): FaultSettings {
+    return { ...this.settings };
+  }
+
+  update(changes: Partial<FaultSettings>): FaultSettings {
+    this.settings = { ...this.settings, ...pickKnown(changes) };
+    return this.current;
+  }
+
+  reset(): FaultSettings {
+    this.settings = defaultFaultSettings();
+    return this.current;
+  }
+
+  delay(): Promise<void> {
+    const latency = this.settings.latencyMs;
+    return latency > 0 ? new Promise(resolve => setTimeout(resolve, latency)) : Promise.resolve();
+  }
+
+  /**
+   * Returns the status to fail this request with, or null to answer normally.
+   * Login requests can only fail with server errors; an injected 401 there would
+   * look like wrong credentials rather than an expired token.
+   */
+  pickFailure(authenticated: boolean): number | null {
+    const failNext = this.settings.failNext;
+    if (failNext && failNext.count > 0 && (authenticated || failNext.status !== 401)) {
+      this.settings.failNext = failNext.count > 1 ? { ...failNext, count: failNext.count - 1 } : null;
+      return failNext.status;
+    }
+    if (authenticated && Math.random() < this.settings.unauthorizedRate) {
+      return 401;
+    }
+    if (Math.random() < this.settings.serverErrorRate) {
+      return this.settings.serverErrorStatus;
+    }
+    return null;
+  }
+}
+
+function pickKnown(changes: Partial<FaultSettings>): Partial<FaultSettings> {
+  const known: Partial<FaultSettings> = {};
+  if (typeof changes.latencyMs === 'number') known.latencyMs = changes.latencyMs;
+  if (typeof changes.unauthorizedRate === 'number') known.unauthorizedRate = changes.unauthorizedRate;
+  if (typeof changes.serverErrorRate === 'number') known.serverErrorRate = changes.serverErrorRate;
+  if (typeof changes.serverErrorStatus === 'number') known.serverErrorStatus = changes.serverErrorStatus;
+  if (changes.failNext === null || (typeof changes.failNext?.status === 'number' && typeof changes.failNext?.count === 'number')) {
+    known.failNext = changes.failNext;
+  }
+  return known;
+}
@@ -0,0 +1,169 @@
+// Seed data for the stand-in Freya API. Shapes follow the real responses closely
+// enough for the SPA's DTO schemas; values are made up. The first location is the
+// one the hesburger-test tenant orders for.
+
+export interface MockLocation {
+  uid: string;
+  name: string;
+}
+
+export interface MockLocationPrice {
+  locationUid: string;
+  locationName: string;
+  unitPriceWithVat: number;
+  isActive: boolean;
+}
+
+export interface MockCategory {
+  uid: string;
+  name: string;
+  alias: string;
+  description: string | null;
+  displayOrder: number;
+  icon: string | null;
+  isActive: boolean;
+}
+
+export interface MockModifierOption {
+  productUid: string;
+  name: string;
+  unitPriceWithVat: number;
+  isDefault: boolean;
+}
+
+export interface MockModifierGroup {
+  uid: string;
+  name: string;
+  kind: 'addon' | 'removal' | 'choice';
+  minSelected: number;
+  maxSelected: number;
+  options: MockModifierOption[];
+}
+
+export interface MockProduct {
+  uid: string;
+  id: number;
+  name: string;
+  alias: string | null;
+  description: string | null;
+  productCategoryUid: string;
+  imageUid: string | null;
+  unitPriceWithVat: number | null;
+  // In percent
+  vatRate: number;
+  locationPrices: MockLocationPrice[];
+  modifierGroups: MockModifierGroup[];
+  isActive: boolean;
+  isDisabled: boolean;
+}
+
+export const LOCATIONS: MockLocation[] = [
+  { uid: '1b252fdf4fba4629a1f4d2d80167a02c', name: 'Hesburger Test' },
+  { uid: '5d0e3b6a9c2f4e7d8a1b2c3d4e5f6a7b', name: 'Hesburger Aeroport' }
+];
+
+export const CATEGORIES: MockCategory[] = [
+  { uid: 'c0a8010000000000000000000000b001', name: 'Burgeri', alias: 'burgers', description: 'Burgeri clasici și speciali', displayOrder: 1, icon: '🍔', isActive: true },
+  { uid: 'c0a8010000000000000000000000b002', name: 'Pui', alias: 'chicken', description: 'Preparate din pui', displayOrder: 2, icon: '🍗', isActive: true },
+  { uid: 'c0a8010000000000000000000000b004', name: 'Băuturi', alias: 'drinks', description: 'Băuturi reci și calde', displayOrder: 4, icon: '🥤', isActive: true },
+  { uid: 'c0a8010000000000000000000000b003', name: 'Garnituri', alias: 'sides', description: null, displayOrder: 3, icon: null, isActive: true },
+  { uid: 'c0a8010000000000000000000000b005', name: 'Deserturi', alias: 'desserts', description: null, displayOrder: 5, icon: '🍦', isActive: true },
+  { uid: 'c0a8010000000000000000000000b006', name: 'Meniuri sezoniere', alias: 'seasonal', description: 'Momentan indisponibile', displayOrder: 6, icon: null, isActive: false }
+];
+
+const option = (sequence: number, name: string, unitPriceWithVat = 0, isDefault = false): MockModifierOption =>
+  ({ productUid: `e0a80100000000000000000000000${String(sequence).padStart(3, '0')}`, name, unitPriceWithVat, isDefault });
+
+const BURGER_EXTRAS: MockModifierGroup = {
+  uid: 'a0a8010000000000000000000000m001', name: 'Extra', kind: 'addon', minSelected: 0, maxSelected: 3,
+  options: [option(1, 'Bacon', 3.5), option(2, 'Cașcaval', 2), option(3, 'Jalapeño', 1.5), option(4, 'Ou', 2.5)]
+};
+
+const BURGER_REMOVALS: MockModifierGroup = {
+  uid: 'a0a8010000000000000000000000m002', name: 'Fără', kind: 'removal', minSelected: 0, maxSelected: 3,
+  options: [option(5, 'Ceapă'), option(6, 'Castraveți murați'), option(7, 'Sos')]
+};
+
+const DRINK_SIZE: MockModifierGroup = {
+  uid: 'a0a8010000000000000000000000m003', name: 'Mărime', kind: 'choice', minSelected: 1, maxSelected: 1,
+  options: [option(8, '0.5L', 0, true), option(9, '1L', 3)]
+};
+
+const DIPS: MockModifierGroup = {
+  uid: 'a0a8010000000000000000000000m004', name: 'Sosuri', kind: 'addon', minSelected: 0, maxSelected: 2,
+  options: [option(10, 'Ketchup', 1), option(11, 'Maioneză', 1), option(12, 'Sos de usturoi', 1.5)]
+};
+
+const MODIFIER_GROUPS: { [productAlias: string]: MockModifierGroup[] } = {
+  'cheeseburger': [BURGER_EXTRAS, BURGER_REMOVALS],
+  'double-cheeseburger': [BURGER_EXTRAS, BURGER_REMOVALS],
+  'mega-burger': [BURGER_EXTRAS, BURGER_REMOVALS],
+  'chicken-burger': [BURGER_EXTRAS, BURGER_REMOVALS],
+  'cola-05': [DRINK_SIZE],
+  'fries-large': [DIPS],
+  'nuggets-6': [DIPS]
+};
+
+// Food at the reduced restaurant rate, drinks at the standard one
+const VAT_RATES: { [categoryAlias: string]: number } = { drinks: 21 };
+const FOOD_VAT_RATE = 11;
+
+// [name, alias, category alias, price at the test location, price at the airport (null = not sold there)]
+type ProductSeed = [string, string | null, string, number | null, number | null];
+
+const PRODUCT_SEEDS: ProductSeed[] = [
+  ['Cheeseburger', 'cheeseburger', 'burgers', 12.9, 14.9],
+  ['Double Cheeseburger', 'double-cheeseburger', 'burgers', 18.5, 21.0],
+  ['Mega Burger', 'mega-burger', 'burgers', 24.9, 27.9],
+  ['Burger Vegetarian', 'veggie-burger', 'burgers', 19.9, null],
+  ['Chicken Burger', 'chicken-burger', 'chicken', 16.9, 18.9],
+  ['Chicken Nuggets 6 buc', 'nuggets-6', 'chicken', 14.5, 16.5],
+  ['Aripioare picante 8 buc', 'hot-wings-8', 'chicken', 22.0, 24.0],
+  ['Cartofi prăjiți mari', 'fries-large', 'sides', 9.9, 11.9],
+  ['Onion Rings', 'onion-rings', 'sides', 10.5, 12.5],
+  ['Salată coleslaw', 'coleslaw', 'sides', null, null],
+  ['Coca-Cola 0.5L', 'cola-05', 'drinks', 7.5, 9.0],
+  ['Apă plată 0.5L', 'water-05', 'drinks', 5.0, 6.0],
+  ['Cafea espresso', 'espresso', 'drinks', 6.5, 8.5],
+  ['Înghețată vanilie', 'ice-cream-vanilla', 'desserts', 8.9, 9.9],
+  ['Plăcintă cu mere', 'apple-pie', 'desserts', 7.9, null],
+  ['Burger de iarnă', 'winter-burger', 'seasonal', 26.9, 29.9]
+];
+
+export const PRODUCTS: MockProduct[] = PRODUCT_SEEDS.map(([name, alias, categoryAlias, testPrice, airportPrice], index) => {
+  const category = CATEGORIES.find(candidate => candidate.alias === categoryAlias)!;
+  const locationPrices: MockLocationPrice[] = [];
+  if (testPrice !== null) {
+    locationPrices.push({ locationUid: LOCATIONS[0].uid, locationName: LOCATIONS[0].name, unitPriceWithVat: testPrice, isActive: true });
+  }
+  if (airportPrice !== null) {
+    locationPrices.push({ locationUid: LOCATIONS[1].uid, locationName: LOCATIONS[1].name, unitPriceWithVat: airportPrice, isActive: true });
+  }
+
+  const sequence = String(index + 1).padStart(3, '0');
+  return {
+    uid: `d0a80100000000000000000000000${sequence}`,
+    id: 1000 + index + 1,
+    name,
+    alias,
+    description: null,
+    productCategoryUid: category.uid,
+    // Every other product has an image, so the SPA's fallback images get exercised too
+    imageUid: index % 2 === 0 ? `f0a80100000000000000000000000${sequence}` : null,
+    unitPriceWithVat: null,
+    vatRate: VAT_RATES[categoryAlias] ?? FOOD_VAT_RATE,
+    locationPrices,
+    modifierGroups: (alias && MODIFIER_GROUPS[alias]) || [],
+    isActive: category.isActive,
+    isDisabled: false
+  };
+});
+
+// Charges ordered as products of their own; never on the menu
+export const SERVICE_PRODUCTS: { uid: string; name: string; vatRate: number }[] = [
+  { uid: 'e0a80100000000000000000000000001', name: 'Taxă de serviciu', vatRate: FOOD_VAT_RATE }
+];
+
+export function findProductByImage(imageUid: string): MockProduct | undefined {
+  return PRODUCTS.find(product => product.imageUid === imageUid);
+}
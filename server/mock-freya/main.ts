@@ -0,0 +1,403 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readBody, sendJson } from '../http';
+import { CATEGORIES, LOCATIONS, PRODUCTS, SERVICE_PRODUCTS, findProductByImage } from './fixtures';
+import { FaultInjector, FaultSettings } from './faults';
+
+// Stand-in for the Freya API, for working on the menu and checkout offline and for
+// tests. Same endpoints and envelope as the real API, seeded data, in-memory orders.
+// Point the BFF at it (FREYA_BASE_URL=http://localhost:8090) or use the "mock"
+// environment of the SPA, which talks to it directly through the dev-server proxy.
+
+const PORT = Number(process.env['MOCK_PORT'] || 8090);
+const USERNAME = process.env['MOCK_USERNAME'] || 'dev';
+const PASSWORD = process.env['MOCK_PASSWORD'] || 'dev';
+// When set, requests must carry it in the ApiKey header like the real API
+const API_KEY = process.env['MOCK_API_KEY'] || '';
+const TOKEN_TTL_SECONDS = Number(process.env['MOCK_TOKEN_TTL_SECONDS'] || 15 * 60);
+
+interface MockOrder {
+  uid: string;
+  id: number;
+  orderNumber: string;
+  status: string;
+  estimatedTime: number;
+  totalAmount: number;
+  createdAt: string;
+  queuePosition: number;
+}
+
+// The parts of a posted order item the totals are computed from (validated first)
+interface OrderItem {
+  unitPriceWithVat: number;
+  quantity: number;
+  // Off the whole line
+  discountValue?: number;
+  toppings?: { unitPriceWithVat: number; quantity: number }[];
+}
+
+const faults = new FaultInjector();
+// token -> expiry (ms)
+const tokens = new Map<string, number>();
+const orders: MockOrder[] = [];
+// Idempotency-Key -> order created for it, pending while its request is in progress
+// and null when the API refused it
+const ordersByKey = new Map<string, Promise<MockOrder | null>>();
+// Fidelity card -> entry id -> points (negative when redeemed); one card starts with points
+const loyaltyLedger = new Map<string, Map<string, number>>([['4000123456', new Map([['welcome', 500]])]]);
+// Tenant -> promo code -> numbers of the orders it went out on
+const promotionUsage = new Map<string, Map<string, Set<string>>>();
+
+const server = createServer((request, response) => {
+  handle(request, response).catch(error => {
+    console.error('❌ Unhandled mock request error:', error);
+    if (!response.headersSent) {
+      sendJson(response, 500, { isSuccess: false, message: 'Internal server error' });
+    } else {
+      response.destroy();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock Freya API listening on :${PORT} (login ${USERNAME} / ${PASSWORD})`);
+  console.log('🧪 Faults:', JSON.stringify(faults.current));
+});
+
+async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+  allowCors(request, response);
+
+  if (request.method === 'OPTIONS') {
+    response.statusCode = 204;
+    response.end();
+    return;
+  }
+
+  if (url.pathname === '/__mock/faults') {
+    return handleFaults(request, response);
+  }
+  if (url.pathname.startsWith('/__mock/loyalty/')) {
+    return handleLoyalty(request, response, decodeURIComponent(url.pathname.slice('/__mock/loyalty/'.length)));
+  }
+  if (url.pathname.startsWith('/__mock/promotions/')) {
+    const [tenant, code] = url.pathname.slice('/__mock/promotions/'.length).split('/').map(decodeURIComponent);
+    return handlePromotionUsage(request, response, tenant, code);
+  }
+
+  const route = ROUTES[`${request.method} ${url.pathname}`];
+  if (!route) {
+    return sendJson(response, 404, { isSuccess: false, message: 'Endpoint not found' });
+  }
+
+  await faults.delay();
+
+  if (API_KEY && request.headers['apikey'] !== API_KEY) {
+    return sendJson(response, 401, { isSuccess: false, message: 'Invalid API key' });
+  }
+
+  const token = bearerToken(request);
+  if (route.authenticated && !isValidToken(token)) {
+    return sendJson(response, 401, { isSuccess: false, message: 'Token missing or expired' });
+  }
+
+  const failure = faults.pickFailure(route.authenticated);
+  if (failure !== null) {
+    console.log(`💥 Injected ${failure} for ${request.method} ${url.pathname}`);
+    if (failure === 401 && token) tokens.delete(token);
+    return sendJson(response, failure, { isSuccess: false, message: `Injected failure (${failure})` });
+  }
+
+  return route.handler(request, response, url);
+}
+
+// =============== ROUTES ===============
+
+interface Route {
+  authenticated: boolean;
+  handler: (request: IncomingMessage, response: ServerResponse, url: URL) => Promise<void> | void;
+}
+
+const ROUTES: { [methodAndPath: string]: Route } = {
+  'POST /login': { authenticated: false, handler: handleLogin },
+  'GET /ProductCategory/FindMany': { authenticated: true, handler: (_, response) => sendList(response, CATEGORIES) },
+  'GET /Product/FindMany': { authenticated: true, handler: (_, response) => sendList(response, PRODUCTS) },
+  'GET /Product/FindSellingProducts': { authenticated: true, handler: handleSellingProducts },
+  'POST /ClientOrder/Insert': { authenticated: true, handler: handleOrderInsert },
+  'GET /file/getImage': { authenticated: true, handler: handleImage }
+};
+
+async function handleLogin(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const credentials = parseJson(await readBody(request));
+  if (credentials?.username !== USERNAME || credentials?.password !== PASSWORD) {
+    return sendJson(response, 401, { isSuccess: false, message: 'Invalid username or password', payload: null });
+  }
+
+  const token = issueToken(USERNAME);
+  console.log('🔐 Issued mock token');
+  sendJson(response, 200, { isSuccess: true, message: null, payload: { token } });
+}
+
+function handleSellingProducts(_: IncomingMessage, response: ServerResponse, url: URL): void {
+  const categoryUid = url.searchParams.get('productcategoryUid');
+  const selling = PRODUCTS.filter(product =>
+    product.isActive && !product.isDisabled && (!categoryUid || product.productCategoryUid === categoryUid)
+  );
+  sendList(response, selling);
+}
+
+async function handleOrderInsert(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const header = request.headers['idempotency-key'];
+  const idempotencyKey = typeof header === 'string' ? header : undefined;
+
+  // A request with the same key still in progress is waited for; a refused one does not count
+  while (idempotencyKey && ordersByKey.has(idempotencyKey)) {
+    const previous = await ordersByKey.get(idempotencyKey);
+    if (previous) {
+      console.log('🔁 Replaying order for idempotency key:', idempotencyKey);
+      return sendJson(response, 200, { isSuccess: true, message: 'Order already received', payload: previous });
+    }
+  }
+
+  // Claimed before the body is read, so overlapping requests with the key wait for this one
+  let settle: (order: MockOrder | null) => void = () => {};
+  if (idempotencyKey) {
+    ordersByKey.set(idempotencyKey, new Promise(resolve => settle = resolve));
+  }
+
+  let order: MockOrder | null = null;
+  try {
+    order = await insertOrder(request, response);
+  } finally {
+    if (!order && idempotencyKey) ordersByKey.delete(idempotencyKey);
+    settle(order);
+  }
+}
+
+// Creates the posted order and answers it, or answers why it was refused and returns null
+async function insertOrder(request: IncomingMessage, response: ServerResponse): Promise<MockOrder | null> {
+  const body = parseJson(await readBody(request));
+  const problem = validateOrder(body);
+  if (problem) {
+    sendJson(response, 200, { isSuccess: false, message: problem, payload: null });
+    return null;
+  }
+
+  const items = body.items as OrderItem[];
+  const createdAt = new Date();
+  const queuePosition = orders.filter(order => createdAt.getTime() - Date.parse(order.createdAt) < 15 * 60 * 1000).length + 1;
+  const order: MockOrder = {
+    uid: randomUUID().replace(/-/g, ''),
+    id: orders.length + 1,
+    orderNumber: `M${String(orders.length + 1).padStart(5, '0')}`,
+    status: 'received',
+    estimatedTime: 10 + queuePosition * 3,
+    totalAmount: Math.round((items.reduce((sum, item) => sum + itemUnitPrice(item) * item.quantity - (item.discountValue ?? 0), 0) + (body.deliveryTax ?? 0)) * 100) / 100,
+    createdAt: createdAt.toISOString(),
+    queuePosition
+  };
+
+  orders.push(order);
+  console.log(`🧾 Order ${order.orderNumber} received: ${items.length} lines, ${order.totalAmount} RON`);
+  sendJson(response, 200, { isSuccess: true, message: null, payload: order });
+  return order;
+}
+
+function handleImage(_: IncomingMessage, response: ServerResponse, url: URL): void {
+  const product = findProductByImage(url.searchParams.get('imageUid') || '');
+  if (!product) {
+    return sendJson(response, 404, { isSuccess: false, message: 'Image not found' });
+  }
+
+  // A placeholder with the product name is enough to tell images apart
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300">` +
+    `<rect width="400" height="300" fill="#e30613"/>` +
+    `<text x="200" y="160" font-family="sans-serif" font-size="24" fill="#fff" text-anchor="middle">${escapeXml(product.name)}</text>` +
+    `</svg>`;
+  response.statusCode = 200;
+  response.setHeader('Content-Type', 'image/svg+xml');
+  response.setHeader('Cache-Control', 'private, max-age=3600');
+  response.end(svg);
+}
+
+// =============== FAULT CONTROL ===============
+
+// GET shows the current settings, POST merges changes, DELETE restores the defaults
+async function handleFaults(request: IncomingMessage, response: ServerResponse): Promise<void> {
+  if (request.method === 'POST') {
+    const changes = parseJson(await readBody(request)) as Partial<FaultSettings> | null;
+    if (!changes) {
+      return sendJson(response, 400, { isSuccess: false, message: 'Invalid JSON body' });
+    }
+    console.log('🧪 Faults updated:', JSON.stringify(faults.update(changes)));
+  } else if (request.method === 'DELETE') {
+    faults.reset();
+  } else if (request.method !== 'GET') {
+    return sendJson(response, 405, { isSuccess: false, message: 'Method not allowed' });
+  }
+
+  sendJson(response, 200, { isSuccess: true, payload: faults.current });
+}
+
+// =============== LOYALTY LEDGER ===============
+
+// Backs the SPA's loyalty ledger (environment `loyaltyUrl`): GET answers the card's
+// balance, POST records an entry once per id and answers the new balance
+async function handleLoyalty(request: IncomingMessage, response: ServerResponse, card: string): Promise<void> {
+  if (!/^[A-Z0-9]{6,20}$/.test(card)) {
+    return sendJson(response, 400, { isSuccess: false, message: 'Invalid card number' });
+  }
+
+  const entries = loyaltyLedger.get(card) ?? new Map<string, number>();
+  const balance = () => [...entries.values()].reduce((total, points) => total + points, 0);
+
+  if (request.method === 'POST') {
+    const entry = parseJson(await readBody(request));
+    if (typeof entry?.id !== 'string' || !Number.isInteger(entry.points)) {
+      return sendJson(response, 400, { isSuccess: false, message: 'Entry needs an id and whole points' });
+    }
+    if (!entries.has(entry.id)) {
+      if (balance() + entry.points < 0) {
+        return sendJson(response, 409, { isSuccess: false, message: 'Not enough points', balance: balance() });
+      }
+      entries.set(entry.id, entry.points);
+      loyaltyLedger.set(card, entries);
+      console.log(`⭐ Card ${card}: ${entry.points > 0 ? '+' : ''}${entry.points} points (${entry.id}), ${balance()} left`);
+    }
+  } else if (request.method !== 'GET') {
+    return sendJson(response, 405, { isSuccess: false, message: 'Method not allowed' });
+  }
+
+  sendJson(response, 200, { isSuccess: true, card, balance: balance() });
+}
+
+// =============== PROMOTION USAGE ===============
+
+// Backs the SPA's promo code usage store (environment `promotionUsageUrl`): GET on the
+// tenant answers the orders per code, POST on a code counts an order towards it once
+async function handlePromotionUsage(request: IncomingMessage, response: ServerResponse, tenant: string, code: string | undefined): Promise<void> {
+  const usage = promotionUsage.get(tenant) ?? new Map<string, Set<string>>();
+
+  if (request.method === 'POST' && code) {
+    const body = parseJson(await readBody(request));
+    if (typeof body?.orderNumber !== 'string' || !body.orderNumber) {
+      return sendJson(response, 400, { isSuccess: false, message: 'Use needs an orderNumber' });
+    }
+    const orders = usage.get(code) ?? new Set<string>();
+    orders.add(body.orderNumber);
+    usage.set(code, orders);
+    promotionUsage.set(tenant, usage);
+    console.log(`🎟️ ${tenant}: ${code} used on ${orders.size} order(s)`);
+    return sendJson(response, 200, { isSuccess: true, code, orders: orders.size });
+  }
+  if (request.method !== 'GET' || code) {
+    return sendJson(response, 405, { isSuccess: false, message: 'Method not allowed' });
+  }
+
+  sendJson(response, 200, { isSuccess: true, usage: Object.fromEntries([...usage].map(([used, orders]) => [used, orders.size])) });
+}
+
+// =============== HELPERS ===============
+
+function validateOrder(body: any): string | null {
+  if (!body || !Array.isArray(body.items) || body.items.length === 0) {
+    return 'Order has no items';
+  }
+  if (!LOCATIONS.some(location => location.uid === body.locationUid)) {
+    return `Unknown location ${body.locationUid}`;
+  }
+
+  for (const item of body.items) {
+    const service = SERVICE_PRODUCTS.find(candidate => candidate.uid === item?.productUid);
+    if (service) {
+      if (item.quantity !== 1 || typeof item.unitPriceWithVat !== 'number' || item.unitPriceWithVat < 0 || item.toppings?.length) {
+        return `Invalid ${service.name}`;
+      }
+      if (item.vatRate !== service.vatRate) {
+        return `VAT rate for ${service.name} is ${service.vatRate}%, not ${item.vatRate}`;
+      }
+      continue;
+    }
+
+    const product = PRODUCTS.find(candidate => candidate.uid === item?.productUid);
+    if (!product || !product.isActive) {
+      return `Unknown product ${item?.productUid}`;
+    }
+    if (typeof item.quantity !== 'number' || item.quantity <= 0 || typeof item.unitPriceWithVat !== 'number') {
+      return `Invalid quantity or price for ${product.name}`;
+    }
+    if (item.vatRate !== product.vatRate) {
+      return `VAT rate for ${product.name} is ${product.vatRate}%, not ${item.vatRate}`;
+    }
+
+    const options = product.modifierGroups.flatMap(group => group.options);
+    for (const topping of Array.isArray(item.toppings) ? item.toppings : []) {
+      const known = options.some(option => option.productUid === topping?.productUid);
+      if (!known || typeof topping.unitPriceWithVat !== 'number' || typeof topping.quantity !== 'number') {
+        return `Invalid topping ${topping?.productUid} for ${product.name}`;
+      }
+    }
+
+    const discount = item.discountValue ?? 0;
+    if (typeof discount !== 'number' || discount < 0 || discount > itemUnitPrice(item) * item.quantity + 0.005) {
+      return `Invalid discount for ${product.name}`;
+    }
+  }
+  return null;
+}
+
+// Toppings are priced per unit of their item
+function itemUnitPrice(item: OrderItem): number {
+  return item.unitPriceWithVat + (item.toppings ?? []).reduce((sum, topping) => sum + topping.unitPriceWithVat * topping.quantity, 0);
+}
+
+function sendList(response: ServerResponse, records: unknown[]): void {
+  sendJson(response, 200, { isSuccess: true, message: null, payload: { records, totalRecords: records.length } });
+}
+
+// Unsigned JWT: the SPA only reads the exp/iat claims, nothing verifies the signature
+function issueToken(subject: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({ sub: subject, iat: now, exp: now + TOKEN_TTL_SECONDS, jti: randomUUID() })).toString('base64url');
+  const token = `${header}.${claims}.mock`;
+  tokens.set(token, (now + TOKEN_TTL_SECONDS) * 1000);
+  return token;
+}
+
+function bearerToken(request: IncomingMessage): string | null {
+  const header = request.headers['authorization'];
+  return typeof header === 'string' ? header.replace(/^Bearer\s+/i, '').trim() || null : null;
+}
+
+function isValidToken(token: string | null): boolean {
+  const expiry = token ? tokens.get(token) : undefined;
+  if (expiry === undefined) return false;
+  if (Date.now() >= expiry) {
+    tokens.delete(token!);
+    return false;
+  }
+  return true;
+}
+
+function allowCors(request: IncomingMessage, response: ServerResponse): void {
+  const origin = request.headers['origin'];
+  if (!origin) return;
+  response.setHeader('Access-Control-Allow-Origin', origin);
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, ApiKey, Content-Type, Idempotency-Key');
+  response.setHeader('Access-Control-Expose-Headers', 'Date');
+  response.setHeader('Vary', 'Origin');
+}
+
+function parseJson(body: Buffer): any {
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ClientOrderItemDto, ProductDto } from '../src/app/api/freya-dto';
+import { OrderBenefits, OrderTenant, orderProblem } from './order-check';
+
+const LOCATION = 'loc-1';
+
+const TENANT: OrderTenant = {
+  client: { uid: 'client-1' } as OrderTenant['client'],
+  billingClient: { uid: 'billing-1' } as OrderTenant['billingClient'],
+  pricing: { serviceFeePercent: 0.1, deliveryFee: 2, vatRate: 0.11, serviceFeeProduct: { uid: 'fee-1', name: 'Service fee' } },
+  promotions: [{ code: 'TEN', description: '10% off', kind: 'percentage', value: 0.1, usageLimit: 5 }],
+  loyalty: { pointValue: 0.05, maxRedeemShare: 0.5 }
+};
+
+const CATALOG: ProductDto[] = [{
+  uid: 'burger-1',
+  name: 'Burger',
+  vatRate: 11,
+  locationPrices: [{ locationUid: LOCATION, unitPriceWithVat: 20 }],
+  modifierGroups: [{
+    uid: 'extras',
+    name: 'Extras',
+    kind: 'addon',
+    options: [{ productUid: 'cheese-1', name: 'Cheese', unitPriceWithVat: 3 }]
+  }]
+}];
+
+function item(overrides: Partial<ClientOrderItemDto> = {}): ClientOrderItemDto {
+  return {
+    uid: null,
+    description: null,
+    parentProductUid: null,
+    productName: 'Burger',
+    productUid: 'burger-1',
+    vatRate: 11,
+    units: 1,
+    quantity: 2,
+    finalQuantity: 2,
+    unitPriceWithVat: 20,
+    discountValue: 0,
+    discountPercent: 0,
+    discountType: 0,
+    addedAt: '2026-01-01T12:00:00Z',
+    toppings: [{ productUid: 'cheese-1', productName: 'Cheese', parentProductUid: 'burger-1', quantity: 1, unitPriceWithVat: 3 }],
+    collectibleUnits: 0,
+    isRetuRo: false,
+    ...overrides
+  };
+}
+
+// 2 x (20 + 3) = 46, a 10% service fee of 4.60 and a delivery fee of 2
+function order(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    locationUid: LOCATION,
+    client: { uid: 'client-1' },
+    billingClientUid: 'billing-1',
+    billingClient: { uid: 'billing-1' },
+    items: [item(), feeItem(4.6)],
+    deliveryTax: 2,
+    ...overrides
+  };
+}
+
+function feeItem(unitPriceWithVat: number): ClientOrderItemDto {
+  return item({ productName: 'Service fee', productUid: 'fee-1', quantity: 1, finalQuantity: 1, unitPriceWithVat, toppings: [] });
+}
+
+function benefits(overrides: Partial<OrderBenefits> = {}): OrderBenefits {
+  return { codes: [], redeemedPoints: 0, usage: {}, now: new Date('2026-01-01T12:00:00Z'), ...overrides };
+}
+
+describe('order check', () => {
+  it('passes an order the app built for the table', () => {
+    assert.equal(orderProblem(order(), TENANT, LOCATION, CATALOG), null);
+  });
+
+  it('refuses an order for another restaurant or client', () => {
+    assert.match(orderProblem(order({ locationUid: 'loc-2' }), TENANT, LOCATION, CATALOG)!, /restaurant/);
+    assert.match(orderProblem(order({ billingClientUid: 'billing-2' }), TENANT, LOCATION, CATALOG)!, /clients/);
+  });
+
+  it('refuses prices that are not the catalog ones', () => {
+    assert.match(orderProblem(order({ items: [item({ unitPriceWithVat: 0.01 })] }), TENANT, LOCATION, CATALOG)!, /costs/);
+    const cheapCheese = item({ toppings: [{ productUid: 'cheese-1', productName: 'Cheese', parentProductUid: 'burger-1', quantity: 1, unitPriceWithVat: 0 }] });
+    assert.match(orderProblem(order({ items: [cheapCheese] }), TENANT, LOCATION, CATALOG)!, /Invalid option/);
+  });
+
+  it('refuses products that are not on the menu', () => {
+    assert.match(orderProblem(order({ items: [item({ productUid: 'other' })] }), TENANT, LOCATION, CATALOG)!, /not on the menu/);
+  });
+
+  it('refuses discounts no promo code or points account for', () => {
+    assert.match(orderProblem(order({ items: [item({ discountValue: 4.6 }), feeItem(4.14)] }), TENANT, LOCATION, CATALOG)!, /Discount for Burger is/);
+  });
+
+  it('passes the discount of a promo code, with the fee on what is left', () => {
+    const discounted = order({ items: [item({ discountValue: 4.6, discountPercent: 10 }), feeItem(4.14)] });
+
+    assert.equal(orderProblem(discounted, TENANT, LOCATION, CATALOG, benefits({ codes: ['ten'] })), null);
+    assert.match(orderProblem(discounted, TENANT, LOCATION, CATALOG, benefits({ codes: ['TEN'], usage: { TEN: 5 } }))!, /already been used/);
+    assert.match(orderProblem(discounted, TENANT, LOCATION, CATALOG, benefits({ codes: ['OTHER'] }))!, /Invalid promo code/);
+  });
+
+  it('passes redeemed points up to the share of the order they may pay for', () => {
+    const redeemed = order({ items: [item({ discountValue: 5 }), feeItem(4.1)] });
+
+    assert.equal(orderProblem(redeemed, TENANT, LOCATION, CATALOG, benefits({ redeemedPoints: 100 })), null);
+    assert.match(orderProblem(redeemed, TENANT, LOCATION, CATALOG, benefits({ redeemedPoints: 1000 }))!, /cannot go towards/);
+  });
+
+  it('refuses fees that are not the tenant ones', () => {
+    const items = [item(), item({ productUid: 'fee-1', quantity: 1, unitPriceWithVat: 1, toppings: [] })];
+    assert.match(orderProblem(order({ items }), TENANT, LOCATION, CATALOG)!, /Service fee is/);
+    assert.match(orderProblem(order({ deliveryTax: 0 }), TENANT, LOCATION, CATALOG)!, /Delivery tax/);
+  });
+});
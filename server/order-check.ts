@@ -0,0 +1,188 @@
+import { ClientOrderInsertRequestDto, ClientOrderItemDto, ProductDto } from '../src/app/api/freya-dto';
+import { MenuCategoryMode, PromotionConfig, TenantConfig } from '../src/app/config/config-types';
+import { PromotionContext, PromotionLine, applyPromotions, findPromotion } from '../src/app/services/discounts';
+import { LOYALTY_DISCOUNT_CODE, loyaltyRules, pointsValue, redeemablePoints } from '../src/app/services/loyalty';
+import { OTHER_CATEGORY, keywordCategoryFor } from '../src/app/services/menu-categories';
+import { Money, add, equalsMoney, formatMoney, moneyOf, subtract, zero } from '../src/app/services/money';
+import { resolveProductPrice } from '../src/app/services/price-resolver';
+import { PricingDiscount, PricingLine, priceOrder, tenantFees, vatRateFromPercent, vatRateToPercent } from '../src/app/services/pricing';
+import { ModifierSelection, selectionProblems, toModifierGroups } from '../src/app/services/product-modifiers';
+
+// =============== ORDER CHECK ===============
+// An order goes upstream only when the SPA could have built it for the session's
+// table: for the table's restaurant and the tenant's clients, at the catalog's
+// prices and VAT rates, with the tenant's fees, and with the discounts its promo
+// codes and redeemed points come to. That the points are still on the card is the
+// ledger's to say (see main.ts).
+
+export type OrderTenant = Pick<TenantConfig, 'client' | 'billingClient' | 'pricing' | 'promotions' | 'loyalty' | 'menu'>;
+
+// What the order claims to take off, as the SPA sends it alongside
+export interface OrderBenefits {
+  codes: string[];
+  redeemedPoints: number;
+  // Orders each code already went out on
+  usage: PromotionContext['usage'];
+  now: Date;
+}
+
+export const NO_BENEFITS: OrderBenefits = { codes: [], redeemedPoints: 0, usage: {}, now: new Date(0) };
+
+// What is wrong with the order, or null when it can be forwarded
+export function orderProblem(
+  body: unknown,
+  tenant: OrderTenant,
+  locationUid: string,
+  catalog: ProductDto[],
+  benefits: OrderBenefits = NO_BENEFITS
+): string | null {
+  const order = body as Partial<ClientOrderInsertRequestDto> | null;
+  if (!order || !Array.isArray(order.items) || order.items.length === 0) {
+    return 'Order has no items';
+  }
+  if (order.locationUid !== locationUid) {
+    return 'Order is not for the restaurant of this table';
+  }
+  if (order.client?.uid !== tenant.client.uid || order.billingClientUid !== tenant.billingClient.uid || order.billingClient?.['uid'] !== tenant.billingClient.uid) {
+    return 'Order is not for the clients of this restaurant';
+  }
+
+  const fees = tenantFees(tenant.pricing);
+  const feeProduct = tenant.pricing?.serviceFeeProduct;
+  const lines: PromotedLine[] = [];
+  const sentDiscounts: Money[] = [];
+  let serviceFee: Money | null = null;
+
+  for (const [index, item] of (order.items as Partial<ClientOrderItemDto>[]).entries()) {
+    if (feeProduct && item?.productUid === feeProduct.uid) {
+      const amount = amountOf(item.unitPriceWithVat);
+      if (serviceFee || !amount || item.quantity !== 1 || item.vatRate !== vatRateToPercent(fees.vatRate) || item.discountValue) {
+        return `Invalid ${feeProduct.name}`;
+      }
+      serviceFee = amount;
+      continue;
+    }
+
+    const line = pricedLine(item, `line-${index}`, catalog, locationUid, fees.vatRate, tenant.menu?.categoryMode);
+    if (typeof line === 'string') return line;
+
+    const discount = amountOf(item.discountValue ?? 0);
+    if (!discount) {
+      return `Invalid discount for ${line.name}`;
+    }
+    lines.push(line);
+    sentDiscounts.push(discount);
+  }
+
+  const discounts = orderDiscounts(lines, tenant, benefits);
+  if (typeof discounts === 'string') return discounts;
+  const pricing = priceOrder(lines, fees, discounts);
+  for (const [index, line] of pricing.lines.entries()) {
+    if (!equalsMoney(sentDiscounts[index], line.discount)) {
+      return `Discount for ${line.name} is ${formatMoney(line.discount)}`;
+    }
+  }
+
+  if (feeProduct && !equalsMoney(serviceFee ?? zero(), pricing.serviceFee)) {
+    return `${feeProduct.name} is ${formatMoney(pricing.serviceFee)}`;
+  }
+
+  const deliveryTax = feeProduct ? pricing.deliveryFee : add(pricing.deliveryFee, pricing.serviceFee);
+  const sentTax = amountOf(order.deliveryTax);
+  if (!sentTax || !equalsMoney(sentTax, deliveryTax)) {
+    return `Delivery tax is ${formatMoney(deliveryTax)}`;
+  }
+  return null;
+}
+
+type PromotedLine = PricingLine & Pick<PromotionLine, 'categories'>;
+
+// The entered codes as the SPA applies them, then the redeemed points on what they left
+function orderDiscounts(lines: PromotedLine[], tenant: OrderTenant, benefits: OrderBenefits): PricingDiscount[] | string {
+  const entered: PromotionConfig[] = [];
+  for (const code of benefits.codes) {
+    const promotion = findPromotion(tenant.promotions ?? [], code);
+    if (!promotion) return `Invalid promo code ${code}`;
+    entered.push(promotion);
+  }
+
+  const outcome = applyPromotions(entered, lines, { now: benefits.now, usage: benefits.usage });
+  if (outcome.inactive.length > 0) {
+    return outcome.inactive[0].reason;
+  }
+  if (benefits.redeemedPoints === 0) {
+    return outcome.discounts;
+  }
+
+  if (!tenant.loyalty) return 'Loyalty points cannot be redeemed here';
+  const rules = loyaltyRules(tenant.loyalty);
+  const promoted = priceOrder(lines, tenantFees(tenant.pricing), outcome.discounts);
+  const payable = subtract(promoted.subtotal, promoted.discountTotal);
+  if (redeemablePoints(benefits.redeemedPoints, payable, rules) !== benefits.redeemedPoints) {
+    return `${benefits.redeemedPoints} points cannot go towards this order`;
+  }
+  return [...outcome.discounts, {
+    code: LOYALTY_DISCOUNT_CODE,
+    description: `Loyalty points (${benefits.redeemedPoints})`,
+    amount: pointsValue(benefits.redeemedPoints, rules, payable)
+  }];
+}
+
+// The item as the catalog sells it at the location, or what keeps it from being sold
+function pricedLine(
+  item: Partial<ClientOrderItemDto> | null,
+  lineId: string,
+  catalog: ProductDto[],
+  locationUid: string,
+  defaultVatRate: number,
+  categoryMode: MenuCategoryMode | undefined
+): PromotedLine | string {
+  const product = catalog.find(candidate => candidate.uid === item?.productUid);
+  if (!item || !product) {
+    return `Product ${item?.productUid} is not on the menu`;
+  }
+
+  const price = resolveProductPrice(product, locationUid);
+  if (price.status !== 'priced') {
+    return `${product.name} is not sold at this restaurant`;
+  }
+  if (typeof item.quantity !== 'number' || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+    return `Invalid quantity for ${product.name}`;
+  }
+  const unitPriceWithVat = amountOf(item.unitPriceWithVat);
+  if (!unitPriceWithVat || !equalsMoney(unitPriceWithVat, price.price)) {
+    return `${product.name} costs ${formatMoney(price.price)}`;
+  }
+  const vatRate = vatRateFromPercent(product.vatRate) ?? defaultVatRate;
+  if (item.vatRate !== vatRateToPercent(vatRate)) {
+    return `VAT rate for ${product.name} is ${vatRateToPercent(vatRate)}%`;
+  }
+
+  // Left-out ingredients go in the description, so only priced options come as toppings
+  const groups = toModifierGroups(product.modifierGroups).filter(group => group.kind !== 'removal');
+  const selection: ModifierSelection = {};
+  let unitPrice = price.price;
+  for (const topping of Array.isArray(item.toppings) ? item.toppings : []) {
+    const group = groups.find(candidate => candidate.options.some(option => option.uid === topping?.productUid));
+    const option = group?.options.find(candidate => candidate.uid === topping?.productUid);
+    const delta = amountOf(topping?.unitPriceWithVat);
+    if (!group || !option || topping.quantity !== 1 || !delta || !equalsMoney(delta, option.priceDelta)) {
+      return `Invalid option ${topping?.productUid} for ${product.name}`;
+    }
+    selection[group.uid] = [...(selection[group.uid] ?? []), option.uid];
+    unitPrice = add(unitPrice, option.priceDelta);
+  }
+
+  const problems = selectionProblems(groups, selection);
+  if (problems.length > 0) {
+    return `${product.name}: ${problems[0]}`;
+  }
+  // As the SPA files the product, for promotions limited to categories
+  const category = categoryMode === 'keywords' ? keywordCategoryFor(product.name, product.alias) : product.productCategoryUid || OTHER_CATEGORY.id;
+  const categories = [category, product.productCategoryUid].filter((key): key is string => !!key);
+  return { lineId, name: product.name, quantity: item.quantity, unitPrice, vatRate, categories };
+}
+
+function amountOf(value: unknown): Money | null {
+  return typeof value === 'number' && Number.isFinite(value) ? moneyOf(value) : null;
+}
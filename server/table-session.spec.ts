@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { IncomingMessage } from 'node:http';
+import { SESSION_COOKIE, isValidTableId, isValidTableToken, issueSession, readSession, sessionCookie, tableToken } from './table-session';
+
+const SECRET = 'test-secret';
+
+function requestWith(cookie: string): IncomingMessage {
+  return { headers: { cookie } } as IncomingMessage;
+}
+
+describe('table session cookie', () => {
+  it('reads back the session it signed', () => {
+    const { session, value } = issueSession('T12', SECRET, 60);
+
+    assert.deepEqual(readSession(requestWith(`other=1; ${SESSION_COOKIE}=${value}`), SECRET), session);
+  });
+
+  it('refuses a session whose table was changed', () => {
+    const { value } = issueSession('T12', SECRET, 60);
+    const [, signature] = value.split('.');
+    const forged = Buffer.from(JSON.stringify({ tableId: 'T13', expiresAt: Date.now() + 60000 })).toString('base64url');
+
+    assert.equal(readSession(requestWith(`${SESSION_COOKIE}=${forged}.${signature}`), SECRET), null);
+  });
+
+  it('refuses a session signed with another secret', () => {
+    const { value } = issueSession('T12', 'other-secret', 60);
+
+    assert.equal(readSession(requestWith(`${SESSION_COOKIE}=${value}`), SECRET), null);
+  });
+
+  it('refuses an expired session', () => {
+    const { value } = issueSession('T12', SECRET, -1);
+
+    assert.equal(readSession(requestWith(`${SESSION_COOKIE}=${value}`), SECRET), null);
+  });
+
+  it('refuses a missing or malformed cookie', () => {
+    assert.equal(readSession(requestWith(''), SECRET), null);
+    assert.equal(readSession(requestWith(`${SESSION_COOKIE}=garbage`), SECRET), null);
+    assert.equal(readSession(requestWith(`${SESSION_COOKIE}=garbage.signature`), SECRET), null);
+  });
+
+  it('only accepts table ids that fit a QR code', () => {
+    assert.equal(isValidTableId('T-12_a'), true);
+    assert.equal(isValidTableId(''), false);
+    assert.equal(isValidTableId('T 12'), false);
+    assert.equal(isValidTableId('x'.repeat(65)), false);
+    assert.equal(isValidTableId(12), false);
+  });
+
+  it('takes the QR code of the table only', () => {
+    const token = tableToken('T12', SECRET);
+
+    assert.equal(isValidTableToken('T12', token, SECRET), true);
+    assert.equal(isValidTableToken('T13', token, SECRET), false);
+    assert.equal(isValidTableToken('T12', tableToken('T12', 'other-secret'), SECRET), false);
+    assert.equal(isValidTableToken('T12', undefined, SECRET), false);
+  });
+
+  it('keeps the cookie away from scripts and other sites', () => {
+    assert.equal(sessionCookie('value', 60, false), `${SESSION_COOKIE}=value; Path=/api; Max-Age=60; HttpOnly; SameSite=Strict`);
+    assert.match(sessionCookie('value', 60, true), /; Secure$/);
+  });
+});
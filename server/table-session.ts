@@ -0,0 +1,86 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+
+export const SESSION_COOKIE = 'hb_table_session';
+
+const TABLE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export interface TableSession {
+  tableId: string;
+  expiresAt: number;
+}
+
+export function isValidTableId(tableId: unknown): tableId is string {
+  return typeof tableId === 'string' && TABLE_ID_PATTERN.test(tableId);
+}
+
+// Cookie value: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload)
+export function issueSession(tableId: string, secret: string, ttlSeconds: number): { session: TableSession; value: string } {
+  const session: TableSession = { tableId, expiresAt: Date.now() + ttlSeconds * 1000 };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return { session, value: `${payload}.${sign(payload, secret)}` };
+}
+
+export function readSession(request: IncomingMessage, secret: string): TableSession | null {
+  const value = parseCookies(request.headers.cookie)[SESSION_COOKIE];
+  if (!value) return null;
+
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TableSession;
+    if (!isValidTableId(session.tableId) || typeof session.expiresAt !== 'number' || session.expiresAt <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Printed in the table's QR code as ?t=, so only labelled tables get a session
+export function tableToken(tableId: string, secret: string): string {
+  return sign(`table:${tableId}`, secret);
+}
+
+export function isValidTableToken(tableId: string, token: unknown, secret: string): boolean {
+  if (typeof token !== 'string') return false;
+
+  const expected = Buffer.from(tableToken(tableId, secret));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function sessionCookie(value: string, maxAgeSeconds: number, secure: boolean): string {
+  const attributes = [
+    `${SESSION_COOKIE}=${value}`,
+    'Path=/api',
+    `Max-Age=${maxAgeSeconds}`,
+    'HttpOnly',
+    'SameSite=Strict'
+  ];
+  if (secure) attributes.push('Secure');
+  return attributes.join('; ');
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function parseCookies(header: string | undefined): { [name: string]: string } {
+  const cookies: { [name: string]: string } = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+    }
+  }
+  return cookies;
+}
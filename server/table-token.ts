@@ -0,0 +1,12 @@
+import { isValidTableId, tableToken } from './table-session';
+
+// Prints the ?t= code to put in a table's QR link: npm run table-token -- <tableId>...
+const secret = process.env['TABLE_TOKEN_SECRET'];
+const tableIds = process.argv.slice(2);
+if (!secret || tableIds.length === 0 || !tableIds.every(isValidTableId)) {
+  console.error('Usage: TABLE_TOKEN_SECRET=... npm run table-token -- <tableId>...');
+  process.exit(1);
+}
+for (const tableId of tableIds) {
+  console.log(`${tableId}\t/menu/${tableId}?t=${tableToken(tableId, secret)}`);
+}
@@ -0,0 +1,19 @@
+import { readFileSync } from 'node:fs';
+import { AppConfigFile, TenantConfig } from '../src/app/config/config-types';
+
+// The configuration file the SPA is deployed with, read once at start-up
+export function loadAppConfigFile(file: string): AppConfigFile {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as AppConfigFile;
+  } catch (error) {
+    throw new Error(`Cannot read app configuration ${file}: ${(error as Error).message}`);
+  }
+}
+
+// The tenant the SPA on this host runs as; the browser's ?tenant= choice does not count here
+export function tenantForHost(file: AppConfigFile, host: string | undefined): TenantConfig | null {
+  const hostname = (host || '').replace(/:\d+$/, '');
+  const tenantId = file.hosts?.[hostname]?.tenant || file.defaultTenant;
+  const tenant = file.tenants[tenantId];
+  return tenant ? { ...tenant, id: tenantId } : null;
+}
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Duplex } from 'node:stream';
+import { WebSocketConnection } from './websocket';
+
+// A socket that keeps what the server writes
+class FakeSocket extends Duplex {
+  written: Buffer[] = [];
+
+  override _read(): void {}
+
+  override _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+    this.written.push(chunk);
+    callback();
+  }
+}
+
+function clientFrame(opcode: number, text: string, { masked = true, fin = true } = {}): Buffer {
+  const payload = Buffer.from(text, 'utf8');
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const length = payload.length < 126 ? Buffer.from([payload.length]) : Buffer.from([126, payload.length >> 8, payload.length & 0xff]);
+  length[0] |= masked ? 0x80 : 0;
+  const body = masked ? Buffer.concat([mask, payload.map((byte, i) => byte ^ mask[i % 4])]) : payload;
+  return Buffer.concat([Buffer.from([(fin ? 0x80 : 0) | opcode]), length, body]);
+}
+
+function closeCode(socket: FakeSocket): number | null {
+  const frame = socket.written.find(chunk => (chunk[0] & 0x0f) === 0x8);
+  return frame ? frame.readUInt16BE(2) : null;
+}
+
+function connect(): { socket: FakeSocket; connection: WebSocketConnection; messages: string[] } {
+  const socket = new FakeSocket();
+  const connection = new WebSocketConnection(socket, Buffer.alloc(0));
+  const messages: string[] = [];
+  connection.onMessage = text => messages.push(text);
+  return { socket, connection, messages };
+}
+
+describe('WebSocket frame parser', () => {
+  it('passes on a masked text frame', () => {
+    const { socket, messages } = connect();
+
+    socket.emit('data', clientFrame(0x1, '{"type":"join"}'));
+
+    assert.deepEqual(messages, ['{"type":"join"}']);
+    assert.equal(closeCode(socket), null);
+  });
+
+  it('waits for a frame split across chunks', () => {
+    const { socket, messages } = connect();
+    const frame = clientFrame(0x1, 'x'.repeat(300));
+
+    socket.emit('data', frame.subarray(0, 3));
+    assert.deepEqual(messages, []);
+    socket.emit('data', frame.subarray(3));
+
+    assert.deepEqual(messages, ['x'.repeat(300)]);
+  });
+
+  it('closes with a protocol error on an unmasked client frame', () => {
+    const { socket, messages } = connect();
+
+    socket.emit('data', clientFrame(0x1, 'hello', { masked: false }));
+
+    assert.deepEqual(messages, []);
+    assert.equal(closeCode(socket), 1002);
+  });
+
+  it('closes with message too big on an oversized frame', () => {
+    const { socket } = connect();
+    const header = Buffer.from([0x81, 0x80 | 127, 0, 0, 0, 0, 0, 0x10, 0, 0]);
+
+    socket.emit('data', header);
+
+    assert.equal(closeCode(socket), 1009);
+  });
+
+  it('closes with unsupported data on fragments and binary frames', () => {
+    const fragmented = connect();
+    fragmented.socket.emit('data', clientFrame(0x1, 'part', { fin: false }));
+    assert.equal(closeCode(fragmented.socket), 1003);
+
+    const binary = connect();
+    binary.socket.emit('data', clientFrame(0x2, 'data'));
+    assert.equal(closeCode(binary.socket), 1003);
+  });
+
+  it('answers a ping with a pong carrying the same payload', () => {
+    const { socket } = connect();
+
+    socket.emit('data', clientFrame(0x9, 'beat'));
+
+    assert.deepEqual(socket.written, [Buffer.from([0x8a, 4, ...Buffer.from('beat')])]);
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+
+// Just enough of RFC 6455 for small JSON messages: unfragmented text frames, ping
+// and close. Anything else (binary, fragments, oversized frames) closes the connection.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 256 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Close codes of RFC 6455 section 7.4.1
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  size: number;
+}
+
+export class WebSocketConnection {
+  onMessage: (text: string) => void = () => {};
+  onClose: () => void = () => {};
+
+  private buffer = Buffer.alloc(0);
+  private closed = false;
+
+  constructor(private socket: Duplex, head: Buffer) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+    if (head.length > 0) this.receive(head);
+  }
+
+  send(text: string): void {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    }
+  }
+
+  close(code = 1000): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    this.finish();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (!this.closed) {
+      const frame = decodeFrame(this.buffer);
+      if (frame === null) return;
+      if (typeof frame === 'number') return this.close(frame);
+
+      this.buffer = this.buffer.subarray(frame.size);
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: Frame): void {
+    if (!frame.fin) return this.close(CLOSE_UNSUPPORTED_DATA);
+
+    switch (frame.opcode) {
+      case OPCODE_TEXT:
+        this.onMessage(frame.payload.toString('utf8'));
+        break;
+      case OPCODE_PING:
+        this.socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        break;
+      case OPCODE_PONG:
+        break;
+      case OPCODE_CLOSE:
+        this.close();
+        break;
+      default:
+        this.close(CLOSE_UNSUPPORTED_DATA);
+    }
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+}
+
+// Answers the upgrade request; null (and the socket closed) when it is not a WebSocket handshake
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  return new WebSocketConnection(socket, head);
+}
+
+// Null until the whole frame has arrived; a close code when the frame is refused
+// (clients must mask what they send)
+function decodeFrame(buffer: Buffer): Frame | number | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  if (!masked) return CLOSE_PROTOCOL_ERROR;
+  if (length > MAX_MESSAGE_BYTES) return CLOSE_MESSAGE_TOO_BIG;
+  if (buffer.length < offset + 4 + length) return null;
+
+  const mask = buffer.subarray(offset, offset + 4);
+  const payload = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    payload[i] = buffer[offset + 4 + i] ^ mask[i % 4];
+  }
+  return { fin, opcode, payload, size: offset + 4 + length };
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
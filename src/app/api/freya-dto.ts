@@ -0,0 +1,227 @@
+import { ApiSchemaError, Infer, Schema, array, boolean, nullable, number, object, oneOf, optional, string } from './schema';
+
+// =============== FREYA RESPONSE CONTRACT ===============
+// Every Freya endpoint answers with the same envelope; list endpoints put their
+// rows in payload.records. Only the fields the app reads are declared here - the
+// rest of each record is kept as received and ignored.
+
+export interface FreyaEnvelope<T> {
+  isSuccess: boolean;
+  message?: string | null;
+  payload: T | null;
+}
+
+export interface FreyaList<T> {
+  records: T[];
+  totalRecords?: number | null;
+}
+
+/**
+ * The payload is only checked when the call succeeded; a refused call may carry
+ * `payload: null` together with the reason in `message`.
+ */
+export function envelope<T>(payloadSchema: Schema<T>): Schema<FreyaEnvelope<T>> {
+  const head = object({
+    isSuccess: boolean,
+    message: optional(string)
+  });
+
+  return (value, path) => {
+    const response = head(value, path) as FreyaEnvelope<unknown>;
+    if (!response.isSuccess) {
+      return { ...response, payload: null };
+    }
+    if (response.payload === null || response.payload === undefined) {
+      throw new ApiSchemaError(`${path}.payload`, 'payload on a successful response', String(response.payload));
+    }
+    return { ...response, payload: payloadSchema(response.payload, `${path}.payload`) };
+  };
+}
+
+export function list<T>(recordSchema: Schema<T>): Schema<FreyaList<T>> {
+  return object({
+    records: array(recordSchema),
+    totalRecords: optional(number)
+  });
+}
+
+// =============== /login ===============
+
+export const loginPayloadSchema = object({
+  token: string,
+  expiresIn: optional(number)
+});
+export type LoginPayloadDto = Infer<typeof loginPayloadSchema>;
+
+export const loginResponseSchema = envelope(loginPayloadSchema);
+
+// =============== /session (BFF) ===============
+
+export const tableSessionPayloadSchema = object({
+  tableId: string,
+  expiresAt: string
+});
+export type TableSessionPayloadDto = Infer<typeof tableSessionPayloadSchema>;
+
+export const tableSessionResponseSchema = envelope(tableSessionPayloadSchema);
+
+// =============== /ProductCategory/FindMany ===============
+
+export const productCategorySchema = object({
+  uid: string,
+  name: string,
+  alias: optional(string),
+  description: optional(string),
+  displayOrder: optional(number),
+  icon: optional(string),
+  isActive: optional(boolean)
+});
+export type ProductCategoryDto = Infer<typeof productCategorySchema>;
+
+export const productCategoryListResponseSchema = envelope(list(productCategorySchema));
+
+// =============== /Product/FindMany, /Product/FindSellingProducts ===============
+
+export const locationPriceSchema = object({
+  locationUid: string,
+  locationName: optional(string),
+  unitPrice: optional(number),
+  unitPriceWithVat: optional(number),
+  price: optional(number),
+  isActive: optional(boolean)
+});
+export type LocationPriceDto = Infer<typeof locationPriceSchema>;
+
+// Toppings and other options are products themselves: `productUid` is what the
+// order sends. The price is per unit of the parent product, on top of its price.
+export const modifierOptionSchema = object({
+  productUid: string,
+  name: string,
+  unitPriceWithVat: optional(number),
+  isDefault: optional(boolean)
+});
+export type ModifierOptionDto = Infer<typeof modifierOptionSchema>;
+
+// addon   - extras to add, priced
+// removal - ingredients the product comes with that can be left out
+// choice  - pick between variants, e.g. a size
+export const modifierGroupSchema = object({
+  uid: string,
+  name: string,
+  kind: optional(oneOf('addon', 'removal', 'choice')),
+  minSelected: optional(number),
+  maxSelected: optional(number),
+  options: array(modifierOptionSchema)
+});
+export type ModifierGroupDto = Infer<typeof modifierGroupSchema>;
+
+export const productSchema = object({
+  uid: string,
+  name: string,
+  id: optional(number),
+  alias: optional(string),
+  description: optional(string),
+  productDescription: optional(string),
+  productCategoryUid: optional(string),
+  imageUid: optional(string),
+  // A base64 data URL, or an image uid in older records
+  image: optional(string),
+  imageUrl: optional(string),
+  unitPriceWithVat: optional(number),
+  // In percent, e.g. 11; options are taxed at the rate of their product
+  vatRate: optional(number),
+  locationPrices: optional(array(locationPriceSchema)),
+  modifierGroups: optional(array(modifierGroupSchema)),
+  salesCount: optional(number),
+  popularity: optional(number),
+  // Availability, as far as the location reports it
+  isAvailable: optional(boolean),
+  available: optional(boolean),
+  inStock: optional(boolean),
+  status: optional(string),
+  stock: optional(number),
+  quantity: optional(number),
+  isActive: optional(boolean),
+  isDisabled: optional(boolean)
+});
+export type ProductDto = Infer<typeof productSchema>;
+
+export const productListResponseSchema = envelope(list(productSchema));
+
+// =============== /ClientOrder/Insert ===============
+
+export const clientOrderSchema = object({
+  uid: string,
+  id: optional(number),
+  orderNumber: optional(string),
+  number: optional(string),
+  status: optional(string),
+  statusName: optional(string),
+  estimatedTime: optional(number),
+  totalAmount: optional(number),
+  createdAt: optional(string),
+  addedAt: optional(string),
+  queuePosition: optional(number)
+});
+export type ClientOrderDto = Infer<typeof clientOrderSchema>;
+
+export const clientOrderInsertResponseSchema = envelope(clientOrderSchema);
+
+// An added topping or chosen variant of an order item, priced per unit of the item.
+// Left-out ingredients are not sent as toppings; they go in the item description.
+export interface ClientOrderToppingDto {
+  productUid: string;
+  productName: string;
+  parentProductUid: string;
+  quantity: number;
+  unitPriceWithVat: number;
+}
+
+// Request body for /ClientOrder/Insert. Nested client records are passed through
+// as the API expects them; the fields the app computes are spelled out.
+export interface ClientOrderItemDto {
+  uid: string | null;
+  description: string | null;
+  parentProductUid: string | null;
+  productName: string;
+  productUid: string;
+  // In percent
+  vatRate: number;
+  units: number;
+  quantity: number;
+  finalQuantity: number;
+  unitPriceWithVat: number;
+  discountValue: number;
+  discountPercent: number;
+  discountType: number;
+  addedAt: string;
+  toppings: ClientOrderToppingDto[];
+  collectibleUnits: number;
+  isRetuRo: boolean;
+}
+
+export interface ClientOrderInsertRequestDto {
+  uid: string | null;
+  startDate: string;
+  deliveryDate: string;
+  deliveryStartDate: string;
+  deliveryStopDate: string | null;
+  description: string | null;
+  isVoid: boolean;
+  discountPercent: number;
+  client: {
+    uid: string;
+    deliveryAddress: { [field: string]: unknown };
+  };
+  billingClientUid: string;
+  billingClient: { [field: string]: unknown };
+  items: ClientOrderItemDto[];
+  payments: unknown[];
+  email: string;
+  locationUid: string;
+  clientOrderSourceUid: string | null;
+  deliveryTax: number;
+  deliveryHours: number;
+  collectibleUnits: number;
+  isRetuRo: boolean;
+}
@@ -0,0 +1,58 @@
+import { ApiSchemaError, array, number, object, oneOf, optional, parse, string } from './schema';
+import { productListResponseSchema } from './freya-dto';
+
+describe('schema', () => {
+  const item = object({
+    uid: string,
+    price: optional(number)
+  });
+
+  it('returns the value as received, extra fields included', () => {
+    const value = { uid: 'a1', price: 12.5, extra: true };
+    expect(parse(item, value, 'test')).toBe(value);
+  });
+
+  it('accepts missing and null optional fields', () => {
+    expect(() => parse(array(item), [{ uid: 'a' }, { uid: 'b', price: null }], 'test')).not.toThrow();
+  });
+
+  it('reports the offending path', () => {
+    try {
+      parse(array(item), [{ uid: 'a' }, { uid: 'b', price: '12' }], 'test');
+      fail('expected a schema error');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(ApiSchemaError));
+      const schemaError = error as ApiSchemaError;
+      expect(schemaError.path).toBe('$[1].price');
+      expect(schemaError.expected).toBe('number');
+      expect(schemaError.received).toBe('string');
+      expect(schemaError.endpoint).toBe('test');
+    }
+  });
+
+  it('accepts only the listed values', () => {
+    const kind = oneOf('addon', 'choice');
+    expect(parse(kind, 'choice', 'test')).toBe('choice');
+    expect(() => parse(kind, 'extra', 'test'))
+      .toThrowMatching(error => (error as ApiSchemaError).expected === "'addon' | 'choice'");
+  });
+
+  describe('Freya envelope', () => {
+    it('validates the records of a successful list response', () => {
+      const response = { isSuccess: true, payload: { records: [{ uid: 'p1', name: 'Burger' }, { name: 'No uid' }] } };
+      expect(() => parse(productListResponseSchema, response, 'Product/FindMany'))
+        .toThrowMatching(error => (error as ApiSchemaError).path === '$.payload.records[1].uid');
+    });
+
+    it('does not require a payload on a refused call', () => {
+      const response = parse(productListResponseSchema, { isSuccess: false, message: 'Denied', payload: null }, 'Product/FindMany');
+      expect(response.payload).toBeNull();
+      expect(response.message).toBe('Denied');
+    });
+
+    it('requires a payload on a successful call', () => {
+      expect(() => parse(productListResponseSchema, { isSuccess: true }, 'Product/FindMany'))
+        .toThrowMatching(error => (error as ApiSchemaError).path === '$.payload');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+// Minimal runtime schema validator for API responses. A schema checks an unknown
+// value and returns it typed, or throws ApiSchemaError naming the offending path.
+// Objects are checked field by field but returned as received, so extra fields survive.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ApiSchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: string,
+    public readonly endpoint?: string
+  ) {
+    super(`${endpoint ? endpoint + ': ' : ''}${path} - expected ${expected}, got ${received}`);
+    this.name = 'ApiSchemaError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new ApiSchemaError(path, expected, describe(value));
+}
+
+export const string: Schema<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+export const number: Schema<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value);
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+// One of a fixed set of string values, e.g. an enum the API sends as text
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return (value, path) =>
+    values.includes(value as T) ? value as T : fail(path, values.map(v => `'${v}'`).join(' | '), value);
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => value === null ? null : schema(value, path);
+}
+
+// Accepts a missing field (undefined) as well as null
+export function optional<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return (value, path) => value === undefined || value === null ? value as null | undefined : schema(value, path);
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) fail(path, 'array', value);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+type Shape = { [key: string]: Schema<unknown> };
+
+// Optional fields become optional properties of the inferred type
+type ShapeType<S extends Shape> =
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> };
+
+export function object<S extends Shape>(shape: S): Schema<ShapeType<S>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, 'object', value);
+    }
+    const record = value as { [key: string]: unknown };
+    for (const key of Object.keys(shape)) {
+      shape[key](record[key], `${path}.${key}`);
+    }
+    return record as ShapeType<S>;
+  };
+}
+
+/**
+ * Validates a whole response body. `endpoint` is added to the error so the log
+ * says which call broke, not just where in the body.
+ */
+export function parse<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+  try {
+    return schema(value, '$');
+  } catch (error) {
+    if (error instanceof ApiSchemaError) {
+      throw new ApiSchemaError(error.path, error.expected, error.received, endpoint);
+    }
+    throw error;
+  }
+}
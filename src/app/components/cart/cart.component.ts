@@ -1,8 +1,18 @@
 import { Component, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
-import { Subscription } from 'rxjs';
+import { Subscription, combineLatest } from 'rxjs';
 import { HesburgerApiService, CartItem } from '../../services/api.service';
+import { isPriced } from '../../services/price-resolver';
+import { GroupCartService } from '../../services/group-cart.service';
+import { NO_FEES, PriceBreakdown, priceOrder } from '../../services/pricing';
+import { PricingService } from '../../services/pricing.service';
+import { PromotionService } from '../../services/promotion.service';
+import { LoyaltyService } from '../../services/loyalty.service';
+import { InactivePromotion } from '../../services/discounts';
+import { describeModifiers, selectionOf, unitPriceOf } from '../../services/product-modifiers';
+import { Money, formatMoney, multiply, toMajor } from '../../services/money';
+import { ITEM_INSTRUCTIONS_MAX_LENGTH, QUICK_NOTES, hasQuickNote, normalizeInstructions, toggleQuickNote } from '../../services/order-notes';
 
 @Component({
   selector: 'app-cart',
@@ -14,24 +24,24 @@ import { HesburgerApiService, CartItem } from '../../services/api.service';
 export class CartComponent implements OnInit, OnDestroy {
   tableId: string = '';
   cart: CartItem[] = [];
-  deliveryFee: number = 0;
-  serviceFee: number = 2.50;
-  taxRate: number = 0.1; // 10% tax
+  // Order summary, priced again on every cart change
+  pricing: PriceBreakdown = priceOrder([], NO_FEES);
+  // Entered promo codes that take nothing off the cart as it is
+  inactivePromotions: InactivePromotion[] = [];
+  // What came of the last code entered, shown under the promo input
+  promoMessage: { text: string; isError: boolean } | null = null;
+  // Shared cart: what happened at the table, shown until dismissed
+  tableNotice: string | null = null;
+  // Why the cart cannot go to payment, shown by the checkout button
+  checkoutMessage = '';
   
   private subscriptions: Subscription[] = [];
   
-  // Order summary calculations
-  get subtotal(): number {
-    return this.cart.reduce((total, item) => total + (item.price * item.quantity), 0);
-  }
-  
-  get taxAmount(): number {
-    return this.subtotal * this.taxRate;
-  }
-  
-  get finalTotal(): number {
-    return this.subtotal + this.deliveryFee + this.serviceFee + this.taxAmount;
-  }
+  // Instructions editor: the line being edited and the text so far
+  editingLineId: string | null = null;
+  instructionsDraft = '';
+  readonly instructionsMaxLength = ITEM_INSTRUCTIONS_MAX_LENGTH;
+  readonly quickNotes = QUICK_NOTES;
   
   get totalItems(): number {
     return this.cart.reduce((count, item) => count + item.quantity, 0);
@@ -43,7 +53,7 @@ export class CartComponent implements OnInit, OnDestroy {
   }
 
   // Get cart data directly from service
-  get cartTotal(): number {
+  get cartTotal(): Money {
     return this.apiService.getCartTotal();
   }
 
@@ -55,6 +65,10 @@ export class CartComponent implements OnInit, OnDestroy {
     private route: ActivatedRoute,
     private router: Router,
     private apiService: HesburgerApiService,
+    private groupCart: GroupCartService,
+    private pricingService: PricingService,
+    private promotions: PromotionService,
+    private loyalty: LoyaltyService,
     private cdr: ChangeDetectorRef
   ) {}
 
@@ -64,6 +78,8 @@ export class CartComponent implements OnInit, OnDestroy {
     // Get table ID from route
     this.route.params.subscribe(params => {
       this.tableId = params['tableId'];
+      this.apiService.setTableId(this.tableId);
+      this.groupCart.join(this.tableId);
       console.log('🏷️ Cart for table:', this.tableId);
     });
 
@@ -82,17 +98,25 @@ export class CartComponent implements OnInit, OnDestroy {
   private initializeCart(): void {
     console.log('🛒 Initializing cart subscription in CartComponent...');
     
-    const cartSub = this.apiService.cart$.subscribe(cart => {
+    const cartSub = combineLatest([this.apiService.cart$, this.promotions.codes$, this.loyalty.changes$]).subscribe(([cart]) => {
       console.log('🛒 Cart updated in CartComponent:', cart.length, 'items');
       console.log('🛒 Cart items:', cart.map(item => `${item.name} x${item.quantity}`));
       
       this.cart = [...cart]; // Create new array reference
+      this.pricing = this.pricingService.price(this.cart);
+      this.inactivePromotions = this.promotions.evaluate(this.cart).inactive;
+      this.checkoutMessage = '';
       this.cdr.detectChanges(); // Force change detection
       
       console.log('✅ CartComponent cart state updated');
     });
     
     this.subscriptions.push(cartSub);
+    
+    const orderSub = this.groupCart.orderPlaced$.subscribe(notice => {
+      this.tableNotice = `${notice.by ?? 'Someone at your table'} placed the order for the table (${notice.orderNumber}).`;
+    });
+    this.subscriptions.push(orderSub);
   }
 
   // Debug cart state
@@ -101,40 +125,25 @@ export class CartComponent implements OnInit, OnDestroy {
     console.log('- Component cart items:', this.cart.length);
     console.log('- Service cart items:', this.apiService.getCartItemCount());
     console.log('- Service cart total:', this.apiService.getCartTotal());
-    console.log('- localStorage key used by service: hesburger_cart');
-    
-    // Check localStorage directly
-    const storedCart = localStorage.getItem('hesburger_cart');
-    if (storedCart) {
-      try {
-        const parsed = JSON.parse(storedCart);
-        console.log('- localStorage cart items:', parsed.length);
-        console.log('- localStorage cart contents:', parsed.map((item: any) => `${item.name} x${item.quantity}`));
-      } catch (e) {
-        console.error('- Error parsing localStorage cart:', e);
-      }
-    } else {
-      console.log('- No cart data in localStorage!');
-    }
-    
+    console.log('- Cart contents:', this.cart.map(item => `${item.name} x${item.quantity}`));
     console.log('===============================');
   }
 
   // Update item quantity - use service methods
-  updateQuantity(productId: number, quantity: number): void {
-    console.log('📊 Updating quantity for product:', productId, 'to:', quantity);
+  updateQuantity(lineId: string, quantity: number): void {
+    console.log('📊 Updating quantity for line:', lineId, 'to:', quantity);
     
     if (quantity <= 0) {
-      this.removeFromCart(productId);
+      this.removeFromCart(lineId);
     } else {
-      this.apiService.updateCartQuantity(productId, quantity);
+      this.apiService.updateCartQuantity(lineId, quantity);
     }
   }
 
   // Remove item from cart - use service method
-  removeFromCart(productId: number): void {
-    console.log('🗑️ Removing product from cart:', productId);
-    this.apiService.removeFromCart(productId);
+  removeFromCart(lineId: string): void {
+    console.log('🗑️ Removing line from cart:', lineId);
+    this.apiService.removeFromCart(lineId);
     
     // Visual feedback
     if ('vibrate' in navigator) {
@@ -151,16 +160,42 @@ export class CartComponent implements OnInit, OnDestroy {
   }
 
   // Add special instructions to item
-  addInstructions(productId: number, instructions: string): void {
-    const item = this.cart.find(item => item.id === productId);
-    if (item) {
-      item.specialInstructions = instructions;
-      // Since we're modifying the cart, we need to update the service
-      this.apiService.updateCartQuantity(productId, item.quantity);
-      console.log('📝 Added instructions to item:', productId, instructions);
+  // Instructions are part of what identifies a line, so the service re-keys (or merges) it
+  addInstructions(lineId: string, instructions: string): void {
+    const item = this.cart.find(item => item.lineId === lineId);
+    if (item && (item.specialInstructions || '') !== normalizeInstructions(instructions)) {
+      this.apiService.setLineInstructions(lineId, instructions);
+      console.log('📝 Added instructions to item:', lineId, instructions);
     }
   }
 
+  editInstructions(item: CartItem): void {
+    this.editingLineId = item.lineId;
+    this.instructionsDraft = item.specialInstructions || '';
+  }
+
+  cancelInstructions(): void {
+    this.editingLineId = null;
+    this.instructionsDraft = '';
+  }
+
+  saveInstructions(item: CartItem): void {
+    this.addInstructions(item.lineId, this.instructionsDraft);
+    this.cancelInstructions();
+  }
+
+  onInstructionsInput(value: string): void {
+    this.instructionsDraft = value.slice(0, this.instructionsMaxLength);
+  }
+
+  toggleQuickNote(note: string): void {
+    this.instructionsDraft = toggleQuickNote(this.instructionsDraft, note, this.instructionsMaxLength);
+  }
+
+  hasQuickNote(note: string): boolean {
+    return hasQuickNote(this.instructionsDraft, note);
+  }
+
   // Navigation methods
   goBackToMenu(): void {
     console.log('⬅️ Going back to menu for table:', this.tableId);
@@ -180,60 +215,27 @@ export class CartComponent implements OnInit, OnDestroy {
     console.log('- Router available:', !!this.router);
     console.log('- Current URL:', window.location.href);
     
-    // 2. Check localStorage
-    console.log('💾 LOCALSTORAGE CHECK:');
-    const storedCart = localStorage.getItem('hesburger_cart');
-    if (storedCart) {
-      try {
-        const parsed = JSON.parse(storedCart);
-        console.log('- localStorage has cart:', parsed.length, 'items');
-        console.log('- localStorage items:', parsed.map((item: any) => `${item.name} x${item.quantity}`));
-        
-        // Force sync if component cart is empty but localStorage has items
-        if (this.cart.length === 0 && parsed.length > 0) {
-          console.log('🔄 FORCE SYNCING from localStorage...');
-          this.cart = parsed;
-          this.cdr.detectChanges();
-          console.log('✅ Cart synced, new length:', this.cart.length);
-        }
-      } catch (e) {
-        console.error('❌ Error parsing localStorage cart:', e);
-      }
-    } else {
-      console.log('- No localStorage cart found');
-    }
-    
-    // 3. Final cart check
-    console.log('🔍 FINAL CART CHECK:');
-    console.log('- Component cart after sync:', this.cart.length);
-    console.log('- hasItems():', this.hasItems());
     console.log('- Cart items:', this.cart.map(item => `${item.name} x${item.quantity}`));
     
-    // 4. Cart validation with multiple fallbacks
-    const componentHasItems = this.cart.length > 0;
-    const serviceHasItems = this.apiService.getCartItemCount() > 0;
-    const storageHasItems = storedCart ? JSON.parse(storedCart).length > 0 : false;
-    
-    console.log('✅ VALIDATION RESULTS:');
-    console.log('- Component has items:', componentHasItems);
-    console.log('- Service has items:', serviceHasItems);
-    console.log('- Storage has items:', storageHasItems);
-    
-    // 5. Try all possible ways to confirm cart has items
-    const cartHasItems = componentHasItems || serviceHasItems || storageHasItems;
-    
-    console.log('🎯 FINAL DECISION: Cart has items =', cartHasItems);
-    
-    if (!cartHasItems) {
-      console.log('❌ CHECKOUT BLOCKED: No items found anywhere');
+    // 2. The service's cart is the only one; other tabs are merged into it
+    if (!this.hasItems()) {
+      console.log('❌ CHECKOUT BLOCKED: Cart is empty');
       alert('Your cart is empty! Please add some items first.');
       return;
     }
     
-    // 6. Attempt navigation with extensive logging
+    // Unpriced products can never be ordered, whatever put them in the cart
+    const unpricedItems = this.cart.filter(item => !isPriced(item));
+    if (unpricedItems.length > 0) {
+      console.log('❌ CHECKOUT BLOCKED: Unpriced items in cart:', unpricedItems.map(item => item.name));
+      this.checkoutMessage = `These items have no price and cannot be ordered: ${unpricedItems.map(item => item.name).join(', ')}. Please remove them from your cart.`;
+      return;
+    }
+    
+    // 3. Attempt navigation with extensive logging
     console.log('🚀 ATTEMPTING NAVIGATION:');
     console.log('- Target route: /checkout/' + this.tableId);
-    console.log('- Cart total for checkout:', this.formatPrice(this.finalTotal));
+    console.log('- Cart total for checkout:', this.formatPrice(this.pricing.total));
     
     try {
       console.log('📍 Navigation starting...');
@@ -316,43 +318,77 @@ export class CartComponent implements OnInit, OnDestroy {
   }
 
   // Get quantity for display
-  getItemQuantity(productId: number): number {
-    const item = this.cart.find(item => item.id === productId);
+  getItemQuantity(lineId: string): number {
+    const item = this.cart.find(item => item.lineId === lineId);
     return item ? item.quantity : 0;
   }
 
+  // Product price plus the price of the chosen options
+  getItemUnitPrice(item: CartItem): Money {
+    return unitPriceOf(item.price, item.toppings);
+  }
+
   // Get item subtotal
-  getItemSubtotal(item: CartItem): number {
-    return item.price * item.quantity;
+  getItemSubtotal(item: CartItem): Money {
+    return multiply(unitPriceOf(item.price, item.toppings), item.quantity);
+  }
+
+  get isSharedCart(): boolean {
+    return this.groupCart.isEnabled;
+  }
+
+  // Everyone with lines in the shared cart, in the order they added them
+  get diners(): string[] {
+    return this.cart
+      .map(item => item.diner)
+      .filter((diner, index, all): diner is string => !!diner && all.indexOf(diner) === index);
+  }
+
+  isOwnLine(item: CartItem): boolean {
+    return item.diner === (this.apiService.getDiner() ?? undefined);
+  }
+
+  hasOptions(item: CartItem): boolean {
+    return (item.toppings?.length ?? 0) > 0;
+  }
+
+  getOptionsText(item: CartItem): string {
+    return describeModifiers(item.toppings);
   }
 
   // Format price for display
-  formatPrice(price: number): string {
-    return new Intl.NumberFormat('ro-RO', {
-      style: 'currency',
-      currency: 'RON',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price);
+  formatPrice(price: Money): string {
+    return formatMoney(price);
   }
 
   // Promotional features
   applyPromoCode(code: string): void {
-    // Mock promo code logic
-    const promoCodes: any = {
-      'SAVE10': { discount: 0.1, type: 'percentage', description: '10% off' },
-      'FREE5': { discount: 5, type: 'fixed', description: '5 RON off' },
-      'STUDENT': { discount: 0.15, type: 'percentage', description: '15% student discount' }
-    };
-    
-    if (promoCodes[code.toUpperCase()]) {
-      const promo = promoCodes[code.toUpperCase()];
-      console.log('🎟️ Promo applied:', promo.description);
-      alert(`Promo code applied: ${promo.description}`);
-      // TODO: Implement actual discount logic in service
-    } else {
-      alert('Invalid promo code');
+    if (!code.trim()) return;
+
+    const problem = this.promotions.apply(code, this.cart);
+    if (problem) {
+      this.promoMessage = { text: problem, isError: true };
+      return;
     }
+
+    const applied = this.pricing.discounts.find(discount => discount.code === code.trim().toUpperCase());
+    this.promoMessage = {
+      text: applied ? `Promo code applied: ${applied.description} (-${this.formatPrice(applied.amount)})` : 'Promo code applied',
+      isError: false
+    };
+  }
+
+  removePromoCode(code: string): void {
+    this.promoMessage = null;
+    this.promotions.remove(code);
+  }
+
+  get promoCodes(): string[] {
+    return this.promotions.codes;
+  }
+
+  inactiveReason(code: string): string | null {
+    return this.inactivePromotions.find(entry => entry.code === code)?.reason ?? null;
   }
 
   // Quick actions
@@ -371,7 +407,7 @@ export class CartComponent implements OnInit, OnDestroy {
       tableId: this.tableId,
       items: this.cart,
       savedAt: new Date(),
-      total: this.finalTotal
+      total: toMajor(this.pricing.total)
     };
     
     localStorage.setItem('hesburger_saved_order', JSON.stringify(orderData));
@@ -391,9 +427,12 @@ export class CartComponent implements OnInit, OnDestroy {
           // Clear current cart first
           this.apiService.clearCart();
           
-          // Add saved items using service
-          orderData.items.forEach((item: CartItem) => {
-            this.apiService.addToCart(item, item.quantity);
+          // Add saved items using service (orders saved by older versions need re-keying)
+          this.apiService.migrateCartItems(orderData.items).forEach((item: CartItem) => {
+            this.apiService.addToCart(item, item.quantity, {
+              selection: selectionOf(item.toppings),
+              specialInstructions: item.specialInstructions
+            });
           });
         }
       } catch (e) {
@@ -405,12 +444,6 @@ export class CartComponent implements OnInit, OnDestroy {
     }
   }
 
-  // Force refresh cart from service
-  refreshCart(): void {
-    console.log('🔄 Force refreshing cart from service...');
-    this.debugCartState();
-  }
-
   // Test checkout readiness
   testCheckoutReadiness(): void {
     console.log('🧪 === CHECKOUT READINESS TEST ===');
@@ -418,70 +451,19 @@ export class CartComponent implements OnInit, OnDestroy {
     console.log('- Service cart count:', this.apiService.getCartItemCount());
     console.log('- Service cart total:', this.apiService.getCartTotal());
     console.log('- hasItems():', this.hasItems());
-    console.log('- finalTotal:', this.finalTotal);
-    console.log('- Cart contents:', this.cart.map(item => `${item.name} x${item.quantity} = ${this.formatPrice(item.price * item.quantity)}`));
-    
-    // Check localStorage
-    const storedCart = localStorage.getItem('hesburger_cart');
-    if (storedCart) {
-      try {
-        const parsed = JSON.parse(storedCart);
-        console.log('- localStorage cart items:', parsed.length);
-      } catch (e) {
-        console.error('- Error parsing localStorage:', e);
-      }
-    }
-    
-    if (this.hasItems()) {
-      console.log('✅ Ready for checkout!');
-    } else {
-      console.log('❌ Not ready for checkout - cart appears empty');
-      
-      if (storedCart) {
-        console.log('🔄 Found localStorage cart, attempting sync...');
-        this.syncCartFromStorage();
-      }
-    }
+    console.log('- total:', this.formatPrice(this.pricing.total));
+    console.log('- Cart contents:', this.cart.map(item => `${item.name} x${item.quantity} = ${this.formatPrice(this.getItemSubtotal(item))}`));
+    console.log(this.hasItems() ? '✅ Ready for checkout!' : '❌ Not ready for checkout - cart is empty');
     console.log('===================================');
   }
 
-  // Manual cart sync (for debugging)
-  syncCartFromStorage(): void {
-    console.log('🔄 Manually syncing cart from localStorage...');
-    
-    const storedCart = localStorage.getItem('hesburger_cart');
-    if (storedCart) {
-      try {
-        const parsed = JSON.parse(storedCart);
-        this.cart = parsed;
-        this.cdr.detectChanges();
-        console.log('✅ Cart synced from localStorage:', this.cart.length, 'items');
-      } catch (e) {
-        console.error('❌ Error syncing cart:', e);
-      }
-    } else {
-      console.log('⚠️ No cart data found in localStorage');
-    }
-  }
-
   // Track by function for ngFor performance
-  trackByItemId(index: number, item: CartItem): number {
-    return item.id;
+  trackByLineId(index: number, item: CartItem): string {
+    return item.lineId;
   }
 
-  // Check if cart has items - use both component and service state
   hasItems(): boolean {
-    const componentHasItems = this.cart.length > 0;
-    const serviceHasItems = this.apiService.getCartItemCount() > 0;
-    
-    // If there's a mismatch, try to sync from service
-    if (serviceHasItems && !componentHasItems) {
-      console.log('⚠️ Cart state mismatch detected, syncing from service...');
-      this.syncCartFromStorage();
-      return this.cart.length > 0; // Check again after sync
-    }
-    
-    return componentHasItems || serviceHasItems;
+    return this.cart.length > 0;
   }
 
   // Development mode check
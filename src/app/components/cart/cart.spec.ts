@@ -1,23 +1,41 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, provideRouter } from '@angular/router';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { AppConfig, TenantConfig, provideAppConfig } from '../../config/app-config';
 
-import { Cart } from './cart.component';
+import { CartComponent } from './cart.component';
 
-describe('Cart', () => {
-  let component: Cart;
-  let fixture: ComponentFixture<Cart>;
+describe('CartComponent', () => {
+  const config: AppConfig = {
+    environment: { name: 'test', apiBaseUrl: '/api', apiKey: 'key' },
+    tenant: { id: 'test', brand: 'Test', locations: [{ uid: 'city', name: 'City', tables: ['T*'] }] } as unknown as TenantConfig
+  };
+
+  let component: CartComponent;
+  let fixture: ComponentFixture<CartComponent>;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Cart]
+      imports: [CartComponent],
+      providers: [
+        provideAppConfig(config),
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: ActivatedRoute, useValue: { params: of({ tableId: 'T1' }) } }
+      ]
     })
     .compileComponents();
 
-    fixture = TestBed.createComponent(Cart);
+    fixture = TestBed.createComponent(CartComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
 
   it('should create', () => {
     expect(component).toBeTruthy();
+    expect(component.tableId).toBe('T1');
   });
 });
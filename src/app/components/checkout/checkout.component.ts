@@ -1,8 +1,39 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { ActivatedRoute, Router } from '@angular/router';
-import { HesburgerApiService, CartItem } from '../../services/api.service'; // Import the service
+import { Subscription, combineLatest } from 'rxjs';
+import { HesburgerApiService, CartItem, Order, OrderError, OrderResponse, customerInfoOf } from '../../services/api.service'; // Import the service
+import { describeModifiers, unitPriceOf } from '../../services/product-modifiers';
+import { Money, add, formatMoney, isPositive, multiply, subtract, sumMoney } from '../../services/money';
+import { ORDER_REQUESTS_MAX_LENGTH } from '../../services/order-notes';
+import { OrderOutboxService, OutboxEntry } from '../../services/order-outbox.service';
+import { OrderFollowUpService } from '../../services/order-follow-up.service';
+import { GroupCartService } from '../../services/group-cart.service';
+import { NO_FEES, PriceBreakdown, priceOrder, vatRateToPercent } from '../../services/pricing';
+import { PricingService } from '../../services/pricing.service';
+import { PromotionService } from '../../services/promotion.service';
+import { LoyaltyService } from '../../services/loyalty.service';
+import { InsufficientPointsError } from '../../services/loyalty-ledger';
+import { LOYALTY_DISCOUNT_CODE, OrderLoyalty, pointsEarned } from '../../services/loyalty';
+import {
+  BillShare,
+  BillTotals,
+  CustomAmount,
+  SplitMode,
+  carryOverStatuses,
+  coverRemaining,
+  customAmountsProblem,
+  isBillSettled,
+  outstandingAmount,
+  setShareStatus,
+  splitByAmounts,
+  splitByItems,
+  splitEvenly
+} from '../../services/bill-split';
+
+// Lifecycle of the order submission as shown to the customer
+export type OrderSubmissionState = 'idle' | 'submitting' | 'queued' | 'unconfirmed' | 'accepted' | 'rejected' | 'retry';
 
 @Component({
   selector: 'app-checkout',
@@ -11,7 +42,7 @@ import { HesburgerApiService, CartItem } from '../../services/api.service'; // I
   templateUrl: './checkout.component.html',
   styleUrls: ['./checkout.component.css']
 })
-export class CheckoutComponent implements OnInit {
+export class CheckoutComponent implements OnInit, OnDestroy {
   tableId: string = '';
   cart: CartItem[] = []; // Use CartItem type
   customerForm: FormGroup;
@@ -19,35 +50,47 @@ export class CheckoutComponent implements OnInit {
   isProcessingPayment: boolean = false;
   showOrderConfirmation: boolean = false;
   orderNumber: string = '';
+  orderState: OrderSubmissionState = 'idle';
+  orderStatus: string = '';
+  orderMessage: string = '';
+  // Shared cart: what happened at the table, shown until dismissed
+  tableNotice: string | null = null;
+  serverEstimatedTime: number | null = null;
+
+  // Reused across retries of the same cart so the API can drop duplicates
+  private idempotencyKey: string | null = null;
+  // Ledger entry holding the points the order redeems; kept with the key until the order is refused
+  private loyaltyHoldId: string | null = null;
+  private outboxSubscription: Subscription | null = null;
+  private cartSubscription: Subscription | null = null;
+  private groupOrderSubscription: Subscription | null = null;
+
+  // Bill split; null while one person pays for everything
+  splitMode: SplitMode | null = null;
+  splitHeadcount = 2;
+  customAmounts: CustomAmount[] = [];
+  billShares: BillShare[] = [];
+  // Why the order waits on the split, shown by the submit button
+  splitMessage = '';
+  
+  // Fidelity card number as typed
+  loyaltyCardInput = '';
+  isIdentifyingCard = false;
+  // Why the card could not be used, shown under it
+  loyaltyMessage = '';
 cartItemCount: any;
 serviceCartItemCount: any;
   
-  // Order calculations
-  get subtotal(): number {
-    return this.cart.reduce((total, item) => total + (item.price * item.quantity), 0);
-  }
-  
-  get serviceFee(): number {
-    return 2.50;
-  }
-  
-  get taxAmount(): number {
-    return this.subtotal * 0.1;
-  }
-  
-  get finalTotal(): number {
-    return this.subtotal + this.serviceFee + this.taxAmount;
-  }
-  
-  get totalItems(): number {
-    return this.cart.reduce((count, item) => count + item.quantity, 0);
-  }
+  // Order summary, priced again on every cart change
+  pricing: PriceBreakdown = priceOrder([], NO_FEES);
   
   get estimatedTime(): number {
     if (this.cart.length === 0) return 0;
     return Math.max(...this.cart.map(item => item.estimatedTime || 5));
   }
 
+  readonly specialRequestsMaxLength = ORDER_REQUESTS_MAX_LENGTH;
+
   // Payment methods with Romanian context
   paymentMethods = [
     {
@@ -74,7 +117,13 @@ serviceCartItemCount: any;
     private route: ActivatedRoute,
     private router: Router,
     private formBuilder: FormBuilder,
-    private apiService: HesburgerApiService // Inject the service
+    private apiService: HesburgerApiService, // Inject the service
+    private orderOutbox: OrderOutboxService,
+    private orderFollowUp: OrderFollowUpService,
+    private groupCart: GroupCartService,
+    private pricingService: PricingService,
+    private promotions: PromotionService,
+    public loyalty: LoyaltyService
   ) {
     // Initialize customer form
     this.customerForm = this.formBuilder.group({
@@ -82,7 +131,7 @@ serviceCartItemCount: any;
       lastName: ['', [Validators.required, Validators.minLength(2)]],
       email: ['', [Validators.required, Validators.email]],
       phone: ['', [Validators.required, Validators.pattern(/^\+?[\d\s\-\(\)]+$/)]],
-      specialRequests: [''],
+      specialRequests: ['', Validators.maxLength(ORDER_REQUESTS_MAX_LENGTH)],
       // Card payment fields
       cardNumber: [''],
       expiryDate: [''],
@@ -99,15 +148,31 @@ serviceCartItemCount: any;
     // Get table ID from route
     this.route.params.subscribe(params => {
       this.tableId = params['tableId'];
+      this.apiService.setTableId(this.tableId);
+      this.groupCart.join(this.tableId);
       console.log('🏷️ Checkout for table:', this.tableId);
     });
 
-    // Load cart - FIXED: Use correct localStorage key
-    this.loadCart();
-    
-    // Debug cart loading
+    // The service's cart for the table, kept in step with other tabs
+    this.cartSubscription = combineLatest([this.apiService.cart$, this.promotions.codes$, this.loyalty.changes$]).subscribe(([cart]) => {
+      this.cart = cart;
+      this.pricing = this.pricingService.price(cart);
+      this.recalculateSplit();
+    });
+    this.groupOrderSubscription = this.groupCart.orderPlaced$.subscribe(notice => {
+      if (!this.showOrderConfirmation) {
+        this.tableNotice = `Comanda mesei a fost trimisă de ${notice.by ?? 'altcineva de la masă'} (${notice.orderNumber}).`;
+      }
+    });
     this.debugCartLoad();
     
+    // An order that went out without a clear answer is settled here before anything else
+    const unknownOrder = this.orderOutbox.unknownOrderFor(this.tableId);
+    if (unknownOrder) {
+      this.handleOutboxEntry(unknownOrder);
+      return;
+    }
+    
     // If cart is empty, redirect to menu
     if (this.cart.length === 0) {
       console.log('❌ Cart is empty, redirecting to menu');
@@ -116,30 +181,10 @@ serviceCartItemCount: any;
     }
   }
 
-  // FIXED: Load cart from correct localStorage key
-  private loadCart(): void {
-    console.log('📥 Loading cart for checkout...');
-    
-    // Try to get cart from service first
-    const serviceCartCount = this.apiService.getCartItemCount();
-    console.log('🔧 Service cart count:', serviceCartCount);
-    
-    // Use the CORRECT localStorage key that matches the service
-    const savedCart = localStorage.getItem('hesburger_cart'); // FIXED: was 'restaurant_cart'
-    
-    if (savedCart) {
-      try {
-        this.cart = JSON.parse(savedCart);
-        console.log('✅ Cart loaded from localStorage:', this.cart.length, 'items');
-        console.log('📦 Cart items:', this.cart.map(item => `${item.name} x${item.quantity}`));
-      } catch (e) {
-        console.error('❌ Error parsing cart from localStorage:', e);
-        this.cart = [];
-      }
-    } else {
-      console.log('⚠️ No cart found in localStorage');
-      this.cart = [];
-    }
+  ngOnDestroy(): void {
+    this.outboxSubscription?.unsubscribe();
+    this.cartSubscription?.unsubscribe();
+    this.groupOrderSubscription?.unsubscribe();
   }
 
   // Debug method to check cart loading
@@ -148,41 +193,149 @@ serviceCartItemCount: any;
     console.log('- Component cart length:', this.cart.length);
     console.log('- Service cart count:', this.apiService.getCartItemCount());
     console.log('- Service cart total:', this.apiService.getCartTotal());
-    
-    // Check both possible localStorage keys
-    const hesburgerCart = localStorage.getItem('hesburger_cart');
-    const restaurantCart = localStorage.getItem('restaurant_cart');
-    
-    console.log('- hesburger_cart in localStorage:', hesburgerCart ? 'EXISTS' : 'NOT FOUND');
-    console.log('- restaurant_cart in localStorage:', restaurantCart ? 'EXISTS' : 'NOT FOUND');
-    
-    if (hesburgerCart) {
-      try {
-        const parsed = JSON.parse(hesburgerCart);
-        console.log('- hesburger_cart items:', parsed.length);
-      } catch (e) {
-        console.log('- hesburger_cart parse error:', e);
+    console.log('- Cart items:', this.cart.map(item => `${item.name} x${item.quantity}`));
+    console.log('===============================');
+  }
+
+  // Format price for display (Romanian Lei)
+  formatPrice(price: Money): string {
+    return formatMoney(price);
+  }
+
+  // VAT rate for display, e.g. 0.11 -> 11%
+  formatRate(rate: number): string {
+    return `${vatRateToPercent(rate)}%`;
+  }
+
+  // Chosen options are priced on top of the product
+  getItemSubtotal(item: CartItem): Money {
+    return multiply(unitPriceOf(item.price, item.toppings), item.quantity);
+  }
+
+  getOptionsText(item: CartItem): string {
+    return describeModifiers(item.toppings);
+  }
+
+  // =============== LOYALTY ===============
+
+  // Points that can go towards this order, whether or not they are being redeemed
+  get redeemablePoints(): number {
+    const redeemed = this.pricing.discounts.find(discount => discount.code === LOYALTY_DISCOUNT_CODE);
+    const payable = subtract(this.pricing.subtotal, this.pricing.discountTotal);
+    return this.loyalty.redeemableFor(redeemed ? add(payable, redeemed.amount) : payable);
+  }
+
+  get pointsToEarn(): number {
+    return pointsEarned(subtract(this.pricing.subtotal, this.pricing.discountTotal), this.loyalty.rules);
+  }
+
+  async identifyLoyaltyCard(): Promise<void> {
+    this.isIdentifyingCard = true;
+    this.loyaltyMessage = '';
+    try {
+      const member = await this.loyalty.identify(this.loyaltyCardInput);
+      if (!member) {
+        this.loyaltyMessage = 'Numărul cardului de fidelitate nu este valid.';
+        return;
       }
+      this.loyaltyCardInput = '';
+    } catch (error) {
+      console.error('❌ Loyalty card lookup failed:', error);
+      this.loyaltyMessage = 'Nu am putut verifica cardul de fidelitate. Încearcă din nou.';
+    } finally {
+      this.isIdentifyingCard = false;
     }
-    
-    console.log('===============================');
   }
 
-  // Force reload cart if empty
-  forceReloadCart(): void {
-    console.log('🔄 Force reloading cart...');
-    this.loadCart();
-    this.debugCartLoad();
+  // The scanner comes back here once it has read a loyalty QR code
+  scanLoyaltyCard(): void {
+    this.router.navigate(['/scanner'], { queryParams: { returnTo: `/checkout/${this.tableId}` } });
   }
 
-  // Format price for display (Romanian Lei)
-  formatPrice(price: number): string {
-    return new Intl.NumberFormat('ro-RO', {
-      style: 'currency',
-      currency: 'RON',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price);
+  forgetLoyaltyCard(): void {
+    this.loyaltyMessage = '';
+    this.loyalty.forget();
+  }
+
+  // =============== BILL SPLIT ===============
+
+  get billTotals(): BillTotals {
+    const pricing = this.pricing;
+    return { subtotal: subtract(pricing.subtotal, pricing.discountTotal), serviceFee: add(pricing.serviceFee, pricing.deliveryFee), vat: pricing.vatTotal };
+  }
+
+  // Splitting by item needs lines tagged with diners (shared table cart)
+  get canSplitByItems(): boolean {
+    return this.cart.some(item => !!item.diner);
+  }
+
+  get splitProblem(): string | null {
+    return this.splitMode === 'custom' ? customAmountsProblem(this.billTotals, this.customAmounts) : null;
+  }
+
+  get outstandingAmount(): Money {
+    return outstandingAmount(this.billShares);
+  }
+
+  selectSplitMode(mode: SplitMode | null): void {
+    this.splitMode = mode;
+    const diners = this.cart
+      .map(item => item.diner)
+      .filter((diner, index, all): diner is string => !!diner && all.indexOf(diner) === index);
+
+    if (mode === 'even') {
+      this.splitHeadcount = Math.max(diners.length, 2);
+    } else if (mode === 'custom') {
+      const labels = diners.length > 1 ? diners : ['Persoana 1', 'Persoana 2'];
+      this.customAmounts = labels.map(label => ({ label, amount: 0 }));
+    }
+    this.billShares = [];
+    this.recalculateSplit();
+  }
+
+  setSplitHeadcount(value: string): void {
+    this.splitHeadcount = Math.min(Math.max(Math.floor(Number(value)) || 1, 1), 20);
+    this.recalculateSplit();
+  }
+
+  setCustomAmount(index: number, value: string): void {
+    this.customAmounts[index] = { ...this.customAmounts[index], amount: Number(value.replace(',', '.')) || 0 };
+    this.recalculateSplit();
+  }
+
+  addCustomShare(): void {
+    this.customAmounts = [...this.customAmounts, { label: `Persoana ${this.customAmounts.length + 1}`, amount: 0 }];
+    this.recalculateSplit();
+  }
+
+  toggleSharePaid(share: BillShare): void {
+    this.billShares = setShareStatus(this.billShares, share.id, share.status === 'unpaid' ? 'paid' : 'unpaid');
+    this.splitMessage = '';
+  }
+
+  // The designated payer settles whatever the others have not paid
+  coverRestBy(share: BillShare): void {
+    this.billShares = coverRemaining(this.billShares, share.id);
+    this.splitMessage = '';
+  }
+
+  // Shares follow the cart; those that come out the same keep their payment status
+  private recalculateSplit(): void {
+    this.splitMessage = '';
+    if (!this.splitMode) {
+      this.billShares = [];
+      return;
+    }
+
+    let shares: BillShare[] = [];
+    if (this.splitMode === 'even') {
+      shares = splitEvenly(this.billTotals, Array.from({ length: this.splitHeadcount }, (_, index) => `Persoana ${index + 1}`));
+    } else if (this.splitMode === 'items') {
+      shares = splitByItems(this.billTotals, this.cart.map(item => ({ diner: item.diner, amount: this.getItemSubtotal(item) })));
+    } else if (!this.splitProblem) {
+      shares = splitByAmounts(this.billTotals, this.customAmounts);
+    }
+    this.billShares = carryOverStatuses(this.billShares, shares);
   }
 
   // Payment method selection
@@ -271,74 +424,241 @@ serviceCartItemCount: any;
       return;
     }
 
+    // A split bill is released only once every share is paid or covered
+    if (this.splitMode && !isBillSettled(this.billShares)) {
+      this.splitMessage = this.splitProblem ?? `Mai sunt de plătit ${this.formatPrice(this.outstandingAmount)}. Marchează fiecare parte ca plătită sau alege cine plătește restul.`;
+      return;
+    }
+
     this.isProcessingPayment = true;
+    this.orderState = 'submitting';
+    this.orderMessage = '';
+
+    const orderData: Order = {
+      tableId: this.tableId,
+      customerInfo: customerInfoOf(this.customerForm.value),
+      items: this.cart,
+      paymentMethod: this.selectedPaymentMethod,
+      pricing: this.pricing,
+      billShares: this.splitMode ? this.billShares : undefined,
+      loyalty: this.loyalty.forOrder(this.pricing) ?? undefined,
+      estimatedTime: this.estimatedTime,
+      orderTime: new Date()
+    };
+
+    this.idempotencyKey ??= this.orderOutbox.createIdempotencyKey();
+
+    if (orderData.loyalty) {
+      const loyalty = await this.holdLoyaltyPoints(orderData.loyalty);
+      if (!loyalty) {
+        this.isProcessingPayment = false;
+        return;
+      }
+      orderData.loyalty = loyalty;
+    }
+
+    try {
+      console.log('📤 Submitting order to Hesburger API...');
+      const entry = await this.orderOutbox.submit(orderData, this.idempotencyKey);
+      if (entry.status !== 'rejected') {
+        this.promotions.clear();
+      }
+      this.handleOutboxEntry(entry);
+    } catch (error) {
+      console.error('❌ Order submission failed:', error);
+      this.orderState = 'retry';
+      this.orderMessage = 'Nu am putut trimite comanda. Verifică conexiunea și încearcă din nou.';
+    } finally {
+      this.isProcessingPayment = false;
+    }
+  }
+
+  // Redeemed points are taken off the card before the order goes out, so they cannot be spent twice
+  private async holdLoyaltyPoints(loyalty: OrderLoyalty): Promise<OrderLoyalty | null> {
+    this.loyaltyHoldId ??= `${this.idempotencyKey}:redeemed:${Date.now().toString(36)}`;
+    try {
+      return await this.loyalty.hold(this.loyaltyHoldId, loyalty);
+    } catch (error) {
+      if (error instanceof InsufficientPointsError) {
+        // Spent meanwhile from another device; nothing was held
+        console.warn('⭐ Loyalty points no longer available:', error.message);
+        this.loyaltyHoldId = null;
+        this.loyalty.setRedeeming(false);
+        this.loyalty.identify(loyalty.card).catch(lookupError => console.warn('⚠️ Could not load the loyalty balance:', lookupError));
+        this.orderState = 'idle';
+        this.loyaltyMessage = `Cardul de fidelitate mai are doar ${error.balance} puncte. Verifică totalul și trimite comanda din nou.`;
+      } else {
+        console.error('❌ Could not hold the loyalty points:', error);
+        this.orderState = 'retry';
+        this.orderMessage = 'Nu am putut folosi punctele de fidelitate. Verifică conexiunea și încearcă din nou.';
+      }
+      return null;
+    }
+  }
+
+  private handleOutboxEntry(entry: OutboxEntry): void {
+    if (entry.status === 'queued' || entry.status === 'submitting') {
+      this.showQueuedOrder(entry);
+      return;
+    }
+
+    if (entry.status === 'unknown') {
+      this.showUnconfirmedOrder(entry);
+      return;
+    }
+
+    if (entry.response) {
+      this.handleOrderResponse(entry.order, entry.response);
+    } else if (entry.status === 'submitted') {
+      this.showArrivedOrder();
+    }
+  }
+
+  // The order went out but no answer says whether it arrived; only the restaurant can tell
+  private showUnconfirmedOrder(entry: OutboxEntry): void {
+    console.warn('❓ Order sent without a clear answer:', entry.idempotencyKey);
+    this.idempotencyKey = entry.idempotencyKey;
+    this.orderState = 'unconfirmed';
+    this.orderMessage = 'Restaurantul nu a confirmat comanda la timp, așa că nu știm dacă a primit-o. Întreabă un ospătar înainte să o trimiți din nou.';
+
+    // It may have been placed: its cart is held until we know
+    this.orderFollowUp.holdCart(entry);
+
+    // Another tab may resolve it first
+    this.outboxSubscription?.unsubscribe();
+    this.outboxSubscription = this.orderOutbox.watch(entry.idempotencyKey).subscribe(update => {
+      if (update && update.status !== 'unknown' && update.status !== 'submitting') {
+        this.outboxSubscription?.unsubscribe();
+        this.handleOutboxEntry(update);
+      }
+    });
+  }
+
+  // The restaurant does not have the order: send it again under the same key
+  async resendUnconfirmedOrder(): Promise<void> {
+    await this.resolveUnconfirmedOrder(key => this.orderOutbox.resend(key));
+  }
 
+  // The restaurant has the order, though the API never said so
+  async confirmOrderArrived(): Promise<void> {
+    await this.resolveUnconfirmedOrder(key => this.orderOutbox.confirmArrived(key));
+  }
+
+  private async resolveUnconfirmedOrder(resolve: (idempotencyKey: string) => Promise<OutboxEntry | undefined>): Promise<void> {
+    if (!this.idempotencyKey) return;
+
+    this.outboxSubscription?.unsubscribe();
+    this.isProcessingPayment = true;
     try {
-      console.log('💳 Simulating payment processing...');
-      
-      // Simulate payment processing
-      await this.simulatePaymentProcess();
-      
-      // Generate order number
-      this.orderNumber = this.generateOrderNumber();
-      console.log('📋 Generated order number:', this.orderNumber);
-      
-      // Create order data
-      const orderData = {
-        orderNumber: this.orderNumber,
-        tableId: this.tableId,
-        customerInfo: this.customerForm.value,
-        items: this.cart,
-        paymentMethod: this.selectedPaymentMethod,
-        totals: {
-          subtotal: this.subtotal,
-          serviceFee: this.serviceFee,
-          tax: this.taxAmount,
-          total: this.finalTotal
-        },
-        estimatedTime: this.estimatedTime,
-        orderTime: new Date(),
-        status: 'confirmed'
-      };
-
-      // Save order
-      this.saveOrder(orderData);
-      
-      // Clear cart using service method
-      this.apiService.clearCart();
-      this.cart = []; // Also clear local cart
-      
-      // Show confirmation
-      this.showOrderConfirmation = true;
-      console.log('✅ Order processed successfully!');
-      
+      const entry = await resolve(this.idempotencyKey);
+      if (entry) {
+        this.handleOutboxEntry(entry);
+      }
     } catch (error) {
-      console.error('❌ Payment processing failed:', error);
-      alert('Plata a eșuat. Te rugăm să încerci din nou.');
+      console.error('❌ Could not update the unconfirmed order:', error);
+      this.orderMessage = 'Nu am putut actualiza comanda. Încearcă din nou.';
     } finally {
       this.isProcessingPayment = false;
     }
   }
 
-  // Simulate payment processing delay
-  private simulatePaymentProcess(): Promise<void> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve();
-      }, 2000); // 2 second delay to simulate processing
+  // Confirmed by the restaurant rather than the API, so there is no order number
+  private showArrivedOrder(): void {
+    this.orderState = 'accepted';
+    this.idempotencyKey = null;
+    this.loyaltyHoldId = null;
+    this.orderNumber = '';
+    this.orderStatus = 'received';
+    this.showOrderConfirmation = true;
+    console.log('✅ Order confirmed by the restaurant');
+  }
+
+  // The order is safe in the outbox and goes out by itself once the connection returns
+  private showQueuedOrder(entry: OutboxEntry): void {
+    console.log('📮 Order queued for resubmission:', entry.idempotencyKey);
+    this.orderState = 'queued';
+    this.orderMessage = 'Comanda va fi trimisă automat imediat ce revine conexiunea. Nu închide pagina și nu comanda din nou.';
+
+    // Given back if the order is refused in the end
+    this.orderFollowUp.holdCart(entry);
+    this.cart = [];
+
+    this.outboxSubscription?.unsubscribe();
+    this.outboxSubscription = this.orderOutbox.watch(entry.idempotencyKey).subscribe(update => {
+      if (update && update.status !== 'queued' && update.status !== 'submitting') {
+        this.outboxSubscription?.unsubscribe();
+        this.handleOutboxEntry(update);
+      }
+    });
+  }
+
+  // Map the API answer onto the submission state shown to the customer
+  private handleOrderResponse(orderData: Order, response: OrderResponse): void {
+    if (!response.isSuccess || !response.data) {
+      console.warn('❌ Order was NOT placed:', response.error?.kind, response.message);
+      this.orderState = response.shouldRetry ? 'retry' : 'rejected';
+      if (!response.shouldRetry) {
+        this.idempotencyKey = null;
+      }
+      // The follow-up gives the held points back; a retry holds them again
+      this.loyaltyHoldId = null;
+      this.orderMessage = this.describeOrderError(response.error);
+      return;
+    }
+
+    this.orderState = 'accepted';
+    this.idempotencyKey = null;
+    this.loyaltyHoldId = null;
+    this.orderNumber = response.data.orderNumber;
+    this.orderStatus = response.data.status;
+    this.serverEstimatedTime = response.data.estimatedTime;
+    console.log('📋 Order accepted by the API:', this.orderNumber, this.orderStatus);
+
+    // Keep a local copy for the receipt
+    this.saveOrder({
+      ...orderData,
+      id: String(response.data.id),
+      orderNumber: this.orderNumber,
+      estimatedTime: this.serverEstimatedTime ?? orderData.estimatedTime,
+      status: this.orderStatus
     });
+
+    // Clear cart using service method; a shared cart empties for the whole table
+    this.apiService.clearCart();
+    this.cart = []; // Also clear local cart
+    this.groupCart.announceOrder(this.orderNumber);
+
+    // Show confirmation
+    this.showOrderConfirmation = true;
+    console.log('✅ Order processed successfully!');
   }
 
-  // Generate unique order number
-  private generateOrderNumber(): string {
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-    return `HB-${timestamp}-${random}`; // Hesburger prefix
+  // Customer-facing explanation for each failure kind
+  private describeOrderError(error?: OrderError): string {
+    switch (error?.kind) {
+      case 'network':
+        return 'Comanda nu a ajuns la restaurant din cauza conexiunii. Verifică internetul și încearcă din nou.';
+      case 'validation':
+        return `Restaurantul a respins comanda: ${error.message}`;
+      case 'auth':
+        return 'Nu ne-am putut autentifica la restaurant. Te rugăm să chemi un ospătar.';
+      case 'server':
+      default:
+        return 'Restaurantul nu a putut procesa comanda momentan. Te rugăm să încerci din nou.';
+    }
   }
 
-  // Save order (later will use API service)
-  private saveOrder(orderData: any): void {
-    // Save to localStorage for demo purposes
+  // Leave the failure panel and let the customer edit the order again
+  dismissOrderError(): void {
+    // An edited cart is a different order and must not reuse the old key
+    this.idempotencyKey = null;
+    this.loyaltyHoldId = null;
+    this.orderState = 'idle';
+    this.orderMessage = '';
+  }
+
+  // Save the confirmed order locally so the receipt can be printed or downloaded
+  private saveOrder(orderData: Order): void {
     const orders = JSON.parse(localStorage.getItem('hesburger_orders') || '[]');
     orders.push(orderData);
     localStorage.setItem('hesburger_orders', JSON.stringify(orders));
@@ -361,6 +681,7 @@ serviceCartItemCount: any;
   startNewOrder(): void {
     console.log('🔄 Starting new order');
     this.showOrderConfirmation = false;
+    this.orderState = 'idle';
     this.router.navigate(['/menu', this.tableId]);
   }
 
@@ -391,6 +712,7 @@ Order Receipt
 ========================
 
 Order Number: ${orderData.orderNumber}
+Status: ${orderData.status}
 Table: ${orderData.tableId}
 Date: ${new Date(orderData.orderTime).toLocaleString('ro-RO')}
 
@@ -403,20 +725,18 @@ Items Ordered:
 `;
 
     orderData.items.forEach((item: any) => {
-      const itemTotal = item.price * item.quantity;
+      const itemTotal = this.getItemSubtotal(item);
       content += `${item.quantity}x ${item.name} - ${this.formatPrice(itemTotal)}\n`;
     });
 
     content += `
 ========================
-Subtotal: ${this.formatPrice(orderData.totals.subtotal)}
-Service Fee: ${this.formatPrice(orderData.totals.serviceFee)}
-Tax (10%): ${this.formatPrice(orderData.totals.tax)}
+${this.describeTotals(orderData.pricing)}
 ========================
-TOTAL: ${this.formatPrice(orderData.totals.total)}
-
+TOTAL: ${this.formatPrice(orderData.pricing.total)}
+${this.describeVat(orderData.pricing)}
 Payment Method: ${this.getPaymentMethodName(orderData.paymentMethod)}
-Estimated Time: ${orderData.estimatedTime} minutes
+${this.describeBillShares(orderData.billShares)}${this.describeLoyalty(orderData.loyalty)}Estimated Time: ${orderData.estimatedTime} minutes
 
 Mulțumim pentru comandă!
 Thank you for your order!
@@ -425,6 +745,44 @@ Thank you for your order!
     return content;
   }
 
+  // Subtotal, then whatever was taken off or added to it
+  private describeTotals(pricing: PriceBreakdown): string {
+    const lines = [`Subtotal: ${this.formatPrice(pricing.subtotal)}`];
+    pricing.discounts.forEach(discount => lines.push(`${discount.description}: -${this.formatPrice(discount.amount)}`));
+    if (isPositive(pricing.serviceFee)) lines.push(`Service Fee: ${this.formatPrice(pricing.serviceFee)}`);
+    if (isPositive(pricing.deliveryFee)) lines.push(`Delivery Fee: ${this.formatPrice(pricing.deliveryFee)}`);
+    return lines.join('\n');
+  }
+
+  // The VAT included in the total, one row per rate
+  private describeVat(pricing: PriceBreakdown): string {
+    if (pricing.vat.length === 0) return '';
+
+    const row = (label: string, ...amounts: Money[]) =>
+      `  ${label.padEnd(7)}${amounts.map(amount => this.formatPrice(amount).padStart(14)).join('')}\n`;
+    const net = sumMoney(pricing.vat.map(entry => entry.net), pricing.total.currency);
+    const gross = sumMoney(pricing.vat.map(entry => entry.gross), pricing.total.currency);
+
+    return 'VAT Summary (included):\n'
+      + `  ${'Rate'.padEnd(7)}${['Net', 'VAT', 'Gross'].map(heading => heading.padStart(14)).join('')}\n`
+      + pricing.vat.map(entry => row(this.formatRate(entry.rate), entry.net, entry.vat, entry.gross)).join('')
+      + (pricing.vat.length > 1 ? row('Total', net, pricing.vatTotal, gross) : '');
+  }
+
+  // One line per share of a split bill
+  private describeBillShares(shares: BillShare[] | undefined): string {
+    if (!shares?.length) return '';
+    return 'Split Bill:\n' + shares
+      .map(share => `  ${share.label}: ${this.formatPrice(share.total)} (${share.status})`)
+      .join('\n') + '\n';
+  }
+
+  private describeLoyalty(loyalty: OrderLoyalty | undefined): string {
+    if (!loyalty) return '';
+    const balance = loyalty.balance - loyalty.redeemedPoints + loyalty.earnedPoints;
+    return `Loyalty Card: ${loyalty.card} (${loyalty.redeemedPoints} points redeemed, ${loyalty.earnedPoints} earned, ${balance} balance)\n`;
+  }
+
   // Get payment method display name
   private getPaymentMethodName(methodId: string): string {
     const method = this.paymentMethods.find(m => m.id === methodId);
@@ -4,7 +4,21 @@ import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router } from '@angular/router';
 import { Subscription, of } from 'rxjs';
 import { tap, catchError } from 'rxjs/operators';
-import { HesburgerApiService, Product, CartItem, CategoryWithProducts } from '../../services/api.service';
+import { HesburgerApiService, Product, CartItem, MenuCatalog, NoLocationError, TableCarryOver, TableSwitch } from '../../services/api.service';
+import { ApiSchemaError } from '../../api/schema';
+import { GroupCartService } from '../../services/group-cart.service';
+import { describeUnpricedReason, isPriced } from '../../services/price-resolver';
+import {
+  ModifierGroup,
+  ModifierSelection,
+  defaultSelection,
+  selectedModifiers,
+  selectionProblems,
+  toggleModifier,
+  unitPriceOf
+} from '../../services/product-modifiers';
+import { Money, formatMoney, isPositive, moneyOf, multiply, sumMoney, zero } from '../../services/money';
+import { ALL_CATEGORY, KEYWORD_CATEGORIES, MenuCategory, categoriesInUse, keywordCategoryFor } from '../../services/menu-categories';
 
 @Component({
   selector: 'app-menu',
@@ -15,13 +29,13 @@ import { HesburgerApiService, Product, CartItem, CategoryWithProducts } from '..
 })
 export class MenuComponent implements OnInit, OnDestroy {
   tableId: string = '';
+  locationName: string = '';
   selectedCategory: string = 'all';
   searchTerm: string = '';
   
   // Data arrays
   products: Product[] = [];
-  categories: any[] = [];
-  categoriesWithProducts: CategoryWithProducts[] = [];
+  categories: MenuCategory[] = [ALL_CATEGORY];
   cart: CartItem[] = [];
   
   // Loading states
@@ -29,25 +43,27 @@ export class MenuComponent implements OnInit, OnDestroy {
   isLoadingCategories = false;
   errorMessage = '';
   
+  // Options dialog: the product being customized, null while the dialog is closed
+  customizingProduct: Product | null = null;
+  modifierSelection: ModifierSelection = {};
+  customizeQuantity = 1;
+  
+  // Shared cart: what happened at the table, shown until dismissed, and the name or
+  // seat being typed in the diner dialog (null while the dialog is closed)
+  tableNotice: string | null = null;
+  dinerInput: string | null = null;
+  
+  // Cart another table left behind, while asking whether to move or discard it
+  tableSwitch: TableSwitch | null = null;
+  
   // Subscriptions for cleanup
   private subscriptions: Subscription[] = [];
 
-  // 🔒 PROTECTED: These categories can NEVER be overwritten
-  private readonly FIXED_CATEGORIES = [
-    { id: 'all', name: 'All Items', icon: '🍽️' },
-    { id: 'burgers', name: 'Burgers', icon: '🍔' },
-    { id: 'chicken', name: 'Chicken', icon: '🍗' },
-    { id: 'sides', name: 'Sides', icon: '🍟' },
-    { id: 'drinks', name: 'Drinks', icon: '🥤' },
-    { id: 'desserts', name: 'Desserts', icon: '🍦' },
-    { id: 'other', name: 'Other', icon: '📦' }
-  ];
-
   // 🖼️ IMAGE HANDLING PROPERTIES (FIXED TO PREVENT INFINITE LOOPS)
   private imageCache = new Map<string, string>();
   private imageLoadingCache = new Map<string, boolean>(); // CHANGED: Use boolean instead of Subscription
-  private imageLoadingStates = new Map<number, boolean>();
-  private imageErrorStates = new Map<number, boolean>();
+  private imageLoadingStates = new Map<string, boolean>();
+  private imageErrorStates = new Map<string, boolean>();
 
   // For debugging
   testProductId: number | undefined;
@@ -56,25 +72,20 @@ export class MenuComponent implements OnInit, OnDestroy {
     private route: ActivatedRoute,
     private router: Router,
     private apiService: HesburgerApiService,
+    private groupCart: GroupCartService,
     private cdr: ChangeDetectorRef
-  ) {
-    // Force categories in constructor too (extra safety)
-    this.categories = [...this.FIXED_CATEGORIES];
-  }
+  ) {}
 
   ngOnInit(): void {
     console.log('🚀 MenuComponent initializing...');
     
-    // STEP 1: FORCE categories first (MOST CRITICAL)
-    this.initializeCategories();
-    
-    // STEP 2: Get table ID from route
+    // STEP 1: Get table ID from route
     this.initializeRoute();
     
-    // STEP 3: Initialize cart subscription
+    // STEP 2: Initialize cart subscription
     this.initializeCart();
     
-    // STEP 4: Load products (but NEVER let them affect categories)
+    // STEP 3: Load categories and products
     this.loadProducts();
     
     console.log('✅ MenuComponent initialization complete');
@@ -100,33 +111,65 @@ export class MenuComponent implements OnInit, OnDestroy {
 
   // =============== INITIALIZATION METHODS ===============
 
-  private initializeCategories(): void {
-    console.log('📂 🔒 FORCE-Initializing protected categories...');
-    
-    // CRITICAL: Set categories and NEVER EVER let anything override them
-    this.categories = [...this.FIXED_CATEGORIES];
-    
-    console.log('✅ Categories FORCE-initialized:', this.categories.length);
-    console.log('📋 Categories list:', this.categories.map(c => `${c.icon} ${c.name}`).join(', '));
-    
-    // Triple-check categories are set
-    if (this.categories.length !== 7) {
-      console.error('🚨 CRITICAL: Categories not set properly!');
-      this.categories = [...this.FIXED_CATEGORIES]; // Force again
-    }
-    
-    // Force change detection to ensure UI updates immediately
-    this.cdr.detectChanges();
-    
-    console.log('🔒 Categories are now PROTECTED from any external changes');
-  }
-
   private initializeRoute(): void {
     const routeSub = this.route.params.subscribe(params => {
       this.tableId = params['tableId'];
+      const tableToken = this.route.snapshot.queryParamMap.get('t');
+      this.locationName = this.apiService.setTableId(this.tableId, undefined, tableToken)?.name ?? '';
+      this.tableSwitch = this.apiService.getTableSwitch(this.tableId);
+      this.joinSharedCart();
       console.log('🏷️ Table ID:', this.tableId);
     });
     this.subscriptions.push(routeSub);
+    
+    const orderSub = this.groupCart.orderPlaced$.subscribe(notice => {
+      this.tableNotice = `${notice.by ?? 'Someone at your table'} placed the order for the table (${notice.orderNumber}).`;
+    });
+    this.subscriptions.push(orderSub);
+  }
+
+  // Everyone at the table orders from one cart; lines are tagged with who they are for
+  private joinSharedCart(): void {
+    if (!this.groupCart.isEnabled) return;
+    
+    this.groupCart.join(this.tableId);
+    if (!this.groupCart.getDiner()) {
+      this.changeDiner();
+    }
+  }
+
+  changeDiner(): void {
+    this.dinerInput = this.diner ?? '';
+  }
+
+  saveDiner(): void {
+    if (this.dinerInput !== null) {
+      this.groupCart.setDiner(this.dinerInput);
+    }
+    this.dinerInput = null;
+  }
+
+  closeDinerDialog(): void {
+    this.dinerInput = null;
+  }
+
+  dismissTableNotice(): void {
+    this.tableNotice = null;
+  }
+
+  get isSharedCart(): boolean {
+    return this.groupCart.isEnabled;
+  }
+
+  get diner(): string | null {
+    return this.apiService.getDiner();
+  }
+
+  // Scanning another table with items still in the cart: take them along or start over.
+  // The table is open meanwhile; the other cart is left alone until the answer.
+  answerTableSwitch(carryOver: TableCarryOver): void {
+    this.tableSwitch = null;
+    this.apiService.setTableId(this.tableId, carryOver);
   }
 
   private initializeCart(): void {
@@ -137,94 +180,77 @@ export class MenuComponent implements OnInit, OnDestroy {
     this.subscriptions.push(cartSub);
   }
 
-  // =============== PRODUCT LOADING (CATEGORIES PROTECTED) ===============
+  // =============== PRODUCT LOADING ===============
 
   private loadProducts(): void {
-    console.log('📦 Starting product loading (categories are PROTECTED)...');
-    
-    // SAFETY CHECK: Ensure categories are still there
-    if (this.categories.length !== 7) {
-      console.warn('⚠️ Categories were somehow cleared! Re-initializing...');
-      this.initializeCategories();
-    }
-    
-    // Try to load from API first
+    console.log('📦 Starting menu loading...');
     this.loadProductsFromAPI();
-    
-    // Load API categories for reference only (won't affect our fixed categories)
-    this.loadCategoriesFromAPIForReference();
   }
 
   private loadProductsFromAPI(): void {
     this.isLoadingProducts = true;
+    this.isLoadingCategories = true;
     this.errorMessage = '';
+    
+    // Prices depend on the restaurant; without one there is no menu to show
+    if (!this.apiService.getLocation()) {
+      this.showNoLocation();
+      return;
+    }
+    
     console.log('🔄 Loading products from Hesburger API...');
     
-    const productsSub = this.apiService.getSellingProducts().subscribe({
-      next: (products: Product[]) => {
-        console.log('✅ Products loaded successfully:', products.length, 'items');
+    const productsSub = this.apiService.getMenu().subscribe({
+      next: (catalog: MenuCatalog) => {
+        console.log('✅ Menu loaded successfully:', catalog.products.length, 'items in', catalog.categories.length, 'categories');
         
-        if (products && products.length > 0) {
-          this.products = products;
-          console.log('📝 Sample product:', products[0]);
+        if (catalog.products.length > 0) {
+          this.showMenu(catalog.categories, catalog.products);
+          console.log('📝 Sample product:', catalog.products[0]);
           this.debugPricesAfterLoad();
         } else {
           console.warn('⚠️ No products received, using fallback');
           this.loadMockProducts();
         }
-        
-        this.isLoadingProducts = false;
-        
-        // SAFETY CHECK: Ensure categories are STILL protected
-        this.ensureCategoriesProtected();
       },
       error: (error) => {
+        // A response that breaks the API contract must not be papered over with demo items
+        if (error instanceof ApiSchemaError) {
+          console.error('🚨 Menu response does not match the API contract:', error.message);
+          this.showMenu([], []);
+          this.errorMessage = `Menu unavailable - unexpected API response at ${error.path}`;
+          return;
+        }
+        if (error instanceof NoLocationError) {
+          this.showNoLocation();
+          return;
+        }
+
         console.warn('❌ Failed to load products from API:', error);
         this.errorMessage = 'Using demo data - API connection failed';
         this.loadMockProducts();
-        this.ensureCategoriesProtected();
       }
     });
     
     this.subscriptions.push(productsSub);
   }
 
-  private loadCategoriesFromAPIForReference(): void {
-    this.isLoadingCategories = true;
-    console.log('📋 Loading API categories (for reference only - won\'t affect fixed categories)...');
-    
-    const categoriesSub = this.apiService.getCategoriesWithProducts().subscribe({
-      next: (categoriesWithProducts: CategoryWithProducts[]) => {
-        console.log('✅ API categories loaded for reference:', categoriesWithProducts.length);
-        this.categoriesWithProducts = categoriesWithProducts;
-        
-        // Log API categories but DON'T use them to replace our fixed categories
-        if (categoriesWithProducts.length > 0) {
-          console.log('📋 API categories available:', categoriesWithProducts.map(c => c.name));
-          console.log('📂 But keeping our FIXED categories intact:', this.categories.length);
-        }
-        
-        this.isLoadingCategories = false;
-        this.ensureCategoriesProtected();
-      },
-      error: (error) => {
-        console.warn('⚠️ Failed to load API categories:', error);
-        this.isLoadingCategories = false;
-        this.ensureCategoriesProtected();
-      }
-    });
-    
-    this.subscriptions.push(categoriesSub);
+  private showNoLocation(): void {
+    this.showMenu([], []);
+    this.errorMessage = `Table ${this.tableId} does not belong to any restaurant - please scan the QR code on your table again`;
   }
 
-  // 🔒 CRITICAL SAFETY METHOD
-  private ensureCategoriesProtected(): void {
-    if (this.categories.length !== 7) {
-      console.error('🚨 CRITICAL ALERT: Categories were compromised! Restoring...');
-      this.categories = [...this.FIXED_CATEGORIES];
-      this.cdr.detectChanges();
-      console.log('✅ Categories restored to protected state');
+  // The category bar always starts with "All Items"; a category that disappeared on reload is deselected
+  private showMenu(categories: MenuCategory[], products: Product[]): void {
+    this.categories = [ALL_CATEGORY, ...categories];
+    this.products = products;
+    
+    if (!this.categories.some(category => category.id === this.selectedCategory)) {
+      this.selectedCategory = ALL_CATEGORY.id;
     }
+    
+    this.isLoadingProducts = false;
+    this.isLoadingCategories = false;
   }
 
   private loadMockProducts(): void {
@@ -233,9 +259,10 @@ export class MenuComponent implements OnInit, OnDestroy {
     this.products = [
       {
         id: 1,
+        uid: 'demo-big-hesburger',
         name: 'Big Hesburger',
         description: 'Our signature burger with double beef, cheese, lettuce, tomato',
-        price: 25.90,
+        price: moneyOf(25.90),
         category: 'burgers',
         image: 'http://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=300&h=200&fit=crop&crop=center&q=80',
         isPopular: true,
@@ -245,9 +272,10 @@ export class MenuComponent implements OnInit, OnDestroy {
       },
       {
         id: 2,
+        uid: 'demo-cheese-burger',
         name: 'Cheese Burger',
         description: 'Classic cheeseburger with beef patty and melted cheese',
-        price: 19.90,
+        price: moneyOf(19.90),
         category: 'burgers',
         image: 'http://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=300&h=200&fit=crop&crop=center&q=80&sig=2',
         isPopular: false,
@@ -257,9 +285,10 @@ export class MenuComponent implements OnInit, OnDestroy {
       },
       {
         id: 3,
+        uid: 'demo-crispy-chicken',
         name: 'Crispy Chicken',
         description: 'Crispy fried chicken breast with spicy mayo',
-        price: 23.50,
+        price: moneyOf(23.50),
         category: 'chicken',
         image: 'http://images.unsplash.com/photo-1562967914-608f82629710?w=300&h=200&fit=crop&crop=center&q=80',
         isPopular: true,
@@ -269,9 +298,10 @@ export class MenuComponent implements OnInit, OnDestroy {
       },
       {
         id: 4,
+        uid: 'demo-french-fries',
         name: 'French Fries',
         description: 'Golden crispy french fries',
-        price: 8.90,
+        price: moneyOf(8.90),
         category: 'sides',
         image: 'http://images.unsplash.com/photo-1573080496219-bb080dd4f877?w=300&h=200&fit=crop&crop=center&q=80',
         isPopular: true,
@@ -281,9 +311,10 @@ export class MenuComponent implements OnInit, OnDestroy {
       },
       {
         id: 5,
+        uid: 'demo-coca-cola',
         name: 'Coca Cola',
         description: 'Classic Coca Cola 0.5L',
-        price: 6.50,
+        price: moneyOf(6.50),
         category: 'drinks',
         image: 'http://images.unsplash.com/photo-1544145945-f90425340c7e?w=300&h=200&fit=crop&crop=center&q=80',
         isPopular: true,
@@ -293,9 +324,10 @@ export class MenuComponent implements OnInit, OnDestroy {
       },
       {
         id: 6,
+        uid: 'demo-ice-cream-cone',
         name: 'Ice Cream Cone',
         description: 'Vanilla ice cream in waffle cone',
-        price: 7.90,
+        price: moneyOf(7.90),
         category: 'desserts',
         image: 'http://images.unsplash.com/photo-1551024506-0bccd828d307?w=300&h=200&fit=crop&crop=center&q=80',
         isPopular: true,
@@ -305,43 +337,35 @@ export class MenuComponent implements OnInit, OnDestroy {
       }
     ];
     
-    this.isLoadingProducts = false;
+    // Demo products carry keyword categories
+    this.showMenu(categoriesInUse(KEYWORD_CATEGORIES, this.products), this.products);
     console.log('📦 Mock products loaded:', this.products.length, 'items');
     this.debugPricesAfterLoad();
-    this.ensureCategoriesProtected();
   }
 
   // =============== PRICE FORMATTING ===============
 
-  formatPrice(price: number): string {
-    if (!price || price <= 0) return '0,00 LEI';
-    
-    return new Intl.NumberFormat('ro-RO', {
-      style: 'currency',
-      currency: 'RON',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(price);
-  }
-
-  formatPriceSimple(price: number): string {
-    if (!price || price <= 0) return '0,00 LEI';
-    return `${price.toFixed(2).replace('.', ',')} LEI`;
+  formatPrice(price: Money): string {
+    return formatMoney(price);
   }
 
   hasValidPrice(product: Product): boolean {
-    return typeof product.price === 'number' && product.price > 0;
+    return isPriced(product);
   }
 
   getPriceDisplayText(product: Product): string {
     if (!this.hasValidPrice(product)) {
-      return 'Preț la cerere';
+      return 'Preț indisponibil';
     }
-    return this.formatPriceSimple(product.price);
+    return this.formatPrice(product.price);
+  }
+
+  getUnpricedReasonText(product: Product): string {
+    return describeUnpricedReason(product.unpricedReason);
   }
 
   getFormattedCartTotal(): string {
-    return this.formatPriceSimple(this.cartTotal);
+    return this.formatPrice(this.cartTotal);
   }
 
   // =============== FILTERING & SEARCH ===============
@@ -367,7 +391,6 @@ export class MenuComponent implements OnInit, OnDestroy {
   selectCategory(categoryId: string): void {
     this.selectedCategory = categoryId;
     console.log('📂 Category selected:', categoryId);
-    this.ensureCategoriesProtected(); // Safety check
   }
 
   onSearch(event: any): void {
@@ -383,18 +406,32 @@ export class MenuComponent implements OnInit, OnDestroy {
 
   // =============== CART MANAGEMENT ===============
   
-  getProductQuantityInCart(productId: number): number {
-    const cartItem = this.cart.find(item => item.id === productId);
-    return cartItem ? cartItem.quantity : 0;
+  // A product can be in the cart on several lines (other options or instructions);
+  // in a shared cart only the diner's own lines count
+  getProductQuantityInCart(productUid: string): number {
+    return this.ownLines(productUid).reduce((count, item) => count + item.quantity, 0);
   }
 
-  isProductInCart(productId: number): boolean {
-    return this.getProductQuantityInCart(productId) > 0;
+  private ownLines(productUid: string): CartItem[] {
+    const diner = this.apiService.getDiner() ?? undefined;
+    return this.cart.filter(item => item.uid === productUid && item.diner === diner);
   }
 
+  isProductInCart(productUid: string): boolean {
+    return this.getProductQuantityInCart(productUid) > 0;
+  }
+
+  // Products with options go through the options dialog first
   addToCart(product: Product, quantity: number = 1): void {
-    console.log('🛒 Adding to cart:', product.name, 'quantity:', quantity, 'price:', this.formatPriceSimple(product.price));
-    this.apiService.addToCart(product, quantity);
+    if (this.isCustomizable(product)) {
+      this.openCustomization(product);
+      return;
+    }
+    
+    console.log('🛒 Adding to cart:', product.name, 'quantity:', quantity, 'price:', this.formatPrice(product.price));
+    if (!this.apiService.addToCart(product, quantity)) {
+      return;
+    }
     
     // Haptic feedback
     if ('vibrate' in navigator) {
@@ -402,25 +439,108 @@ export class MenuComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * The menu only shows a total per product: more adds another default one (or opens
+   * the options dialog), fewer takes one off the line added last.
+   */
   updateProductQuantity(product: Product, newQuantity: number): void {
-    if (newQuantity <= 0) {
-      this.removeFromCart(product);
-    } else {
+    const currentQuantity = this.getProductQuantityInCart(product.uid);
+    if (newQuantity > currentQuantity) {
+      this.addToCart(product, newQuantity - currentQuantity);
+      return;
+    }
+    
+    const lines = this.ownLines(product.uid);
+    const lastLine = lines[lines.length - 1];
+    if (lastLine && newQuantity < currentQuantity) {
       console.log('📊 Updating quantity for:', product.name, 'to:', newQuantity);
-      this.apiService.updateCartQuantity(product.id, newQuantity);
+      this.apiService.updateCartQuantity(lastLine.lineId, lastLine.quantity - (currentQuantity - newQuantity));
     }
   }
 
   removeFromCart(product: Product): void {
     console.log('🗑️ Removing from cart:', product.name);
-    this.apiService.removeFromCart(product.id);
+    this.ownLines(product.uid).forEach(item => this.apiService.removeFromCart(item.lineId));
+  }
+
+  // =============== PRODUCT OPTIONS ===============
+
+  isCustomizable(product: Product): boolean {
+    return (product.modifierGroups?.length ?? 0) > 0;
+  }
+
+  openCustomization(product: Product): void {
+    console.log('🎛️ Customizing:', product.name);
+    this.customizingProduct = product;
+    this.modifierSelection = defaultSelection(product.modifierGroups ?? []);
+    this.customizeQuantity = 1;
+  }
+
+  closeCustomization(): void {
+    this.customizingProduct = null;
+    this.modifierSelection = {};
+  }
+
+  toggleOption(group: ModifierGroup, optionUid: string): void {
+    this.modifierSelection = toggleModifier(group, this.modifierSelection, optionUid);
+  }
+
+  isOptionSelected(group: ModifierGroup, optionUid: string): boolean {
+    return (this.modifierSelection[group.uid] ?? []).includes(optionUid);
+  }
+
+  // Options past the maximum are disabled until one is deselected
+  isOptionDisabled(group: ModifierGroup, optionUid: string): boolean {
+    return group.max > 1 &&
+      (this.modifierSelection[group.uid] ?? []).length >= group.max &&
+      !this.isOptionSelected(group, optionUid);
+  }
+
+  getGroupHint(group: ModifierGroup): string {
+    if (group.kind === 'removal') return 'Tap what to leave out';
+    if (group.min === 1 && group.max === 1) return 'Choose 1';
+    if (group.min > 0) return `Choose ${group.min} to ${group.max}`;
+    return group.max < group.options.length ? `Optional, up to ${group.max}` : 'Optional';
+  }
+
+  formatPriceDelta(delta: Money): string {
+    return isPositive(delta) ? `+${this.formatPrice(delta)}` : '';
+  }
+
+  get customizationProblems(): string[] {
+    if (!this.customizingProduct) return [];
+    return selectionProblems(this.customizingProduct.modifierGroups ?? [], this.modifierSelection);
+  }
+
+  get customizedTotal(): Money {
+    if (!this.customizingProduct) return zero();
+    const modifiers = selectedModifiers(this.customizingProduct.modifierGroups ?? [], this.modifierSelection);
+    return multiply(unitPriceOf(this.customizingProduct.price, modifiers), this.customizeQuantity);
+  }
+
+  changeCustomizeQuantity(delta: number): void {
+    this.customizeQuantity = Math.max(1, this.customizeQuantity + delta);
+  }
+
+  confirmCustomization(): void {
+    const product = this.customizingProduct;
+    if (!product || this.customizationProblems.length > 0) return;
+    
+    if (!this.apiService.addToCart(product, this.customizeQuantity, { selection: this.modifierSelection })) {
+      return;
+    }
+    
+    this.closeCustomization();
+    if ('vibrate' in navigator) {
+      navigator.vibrate(50);
+    }
   }
 
   get cartItemCount(): number {
     return this.apiService.getCartItemCount();
   }
 
-  get cartTotal(): number {
+  get cartTotal(): Money {
     return this.apiService.getCartTotal();
   }
 
@@ -443,13 +563,11 @@ export class MenuComponent implements OnInit, OnDestroy {
 
   retryLoadData(): void {
     console.log('🔄 Retrying data load...');
-    this.ensureCategoriesProtected();
     this.loadProducts();
   }
 
   reloadData(): void {
     console.log('🔄 Reloading data...');
-    this.ensureCategoriesProtected();
     this.loadProducts();
   }
 
@@ -472,11 +590,11 @@ export class MenuComponent implements OnInit, OnDestroy {
     return product.allergens?.join(', ') || '';
   }
 
-  trackByProductId(index: number, product: Product): number {
-    return product.id;
+  trackByProductUid(index: number, product: Product): string {
+    return product.uid;
   }
 
-  trackByCategoryId(index: number, category: any): string {
+  trackByCategoryId(index: number, category: MenuCategory): string {
     return category.id;
   }
 
@@ -499,24 +617,24 @@ export class MenuComponent implements OnInit, OnDestroy {
     const target = event.target as HTMLImageElement;
     if (target) {
       target.src = this.getCategoryBasedImageUrl(product);
-      this.imageErrorStates.set(product.id, true);
+      this.imageErrorStates.set(product.uid, true);
       this.cdr.detectChanges();
     }
   }
 
   onImageLoad(event: any, product: Product): void {
     console.log('🖼️ Image loaded successfully for:', product.name);
-    this.imageLoadingStates.set(product.id, false);
-    this.imageErrorStates.delete(product.id);
+    this.imageLoadingStates.set(product.uid, false);
+    this.imageErrorStates.delete(product.uid);
     this.cdr.detectChanges();
   }
 
-  isImageLoading(productId: number): boolean {
-    return this.imageLoadingStates.get(productId) || false;
+  isImageLoading(productUid: string): boolean {
+    return this.imageLoadingStates.get(productUid) || false;
   }
 
-  hasImageError(productId: number): boolean {
-    return this.imageErrorStates.get(productId) || false;
+  hasImageError(productUid: string): boolean {
+    return this.imageErrorStates.get(productUid) || false;
   }
 
   getImageSource(product: Product): string {
@@ -524,8 +642,9 @@ export class MenuComponent implements OnInit, OnDestroy {
   }
 
   private getCategoryBasedImageUrl(product: Product): string {
-    const category = product.category || 'other';
-    const id = product.id || Math.floor(Math.random() * 1000);
+    // Stock photos exist only for the keyword categories, whatever the menu is grouped by
+    const category = keywordCategoryFor(product.name);
+    const id = product.id;
     
     const categoryImages: { [key: string]: string } = {
       'burgers': `http://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=300&h=200&fit=crop&crop=center&q=80&sig=${id}`,
@@ -552,9 +671,10 @@ export class MenuComponent implements OnInit, OnDestroy {
 
   debugProductPrice(product: Product): void {
     console.log('🔍 === PRICE DEBUG FOR:', product.name, '===');
-    console.log('- Displayed price:', product.price, 'RON');
-    console.log('- Formatted price:', this.formatPriceSimple(product.price));
+    console.log('- Displayed price:', product.price);
+    console.log('- Formatted price:', this.formatPrice(product.price));
     console.log('- Has valid price:', this.hasValidPrice(product));
+    console.log('- Unpriced reason:', product.unpricedReason ?? 'none');
     console.log('- Location prices:', product.locationPrices);
     console.log('- Unit price with VAT:', product.unitPriceWithVat);
     console.log('=====================================');
@@ -567,22 +687,21 @@ export class MenuComponent implements OnInit, OnDestroy {
         console.log('🔍 === PRODUCTS PRICE SUMMARY ===');
         this.products.forEach((product, index) => {
           console.log(`${index + 1}. ${product.name}:`, {
-            price: `${product.price} RON`,
-            formatted: this.formatPriceSimple(product.price),
+            price: product.price,
+            formatted: this.formatPrice(product.price),
             hasValidPrice: this.hasValidPrice(product)
           });
         });
         
         const totalProducts = this.products.length;
         const validPrices = this.products.filter(p => this.hasValidPrice(p)).length;
-        const averagePrice = this.products
-          .filter(p => this.hasValidPrice(p))
-          .reduce((sum, p) => sum + p.price, 0) / validPrices;
+        const validTotal = sumMoney(this.products.filter(p => this.hasValidPrice(p)).map(p => p.price));
+        const averagePrice = validPrices > 0 ? multiply(validTotal, 1 / validPrices) : zero();
           
         console.log('📊 PRICE STATISTICS:');
         console.log('- Total products:', totalProducts);
         console.log('- Products with valid prices:', validPrices);
-        console.log('- Average price:', this.formatPriceSimple(averagePrice || 0));
+        console.log('- Average price:', this.formatPrice(averagePrice));
         console.log('================================');
       }, 1000);
     }
@@ -598,8 +717,8 @@ export class MenuComponent implements OnInit, OnDestroy {
     console.log('- ImageUid:', product.imageUid);
     console.log('- Image field:', product.image);
     console.log('- Current URL:', this.getImageUrl(product));
-    console.log('- Loading state:', this.isImageLoading(product.id));
-    console.log('- Error state:', this.hasImageError(product.id));
+    console.log('- Loading state:', this.isImageLoading(product.uid));
+    console.log('- Error state:', this.hasImageError(product.uid));
     console.log('- Source type:', this.getImageSource(product));
     console.log('=====================================');
   }
@@ -614,7 +733,6 @@ export class MenuComponent implements OnInit, OnDestroy {
         console.error('❌ API endpoints test failed:', error);
       }
     });
-    this.ensureCategoriesProtected();
   }
 
   getCategoryStats(): void {
@@ -624,9 +742,8 @@ export class MenuComponent implements OnInit, OnDestroy {
     }, {} as { [key: string]: number });
     
     console.log('📊 Product categories stats:', stats);
-    console.log('📂 PROTECTED categories count:', this.categories.length);
+    console.log('📂 Categories:', this.categories.map(category => `${category.icon} ${category.name}`).join(', '));
     console.log('🖼️ Image cache stats:', this.getImageStats());
-    this.ensureCategoriesProtected();
   }
 
   forceReauth(): void {
@@ -640,14 +757,5 @@ export class MenuComponent implements OnInit, OnDestroy {
         console.error('❌ Re-authentication failed:', error);
       }
     });
-    this.ensureCategoriesProtected();
-  }
-
-  // 🔒 EMERGENCY CATEGORY RECOVERY
-  emergencyRestoreCategories(): void {
-    console.log('🚨 EMERGENCY: Manually restoring categories...');
-    this.categories = [...this.FIXED_CATEGORIES];
-    this.cdr.detectChanges();
-    console.log('✅ Emergency restore complete:', this.categories.length, 'categories');
   }
 }
\ No newline at end of file
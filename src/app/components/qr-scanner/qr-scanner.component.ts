@@ -1,7 +1,9 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { Html5QrcodeScanner } from 'html5-qrcode';
+import { LoyaltyService } from '../../services/loyalty.service';
+import { parseLoyaltyQr } from '../../services/loyalty';
 
 @Component({
   selector: 'app-qr-scanner',
@@ -16,8 +18,14 @@ export class QrScannerComponent implements OnInit, OnDestroy {
   isScanning = true;
   hasPermission = false;
   scannerError = '';
+  // What a scanned loyalty card came to, shown above the scanner
+  loyaltyMessage = '';
 
-  constructor(private router: Router) {}
+  constructor(
+    private router: Router,
+    private route: ActivatedRoute,
+    private loyalty: LoyaltyService
+  ) {}
 
   ngOnInit(): void {
     // Delay pentru ca DOM să se încarce complet
@@ -92,10 +100,16 @@ export class QrScannerComponent implements OnInit, OnDestroy {
   }
 
   public handleQRResult(result: string): void {
+    const card = parseLoyaltyQr(result);
+    if (card) {
+      this.identifyLoyaltyCard(card);
+      return;
+    }
+
     try {
       if (result.startsWith('http')) {
-        const tableId = this.extractTableId(result);
-        this.navigateToMenu(tableId);
+        const link = new URL(result);
+        this.navigateToMenu(this.extractTableId(link.pathname), link.searchParams.get('t'));
       } else {
         this.navigateToMenu(result);
       }
@@ -105,13 +119,46 @@ export class QrScannerComponent implements OnInit, OnDestroy {
     }
   }
 
-  private extractTableId(url: string): string {
-    const urlParts = url.split('/');
+  // A loyalty card's QR code identifies the customer, then goes back to the page
+  // that opened the scanner (?returnTo=), or scans on
+  private async identifyLoyaltyCard(card: string): Promise<void> {
+    if (!this.loyalty.enabled) {
+      this.loyaltyMessage = 'Loyalty cards are not accepted here';
+      this.resetScanner();
+      return;
+    }
+
+    try {
+      const member = await this.loyalty.identify(card);
+      if (!member) {
+        this.loyaltyMessage = 'This loyalty card is not valid';
+        this.resetScanner();
+        return;
+      }
+      this.loyaltyMessage = `Loyalty card ${member.card}: ${member.balance} points`;
+    } catch (error) {
+      console.error('❌ Loyalty card lookup failed:', error);
+      this.loyaltyMessage = 'Could not check your loyalty card, please try again';
+      this.resetScanner();
+      return;
+    }
+
+    const returnTo = this.route.snapshot.queryParamMap.get('returnTo');
+    if (returnTo?.startsWith('/')) {
+      this.router.navigateByUrl(returnTo);
+    } else {
+      this.resetScanner();
+    }
+  }
+
+  private extractTableId(pathname: string): string {
+    const urlParts = pathname.split('/');
     return urlParts[urlParts.length - 1] || 'table-1';
   }
 
-  public navigateToMenu(tableId: string): void {
-    this.router.navigate(['/menu', tableId]);
+  // The table's code (?t= of its QR link) goes along, the table session is opened with it
+  public navigateToMenu(tableId: string, tableToken?: string | null): void {
+    this.router.navigate(['/menu', tableId], tableToken ? { queryParams: { t: tableToken } } : {});
   }
 
   public resetScanner(): void {
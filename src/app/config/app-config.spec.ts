@@ -0,0 +1,37 @@
+import { AppConfigFile, resolveAppConfig } from './app-config';
+
+describe('resolveAppConfig', () => {
+  const tenant = {
+    brand: 'Hesburger',
+    locations: [],
+    client: { uid: 'client-1' },
+    billingClient: { uid: 'billing-1' }
+  } as unknown as AppConfigFile['tenants'][string];
+
+  const file: AppConfigFile = {
+    defaultEnvironment: 'production',
+    defaultTenant: 'main',
+    environments: {
+      production: { apiBaseUrl: '/api', apiKey: '' },
+      mock: { apiBaseUrl: '/mock-api', apiKey: '' }
+    },
+    tenants: { main: tenant, other: tenant },
+    hosts: { 'other.example.ro': { tenant: 'other' } }
+  };
+
+  beforeEach(() => sessionStorage.clear());
+  afterEach(() => sessionStorage.clear());
+
+  it('takes the environment and tenant from the query string in development builds', () => {
+    const config = resolveAppConfig(file, { hostname: 'localhost', search: '?env=mock&tenant=other' }, true);
+
+    expect(config.environment.name).toBe('mock');
+    expect(config.tenant.id).toBe('other');
+  });
+
+  it('goes by the hostname only in production builds', () => {
+    expect(resolveAppConfig(file, { hostname: 'menu.example.ro', search: '?env=mock&tenant=other' }, false).environment.name).toBe('production');
+    expect(resolveAppConfig(file, { hostname: 'menu.example.ro', search: '?tenant=other' }, false).tenant.id).toBe('main');
+    expect(resolveAppConfig(file, { hostname: 'other.example.ro', search: '' }, false).tenant.id).toBe('other');
+  });
+});
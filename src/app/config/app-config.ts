@@ -0,0 +1,82 @@
+import { InjectionToken, Provider, isDevMode } from '@angular/core';
+import { AppConfig, AppConfigFile } from './config-types';
+
+export * from './config-types';
+export { resolveTableLocation } from './table-locations';
+
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG');
+
+export const APP_CONFIG_URL = 'config/app-config.json';
+
+const TENANT_STORAGE_KEY = 'hesburger_tenant';
+const ENVIRONMENT_STORAGE_KEY = 'hesburger_environment';
+
+// =============== LOADING ===============
+
+/**
+ * Fetches the deployed configuration file and picks the environment and tenant
+ * for this page. The hostname mapping wins over the defaults. Development builds
+ * also take the tenant and the environment from `?tenant=` / `?env=` query
+ * parameters (kept for the rest of the browser session), e.g. `?env=mock` for the
+ * local stand-in API; production builds ignore them.
+ */
+export async function loadAppConfig(url: string = APP_CONFIG_URL): Promise<AppConfig> {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`Cannot load app configuration from ${url}: HTTP ${response.status}`);
+  }
+
+  const file = await response.json() as AppConfigFile;
+  const config = resolveAppConfig(file, window.location);
+  console.log(`⚙️ App configuration loaded: ${config.environment.name} / ${config.tenant.id}`);
+  return config;
+}
+
+export function resolveAppConfig(
+  file: AppConfigFile,
+  location: Pick<Location, 'hostname' | 'search'>,
+  allowQueryChoice: boolean = isDevMode()
+): AppConfig {
+  const hostConfig = file.hosts?.[location.hostname];
+  const environmentName = (allowQueryChoice && resolveEnvironmentName(file, location.search)) || hostConfig?.environment || file.defaultEnvironment;
+  const tenantId = (allowQueryChoice && resolveTenantId(file, location.search)) || hostConfig?.tenant || file.defaultTenant;
+
+  const environment = file.environments[environmentName];
+  if (!environment) {
+    throw new Error(`Unknown environment "${environmentName}" in app configuration`);
+  }
+
+  const tenant = file.tenants[tenantId];
+  if (!tenant) {
+    throw new Error(`Unknown tenant "${tenantId}" in app configuration`);
+  }
+
+  return {
+    environment: { ...environment, name: environmentName },
+    tenant: { ...tenant, id: tenantId }
+  };
+}
+
+function resolveTenantId(file: AppConfigFile, search: string): string | null {
+  return resolveSessionChoice(search, 'tenant', TENANT_STORAGE_KEY, file.tenants);
+}
+
+function resolveEnvironmentName(file: AppConfigFile, search: string): string | null {
+  return resolveSessionChoice(search, 'env', ENVIRONMENT_STORAGE_KEY, file.environments);
+}
+
+// A known value from the query string is remembered for the browser session
+function resolveSessionChoice(search: string, parameter: string, storageKey: string, known: { [key: string]: unknown }): string | null {
+  const requested = new URLSearchParams(search).get(parameter);
+  if (requested && known[requested]) {
+    sessionStorage.setItem(storageKey, requested);
+    return requested;
+  }
+
+  const remembered = sessionStorage.getItem(storageKey);
+  return remembered && known[remembered] ? remembered : null;
+}
+
+export function provideAppConfig(config: AppConfig): Provider {
+  return { provide: APP_CONFIG, useValue: config };
+}
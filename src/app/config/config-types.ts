@@ -0,0 +1,146 @@
+// Plain types, free of Angular: the backend-for-frontend checks tables and orders
+// against the same configuration file.
+
+// =============== CONFIGURATION TYPES ===============
+
+// direct - the browser logs in to the Freya API itself (needs credentials, local debugging only)
+// bff    - the browser talks to the backend-for-frontend, which holds the credentials
+export type ApiAuthMode = 'direct' | 'bff';
+
+// api      - the category bar and grouping come from ProductCategory/FindMany (default)
+// keywords - fixed categories, products assigned by keywords in their name
+export type MenuCategoryMode = 'api' | 'keywords';
+
+export interface EnvironmentConfig {
+  name: string;
+  apiBaseUrl: string;
+  apiKey: string;
+  authMode?: ApiAuthMode;
+  // WebSocket endpoint through which diners at one table share a cart; absolute or
+  // relative to the page. Without it every phone keeps its own cart.
+  groupCartUrl?: string;
+  // Service keeping the loyalty points ledger; absolute or relative to the page.
+  // Without it points are kept on the device.
+  loyaltyUrl?: string;
+  // Service counting promo code uses; absolute or relative to the page. Without it
+  // uses are counted on the device, so usage limits hold per device only.
+  promotionUsageUrl?: string;
+  credentials?: {
+    username: string;
+    password: string;
+  };
+}
+
+export interface TenantAddressConfig {
+  countryName: string;
+  countryUid: string;
+  districtName: string;
+  districtUid: string;
+  cityName: string;
+  cityUid: string;
+}
+
+// A restaurant of the tenant. `tables` lists the table ids printed on its QR codes;
+// an entry ending in `*` matches every table id starting with what precedes it.
+export interface TenantLocationConfig {
+  uid: string;
+  name: string;
+  tables: string[];
+}
+
+// percentage  - `value` off the counted lines, e.g. 0.1 for 10%
+// fixed       - `value` lei off the counted lines
+// buy-x-get-y - of every `buy` + `get` counted items, the `get` cheapest are free
+export type PromotionKind = 'percentage' | 'fixed' | 'buy-x-get-y';
+
+// A promo code. Lines count towards it when they are in one of its `categories`
+// (category key or uid), or all lines when it has none.
+export interface PromotionConfig {
+  code: string;
+  description: string;
+  kind: PromotionKind;
+  value?: number;
+  buy?: number;
+  get?: number;
+  categories?: string[];
+  // Lei the counted lines must come to
+  minSpend?: number;
+  // ISO 8601, inclusive
+  validFrom?: string;
+  validUntil?: string;
+  // Orders the code can be used on: across devices with the environment's
+  // promotionUsageUrl, otherwise from each device
+  usageLimit?: number;
+  // Whether it combines with other codes (default false: it is used alone)
+  stackable?: boolean;
+}
+
+// Loyalty points, earned on what is paid for the items and redeemed at checkout
+export interface LoyaltyConfig {
+  // Points per leu paid, rounded down (default 1)
+  pointsPerLei?: number;
+  // Lei a point is worth when redeemed (default 0.05)
+  pointValue?: number;
+  // Fewest points that can be redeemed at once (default 0)
+  minRedeemPoints?: number;
+  // Share of the items' total points can pay for, e.g. 0.5 (default 1)
+  maxRedeemShare?: number;
+}
+
+export interface TenantConfig {
+  id: string;
+  brand: string;
+  // Checked in order; the first location listing the table wins
+  locations: TenantLocationConfig[];
+  menu?: {
+    categoryMode?: MenuCategoryMode;
+  };
+  session?: {
+    // A table's cart is dropped after this long without changes (default 180)
+    cartExpiryMinutes?: number;
+  };
+  // Fees are per order and, like menu prices, include VAT. All default to 0.
+  pricing?: {
+    serviceFee?: number;
+    // Share of the discounted subtotal, e.g. 0.05 for 5%
+    serviceFeePercent?: number;
+    deliveryFee?: number;
+    // VAT rate of the fees and of products the menu gives no rate for, e.g. 0.11
+    vatRate?: number;
+    // The product the service fee is ordered as; without it the fee goes with the delivery tax
+    serviceFeeProduct?: { uid: string; name: string };
+  };
+  promotions?: PromotionConfig[];
+  // Without it the app has no loyalty points
+  loyalty?: LoyaltyConfig;
+  client: {
+    uid: string;
+    deliveryAddressUid: string;
+    address: TenantAddressConfig;
+  };
+  billingClient: {
+    uid: string;
+    name: string;
+    uniqueCode: string;
+    identificationCode: string;
+    email: string;
+    addedAt: string | null;
+    addedBy: string | null;
+    address: TenantAddressConfig;
+  };
+}
+
+// Resolved configuration for the running app: one environment, one tenant
+export interface AppConfig {
+  environment: EnvironmentConfig;
+  tenant: TenantConfig;
+}
+
+// Shape of the JSON file deployed next to the app
+export interface AppConfigFile {
+  defaultEnvironment: string;
+  defaultTenant: string;
+  environments: { [name: string]: Omit<EnvironmentConfig, 'name'> };
+  tenants: { [id: string]: Omit<TenantConfig, 'id'> };
+  hosts?: { [hostname: string]: { environment?: string; tenant?: string } };
+}
@@ -0,0 +1,9 @@
+import { TenantConfig, TenantLocationConfig } from './config-types';
+
+// Kept free of Angular: the backend-for-frontend resolves tables the same way
+
+export function resolveTableLocation(tenant: Pick<TenantConfig, 'locations'>, tableId: string): TenantLocationConfig | null {
+  return tenant.locations.find(location => location.tables.some(table =>
+    table.endsWith('*') ? tableId.startsWith(table.slice(0, -1)) : table === tableId
+  )) ?? null;
+}
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpRequest, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { retry } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+import { authInterceptor } from './auth.interceptor';
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  let auth: jasmine.SpyObj<AuthService>;
+
+  const unauthorized = { status: 401, statusText: 'Unauthorized' };
+
+  beforeEach(() => {
+    auth = jasmine.createSpyObj<AuthService>('AuthService', ['isApiRequest', 'ensureAuthenticated', 'currentCredential', 'authorize', 'refresh']);
+    auth.isApiRequest.and.returnValue(true);
+    auth.ensureAuthenticated.and.returnValue(of(undefined));
+    auth.currentCredential.and.returnValue('token');
+    auth.authorize.and.callFake((request: HttpRequest<unknown>) => request);
+    auth.refresh.and.returnValue(of(undefined));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: auth },
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => backend.verify());
+
+  it('refreshes once and retries once after a 401', () => {
+    let answer: unknown;
+    let failure: unknown;
+    http.get('/api/menu').subscribe({ next: body => answer = body, error: error => failure = error });
+
+    backend.expectOne('/api/menu').flush(null, unauthorized);
+    backend.expectOne('/api/menu').flush(null, unauthorized);
+
+    expect(auth.refresh).toHaveBeenCalledOnceWith('token');
+    expect(answer).toBeUndefined();
+    expect(failure).toBeDefined();
+  });
+
+  it('refreshes again when the caller resubscribes', () => {
+    let answer: unknown;
+    http.get('/api/menu').pipe(retry(1)).subscribe(body => answer = body);
+
+    backend.expectOne('/api/menu').flush(null, unauthorized);
+    backend.expectOne('/api/menu').flush(null, unauthorized);
+    backend.expectOne('/api/menu').flush(null, unauthorized);
+    backend.expectOne('/api/menu').flush({ ok: true });
+
+    expect(auth.refresh).toHaveBeenCalledTimes(2);
+    expect(answer).toEqual({ ok: true });
+  });
+});
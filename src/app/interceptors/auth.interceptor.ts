@@ -0,0 +1,38 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { throwError } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { AuthService, SKIP_AUTH } from '../services/auth.service';
+
+/**
+ * Adds the Freya credentials to every request for the API base URL. Requests made
+ * while a refresh is running wait for it; a 401 triggers one refresh and one retry.
+ * The retry goes straight to `next`, so its own 401 is never retried; nothing is
+ * written to the request's context, which a resubscribing caller shares.
+ */
+export const authInterceptor: HttpInterceptorFn = (request, next) => {
+  const auth = inject(AuthService);
+
+  if (request.context.get(SKIP_AUTH) || !auth.isApiRequest(request.url)) {
+    return next(request);
+  }
+
+  return auth.ensureAuthenticated().pipe(
+    switchMap(() => {
+      const credential = auth.currentCredential();
+
+      return next(auth.authorize(request)).pipe(
+        catchError(error => {
+          if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+            return throwError(() => error);
+          }
+
+          console.log('🔄 Got 401, refreshing credentials and retrying once...');
+          return auth.refresh(credential).pipe(
+            switchMap(() => next(auth.authorize(request)))
+          );
+        })
+      );
+    })
+  );
+};
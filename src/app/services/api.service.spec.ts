@@ -0,0 +1,247 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { AppConfig, TenantAddressConfig, TenantConfig, provideAppConfig } from '../config/app-config';
+import { ClientOrderInsertRequestDto, ProductDto } from '../api/freya-dto';
+import { CartItem, HesburgerApiService, OrderResponse } from './api.service';
+import { NO_FEES, priceOrder } from './pricing';
+import { Money, add, isPositive, moneyOf, toMajor } from './money';
+import { SelectedModifier, unitPriceOf } from './product-modifiers';
+import { AuthService } from './auth.service';
+
+describe('HesburgerApiService table sessions', () => {
+  // Tables T* are served by the city restaurant, A* by the airport one
+  const config: AppConfig = {
+    environment: { name: 'test', apiBaseUrl: '/api', apiKey: 'key' },
+    tenant: {
+      id: 'test',
+      brand: 'Test',
+      locations: [
+        { uid: 'city', name: 'City', tables: ['T*'] },
+        { uid: 'airport', name: 'Airport', tables: ['A*'] }
+      ],
+      session: { cartExpiryMinutes: 180 }
+    } as unknown as TenantConfig
+  };
+  const products: ProductDto[] = [
+    { uid: 'burger', name: 'Burger', vatRate: 11, locationPrices: [{ locationUid: 'city', unitPriceWithVat: 20 }, { locationUid: 'airport', unitPriceWithVat: 25 }] },
+    { uid: 'salad', name: 'Salad', vatRate: 11, locationPrices: [{ locationUid: 'city', unitPriceWithVat: 15 }] }
+  ];
+  const SELLING_PRODUCTS_URL = '/api/Product/FindSellingProducts';
+
+  let api: HesburgerApiService;
+  let http: HttpTestingController;
+  let auth: jasmine.SpyObj<AuthService>;
+
+  const line = (uid: string, price: number, quantity: number) => ({ uid, name: uid, price: moneyOf(price), quantity, category: 'food', toppings: [] });
+
+  function storeCart(tableId: string, items: unknown[], updatedAt = Date.now()): void {
+    localStorage.setItem(`hesburger_cart:test:${tableId}`, JSON.stringify({ tableId, items, removed: {}, updatedAt }));
+  }
+
+  function storedCart(tableId: string): { items: { uid: string; price: Money; quantity: number }[] } | null {
+    return JSON.parse(localStorage.getItem(`hesburger_cart:test:${tableId}`) ?? 'null');
+  }
+
+  function clearStorage(): void {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith('hesburger_cart'))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  beforeEach(() => {
+    clearStorage();
+    auth = jasmine.createSpyObj<AuthService>('AuthService', ['setTableId', 'getAuthToken', 'canOrderFor']);
+    TestBed.configureTestingModule({
+      providers: [
+        provideAppConfig(config),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: auth }
+      ]
+    });
+    api = TestBed.inject(HesburgerApiService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    clearStorage();
+  });
+
+  it('keeps the cart of each table on its own', () => {
+    storeCart('T1', [line('burger', 20, 1)]);
+    storeCart('T2', [line('salad', 15, 2)]);
+
+    api.setTableId('T2');
+
+    expect(api.getCartItemCount()).toBe(2);
+    expect(storedCart('T1')?.items.length).toBe(1);
+  });
+
+  it('starts over with an empty cart once the session has expired', () => {
+    storeCart('T1', [line('burger', 20, 1)], Date.now() - 181 * 60 * 1000);
+
+    api.setTableId('T1');
+
+    expect(api.getCartItemCount()).toBe(0);
+    expect(storedCart('T1')).toBeNull();
+  });
+
+  it('reports the cart another table left behind', () => {
+    storeCart('T1', [line('burger', 20, 2), line('salad', 15, 1)]);
+
+    expect(api.getTableSwitch('A1')).toEqual({ fromTableId: 'T1', itemCount: 3 });
+    expect(api.getTableSwitch('T1')).toBeNull();
+  });
+
+  it('moves the lines of another table priced for the new location, without what it does not sell', () => {
+    storeCart('T1', [line('burger', 20, 2), line('salad', 15, 1)]);
+
+    api.setTableId('A1', 'move');
+    http.expectOne(SELLING_PRODUCTS_URL).flush({ isSuccess: true, message: null, payload: { records: products } });
+
+    expect(api.getCartItemCount()).toBe(2);
+    expect(storedCart('A1')?.items.map(item => [item.uid, item.price, item.quantity])).toEqual([['burger', moneyOf(25), 2]]);
+    expect(storedCart('T1')).toBeNull();
+  });
+
+  it('leaves the other cart where it is when the menu cannot be loaded to move it', () => {
+    storeCart('T1', [line('burger', 20, 2)]);
+
+    api.setTableId('A1', 'move');
+    // Failed once and retried once
+    http.expectOne(SELLING_PRODUCTS_URL).flush(null, { status: 500, statusText: 'Server Error' });
+    http.expectOne(SELLING_PRODUCTS_URL).flush(null, { status: 500, statusText: 'Server Error' });
+
+    expect(api.getCartItemCount()).toBe(0);
+    expect(storedCart('T1')?.items.length).toBe(1);
+  });
+
+  it('throws away the cart of another table when told to discard it', () => {
+    storeCart('T1', [line('burger', 20, 2)]);
+
+    api.setTableId('A1', 'discard');
+
+    expect(api.getCartItemCount()).toBe(0);
+    expect(storedCart('T1')).toBeNull();
+  });
+
+  it('gives a cart saved before table sessions to the first table opened', () => {
+    // Saved with decimal prices, before amounts were Money
+    const saved = (uid: string, quantity: number) => ({ uid, name: uid, price: 20, quantity, category: 'food', toppings: [] });
+    localStorage.setItem('hesburger_cart', JSON.stringify([saved('burger', 1), saved('burger', 2), { name: 'No uid', price: 5, quantity: 1 }]));
+
+    api.setTableId('T1');
+
+    expect(localStorage.getItem('hesburger_cart')).toBeNull();
+    expect(storedCart('T1')?.items.map(item => [item.uid, item.price, item.quantity])).toEqual([['burger', moneyOf(20), 3]]);
+  });
+
+  it('keeps an order for another table back instead of switching the session to it', () => {
+    auth.canOrderFor.and.returnValue(false);
+    let response: OrderResponse | undefined;
+
+    api.createOrder({
+      tableId: 'A1',
+      customerInfo: { firstName: 'Ana', lastName: 'Pop', email: 'ana@example.com', phone: '0700000000' },
+      items: [],
+      paymentMethod: 'card',
+      pricing: priceOrder([], NO_FEES)
+    }, 'key').subscribe(answer => response = answer);
+
+    expect(response?.error?.kind).toBe('session');
+    expect(auth.canOrderFor).toHaveBeenCalledWith('A1');
+    expect(auth.setTableId).not.toHaveBeenCalled();
+    http.expectNone('/api/ClientOrder/Insert');
+  });
+});
+
+describe('HesburgerApiService order payload', () => {
+  const address: TenantAddressConfig = {
+    countryName: 'Romania', countryUid: 'ro', districtName: 'Cluj', districtUid: 'cj', cityName: 'Cluj-Napoca', cityUid: 'cluj'
+  };
+  const tenant: TenantConfig = {
+    id: 'test',
+    brand: 'Test',
+    locations: [{ uid: 'city', name: 'City', tables: ['T*'] }],
+    pricing: { serviceFee: 2.5, serviceFeePercent: 0.05, deliveryFee: 4, vatRate: 0.11 },
+    client: { uid: 'client', deliveryAddressUid: 'address', address },
+    billingClient: {
+      uid: 'billing', name: 'Test SRL', uniqueCode: 'RO1', identificationCode: 'J1', email: 'orders@example.com',
+      addedAt: null, addedBy: null, address
+    }
+  };
+  const fees = { serviceFee: moneyOf(2.5), serviceFeePercent: 0.05, deliveryFee: moneyOf(4), vatRate: 0.11 };
+  const bacon: SelectedModifier = { groupUid: 'extra', optionUid: 'bacon', name: 'Bacon', kind: 'addon', priceDelta: moneyOf(3.5) };
+  const items = [
+    { lineId: 'burger', uid: 'burger', name: 'Burger', price: moneyOf(20.9), vatRate: 0.11, quantity: 2, toppings: [bacon] },
+    { lineId: 'cola', uid: 'cola', name: 'Cola', price: moneyOf(7.5), vatRate: 0.21, quantity: 3, toppings: [] }
+  ] as CartItem[];
+  const lines = items.map(item => ({
+    lineId: item.lineId, name: item.name, quantity: item.quantity, unitPrice: unitPriceOf(item.price, item.toppings), vatRate: item.vatRate!
+  }));
+  // A promo code over the order, then points paying for part of what is left
+  const pricing = priceOrder(lines, fees, [
+    { code: 'SAVE10', description: '10% off', amount: moneyOf(7.13) },
+    { code: 'LOYALTY', description: 'Points', amount: moneyOf(4.35) }
+  ]);
+
+  // What the API charges for the body, in bani
+  function payloadTotal(body: ClientOrderInsertRequestDto): number {
+    const bani = (major: number) => Math.round(major * 100);
+    return body.items.reduce((sum, item) => {
+      const unit = bani(item.unitPriceWithVat) + item.toppings.reduce((toppings, topping) => toppings + bani(topping.unitPriceWithVat) * topping.quantity, 0);
+      return sum + unit * item.quantity - bani(item.discountValue);
+    }, 0) + bani(body.deliveryTax);
+  }
+
+  function sentPayload(pricingConfig: TenantConfig['pricing']): ClientOrderInsertRequestDto {
+    const auth = jasmine.createSpyObj<AuthService>('AuthService', ['canOrderFor']);
+    auth.canOrderFor.and.returnValue(true);
+    TestBed.configureTestingModule({
+      providers: [
+        provideAppConfig({ environment: { name: 'test', apiBaseUrl: '/api', apiKey: 'key' }, tenant: { ...tenant, pricing: pricingConfig } }),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: auth }
+      ]
+    });
+    const api = TestBed.inject(HesburgerApiService);
+    const http = TestBed.inject(HttpTestingController);
+
+    api.createOrder({
+      tableId: 'T1',
+      customerInfo: { firstName: 'Ana', lastName: 'Pop', email: 'ana@example.com', phone: '0700000000' },
+      items,
+      paymentMethod: 'card',
+      pricing
+    }, 'key').subscribe();
+
+    const request = http.expectOne('/api/ClientOrder/Insert');
+    request.flush({ isSuccess: true, message: null, payload: { uid: 'order' } });
+    http.verify();
+    return request.request.body as ClientOrderInsertRequestDto;
+  }
+
+  it('charges what the price breakdown says, fees and discounts included', () => {
+    expect(pricing.discounts.length).toBe(2);
+    expect(isPositive(pricing.serviceFee)).toBeTrue();
+
+    const body = sentPayload({ ...tenant.pricing, serviceFeeProduct: { uid: 'service', name: 'Service' } });
+
+    expect(payloadTotal(body)).toBe(pricing.total.amount);
+    expect(body.items.find(item => item.productUid === 'service')).toEqual(jasmine.objectContaining({
+      quantity: 1, unitPriceWithVat: toMajor(pricing.serviceFee), vatRate: 11
+    }));
+    expect(body.deliveryTax).toBe(4);
+  });
+
+  it('sends the service fee with the delivery tax when there is no product to order it as', () => {
+    const body = sentPayload(tenant.pricing);
+
+    expect(payloadTotal(body)).toBe(pricing.total.amount);
+    expect(body.items.map(item => item.productUid)).toEqual(['burger', 'cola']);
+    expect(body.deliveryTax).toBe(toMajor(add(pricing.deliveryFee, pricing.serviceFee)));
+  });
+});
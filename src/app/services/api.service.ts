@@ -1,13 +1,52 @@
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders, HttpErrorResponse } from '@angular/common/http';
-import { Observable, throwError, BehaviorSubject, of, forkJoin } from 'rxjs';
-import { catchError, retry, map, switchMap, tap, timeout } from 'rxjs/operators';
+import { Inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, throwError, BehaviorSubject, Subject, of, forkJoin, TimeoutError } from 'rxjs';
+import { catchError, retry, map, shareReplay, tap, timeout } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig, MenuCategoryMode, TenantLocationConfig, resolveTableLocation } from '../config/app-config';
+import { ApiRequestError, AuthService } from './auth.service';
+import { UnpricedReason, isPriced, resolveProductPrice } from './price-resolver';
+import { ORDER_REQUESTS_MAX_LENGTH, itemDescription, normalizeInstructions } from './order-notes';
+import { CartSnapshot, RemovedLines, mergeCartSnapshots, pruneRemovedLines } from './cart-sync';
+import { BillShare } from './bill-split';
+import { PriceBreakdown, vatRateFromPercent, vatRateToPercent } from './pricing';
+import { LOYALTY_DISCOUNT_CODE, OrderLoyalty } from './loyalty';
+import { Money, add, isMoney, isPositive, moneyOf, multiply, sumMoney, toMajor, zero } from './money';
+import {
+  ModifierGroup,
+  ModifierSelection,
+  SelectedModifier,
+  currentModifiers,
+  defaultSelection,
+  modifiersKey,
+  selectedModifiers,
+  selectionProblems,
+  savedModifiers,
+  toModifierGroups,
+  unitPriceOf
+} from './product-modifiers';
+import { KEYWORD_CATEGORIES, MenuCategory, OTHER_CATEGORY, buildApiCategories, categoriesInUse, keywordCategoryFor } from './menu-categories';
+import { ApiSchemaError, Schema, parse } from '../api/schema';
+import {
+  ClientOrderDto,
+  ClientOrderInsertRequestDto,
+  ClientOrderItemDto,
+  ClientOrderToppingDto,
+  FreyaEnvelope,
+  FreyaList,
+  ProductCategoryDto,
+  ProductDto,
+  clientOrderInsertResponseSchema,
+  productCategoryListResponseSchema,
+  productListResponseSchema
+} from '../api/freya-dto';
 
 export interface Product {
   id: number;
   name: string;
   description: string;
-  price: number;
+  // Zero when unpriced; check unpricedReason (or isPriced) before using it
+  price: Money;
+  unpricedReason?: UnpricedReason;
   category: string;
   categoryId?: number;
   categoryUid?: string;
@@ -21,20 +60,23 @@ export interface Product {
   isAvailable?: boolean;
   title?: string;
   categoryName?: string;
-  uid?: string;
+  // Identity of the product: the API uid. `id` is derived from it and only used for display
+  uid: string;
   alias?: string;
   locationPrices?: LocationPrice[];
   unitPriceWithVat?: number;
+  // VAT included in the price, as a fraction (0.11); the tenant's pricing.vatRate when absent
+  vatRate?: number;
+  // Options the product can be customized with; absent or empty when there are none
+  modifierGroups?: ModifierGroup[];
   isBase64Image?: boolean;
-  rawApiData?: any;
+  rawApiData?: ProductDto;
 }
 
 export interface LocationPrice {
   locationUid: string;
   locationName?: string;
-  price: number;
-  unitPrice?: number;
-  currency?: string;
+  price: Money;
   isActive?: boolean;
 }
 
@@ -47,11 +89,24 @@ export interface CategoryWithProducts {
   isActive?: boolean;
 }
 
+// What the menu page shows: the category bar and the products sold at the current location
+export interface MenuCatalog {
+  categories: MenuCategory[];
+  products: Product[];
+}
+
+// One cart line: a product in one configuration. `price` stays the product's own
+// price; the chosen options add their deltas on top (see unitPriceOf).
 export interface CartItem extends Product {
+  lineId: string;
   quantity: number;
   addedAt?: Date;
   specialInstructions?: string;
-  toppings?: any[];
+  toppings?: SelectedModifier[];
+  // Who at the table the line is for, when the table shares one cart
+  diner?: string;
+  // Last change to the line (ms), for merging the cart with other tabs and diners
+  changedAt?: number;
 }
 
 export interface CustomerInfo {
@@ -62,6 +117,18 @@ export interface CustomerInfo {
   specialRequests?: string;
 }
 
+// Only these fields leave the checkout form: payment card details are never stored
+// or sent with an order
+export function customerInfoOf(value: Partial<CustomerInfo>): CustomerInfo {
+  return {
+    firstName: value.firstName ?? '',
+    lastName: value.lastName ?? '',
+    email: value.email ?? '',
+    phone: value.phone ?? '',
+    specialRequests: value.specialRequests || undefined
+  };
+}
+
 export interface Order {
   id?: string;
   orderNumber?: string;
@@ -69,12 +136,12 @@ export interface Order {
   customerInfo: CustomerInfo;
   items: CartItem[];
   paymentMethod: string;
-  totals: {
-    subtotal: number;
-    serviceFee: number;
-    tax: number;
-    total: number;
-  };
+  // As priced by PricingService when the order was placed
+  pricing: PriceBreakdown;
+  // How the table split the bill and who paid; kept with the order for the receipt
+  billShares?: BillShare[];
+  // The fidelity card the order was placed with
+  loyalty?: OrderLoyalty;
   estimatedTime?: number;
   orderTime?: Date;
   status?: string;
@@ -83,286 +150,292 @@ export interface Order {
 export interface OrderResponse {
   isSuccess: boolean;
   data: {
-    id: number;
+    id: number | string;
     orderNumber: string;
     status: string;
-    estimatedTime: number;
+    estimatedTime: number | null;
     totalAmount: number;
     createdAt: string;
     queuePosition?: number | null;
   } | null;
   message: string;
   timestamp: string;
-  isOffline?: boolean;
+  error?: OrderError;
   shouldRetry?: boolean;
 }
 
-@Injectable({
-  providedIn: 'root'
-})
-export class HesburgerApiService {
-  private BaseURL = "https://api-staging-hesburger.freya.cloud";
-  private ApiKey = "";
-  
-  private authToken: string | null = null;
-  private tokenExpiryTime: number = 0;
-  private isRefreshingToken = false;
-  private refreshTokenSubject = new BehaviorSubject<boolean>(false);
-  
-  private cartSubject = new BehaviorSubject<CartItem[]>([]);
-  public cart$ = this.cartSubject.asObservable();
+// Why an order was NOT placed: network (never reached the server), validation
+// (server refused the payload), auth (credentials rejected), server (5xx answer),
+// session (not sent: in BFF mode only the table whose session this tab holds can order).
+// unconfirmed is the exception: the order went out but no answer came back in time, or
+// none that could be read, so it may well have been placed.
+export type OrderErrorKind = 'network' | 'validation' | 'auth' | 'server' | 'session' | 'unconfirmed';
 
-  private get httpOptions() {
-    const headers: any = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'ApiKey': this.ApiKey
-    };
-    
-    if (this.authToken && this.isTokenStillValid()) {
-      headers['Authorization'] = `Bearer ${this.authToken}`;
-      console.log('🔐 Using valid auth token');
-    } else if (this.authToken) {
-      console.warn('⚠️ Token exists but is expired/invalid');
-    } else {
-      console.warn('⚠️ No auth token available');
-    }
-    
-    return {
-      headers: new HttpHeaders(headers)
-    };
-  }
+export interface OrderError {
+  kind: OrderErrorKind;
+  status: number;
+  message: string;
+}
 
-  constructor(private http: HttpClient) {
-    this.loadCartFromStorage();
-    this.loadTokenFromStorage();
-    console.log('🚀 Enhanced Hesburger API Service initialized');
-    this.initializeTokenManagement();
+// The menu is asked for before a table of a known restaurant was opened
+export class NoLocationError extends Error {
+  constructor() {
+    super('No restaurant location selected - scan a table QR code first');
+    this.name = 'NoLocationError';
   }
+}
 
-  private initializeTokenManagement(): void {
-    setInterval(() => {
-      if (this.authToken && this.isTokenNearExpiry() && !this.isRefreshingToken) {
-        console.log('🔄 Token is near expiry, auto-refreshing...');
-        this.refreshToken().subscribe({
-          next: () => console.log('✅ Token auto-refreshed successfully'),
-          error: (error) => console.error('❌ Auto-refresh failed:', error)
-        });
-      }
-    }, 60000);
+// Failures the menu shows as they are, instead of an empty menu
+function isMenuFailure(error: unknown): boolean {
+  return error instanceof ApiSchemaError || error instanceof NoLocationError;
+}
+
+// The `message` of an error body, when it has one
+function errorMessageOf(body: unknown): string | null {
+  const message = typeof body === 'object' && body !== null ? (body as { message?: unknown }).message : null;
+  return typeof message === 'string' && message ? message : null;
+}
+
+// Another table's cart found when opening a table: the diner moved with items still in it
+export interface TableSwitch {
+  fromTableId: string;
+  itemCount: number;
+}
+
+// move    - the other table's lines are added to this table's cart, priced for its location
+// discard - the other table's cart is thrown away
+export type TableCarryOver = 'move' | 'discard';
+
+// A table's cart as stored, one localStorage key per tenant and table
+interface StoredCartSession {
+  tableId: string;
+  items: CartItem[];
+  // Lines removed since, kept so other tabs do not bring them back
+  removed?: RemovedLines;
+  updatedAt: number;
+}
+
+const CART_KEY_PREFIX = 'hesburger_cart:';
+// Carts saved before they were scoped to a table
+const LEGACY_CART_KEY = 'hesburger_cart';
+const DEFAULT_CART_EXPIRY_MINUTES = 180;
+
+// What a cart line can be added with besides the product and quantity
+export interface CartLineOptions {
+  // Chosen options; the product's defaults when left out
+  selection?: ModifierSelection;
+  specialInstructions?: string;
+}
 
-    this.debugTokenState();
+/**
+ * Identity of a cart line: the product, its options, its instructions and the diner
+ * it is for. Adding the same again raises the quantity of the line; anything
+ * different is a new line, so "one burger without onions plus one normal burger"
+ * stays two lines, and so do two diners' burgers in a shared cart.
+ */
+export function cartLineId(productUid: string, toppings: SelectedModifier[] | undefined, specialInstructions?: string, diner?: string): string {
+  const parts = [productUid];
+  const key = modifiersKey(toppings);
+  if (key) {
+    parts.push(key);
   }
+  const note = normalizeInstructions(specialInstructions);
+  if (note) {
+    parts.push(`note:${fnv1a(note.toLowerCase()).toString(36)}`);
+  }
+  if (diner) {
+    parts.push(`diner:${fnv1a(diner.toLowerCase()).toString(36)}`);
+  }
+  return parts.join('|');
+}
 
-  private isTokenStillValid(): boolean {
-    if (!this.authToken) return false;
-    const now = Date.now();
-    const isValid = now < this.tokenExpiryTime;
-    
-    if (!isValid) {
-      console.log('⏰ Token has expired:', {
-        now: new Date(now),
-        expiry: new Date(this.tokenExpiryTime),
-        expired: (now - this.tokenExpiryTime) / 1000 / 60 + ' minutes ago'
-      });
-    }
-    
-    return isValid;
+/**
+ * Numeric id for a product: the API's own id when it sends one, otherwise a hash of
+ * the uid, so the same product gets the same id on every load.
+ */
+export function stableProductId(apiId: unknown, uid: string): number {
+  if (typeof apiId === 'number' && Number.isInteger(apiId) && apiId > 0) {
+    return apiId;
   }
+  return fnv1a(uid);
+}
 
-  private isTokenNearExpiry(): boolean {
-    if (!this.authToken) return false;
-    const now = Date.now();
-    const twoMinutesFromNow = now + (2 * 60 * 1000);
-    return twoMinutesFromNow >= this.tokenExpiryTime;
+// Lines already in the cart get the quantity of the same line added
+function addCartLines(cart: CartItem[], lines: CartItem[]): CartItem[] {
+  const merged = cart.map(item => ({ ...item }));
+  for (const line of lines) {
+    const existing = merged.find(item => item.lineId === line.lineId);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.changedAt = line.changedAt;
+    } else {
+      merged.push(line);
+    }
   }
+  return merged;
+}
 
-  login(): Observable<any> {
-    console.log('🔐 Attempting login to Hesburger API...');
-    
-    const loginData = {
-      username: "practica.freya@gmail.com",
-      password: "practicafreya2025"
-    };
-    
-    const loginHeaders = {
-      headers: new HttpHeaders({
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'ApiKey': this.ApiKey
-      })
-    };
+// The line as the catalog sells its product now: price, VAT and options are the
+// catalog's. Null when the product is not sold or one of the options is unknown.
+function repriceCartLine(line: CartItem, product: Product | undefined): CartItem | null {
+  if (!product || !isPriced(product)) return null;
+
+  const toppings = currentModifiers(product.modifierGroups ?? [], line.toppings);
+  if (!toppings) return null;
+
+  return {
+    ...product,
+    lineId: cartLineId(product.uid, toppings, line.specialInstructions, line.diner),
+    quantity: line.quantity,
+    toppings,
+    specialInstructions: line.specialInstructions,
+    diner: line.diner,
+    addedAt: line.addedAt,
+    changedAt: line.changedAt
+  };
+}
 
-    return this.http.post(`${this.BaseURL}/login`, loginData, loginHeaders)
-      .pipe(
-        timeout(10000),
-        tap(response => {
-          console.log('✅ Login response received');
-          console.log('🔍 Response structure:', JSON.stringify(response, null, 2));
-        }),
-        map((response: any) => {
-          const token = this.extractTokenFromResponse(response);
-          
-          if (token) {
-            this.setAuthToken(token);
-            console.log('🔑 Auth token set successfully');
-            this.isRefreshingToken = false;
-            this.refreshTokenSubject.next(true);
-            
-            setTimeout(() => this.testTokenWithProductCategories(), 500);
-          } else {
-            console.error('❌ No token found in login response');
-            this.logAvailableResponseKeys(response);
-            throw new Error('No authentication token received');
-          }
-          
-          return response;
-        }),
-        catchError(error => {
-          console.error('❌ Login failed:', error);
-          this.isRefreshingToken = false;
-          this.refreshTokenSubject.next(false);
-          return this.handleError(error);
-        })
-      );
+// FNV-1a, kept to 31 bits so the hash stays a positive integer
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0) & 0x7fffffff;
+}
 
-  refreshToken(): Observable<any> {
-    if (this.isRefreshingToken) {
-      console.log('🔄 Token refresh already in progress, waiting...');
-      return this.refreshTokenSubject.pipe(
-        switchMap(success => success ? of(true) : throwError(() => new Error('Token refresh failed')))
-      );
-    }
+@Injectable({
+  providedIn: 'root'
+})
+export class HesburgerApiService implements OnDestroy {
+  private readonly BaseURL: string;
+  // Restaurant location of the scanned table; prices and orders are for this location
+  private location: TenantLocationConfig | null = null;
+  
+  // The cart belongs to the table session; there is none until a table is set
+  private tableId: string | null = null;
+  private cartUpdatedAt = 0;
+  private removedLines: RemovedLines = {};
+  // Name or seat new lines are tagged with while the table shares its cart
+  private diner: string | null = null;
+  private cartSubject = new BehaviorSubject<CartItem[]>([]);
+  public cart$ = this.cartSubject.asObservable();
+  // Changes made to the cart on this device, not merged in from elsewhere
+  private cartChangeSubject = new Subject<CartSnapshot<CartItem>>();
+  public cartChanges$ = this.cartChangeSubject.asObservable();
+  private storageListener = (event: StorageEvent) => this.zone.run(() => this.onCartStorageEvent(event));
+  // Selling products of a location by uid, for pricing cart lines made elsewhere
+  private catalog: { locationUid: string; products: Observable<Map<string, Product>> } | null = null;
+
+  // Credentials are added by authInterceptor to every request for BaseURL
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private zone: NgZone,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {
+    this.BaseURL = config.environment.apiBaseUrl;
+    window.addEventListener('storage', this.storageListener);
+    console.log('🚀 Enhanced Hesburger API Service initialized');
+  }
 
-    console.log('🔄 Refreshing authentication token...');
-    this.isRefreshingToken = true;
-    this.clearToken();
-    
-    return this.login();
+  ngOnDestroy(): void {
+    window.removeEventListener('storage', this.storageListener);
   }
 
-  private extractTokenFromResponse(response: any): string | null {
-    console.log('🔍 Searching for token in response...');
-    
-    const possibleTokenPaths = [
-      response?.payload?.token,
-      response?.payload?.accessToken,
-      response?.payload?.access_token,
-      response?.payload?.authToken,
-      response?.payload?.jwt,
-      response?.token,
-      response?.accessToken,
-      response?.access_token,
-      response?.authToken,
-      response?.jwt,
-      response?.data?.token,
-      response?.data?.accessToken,
-      response?.result?.token
-    ];
-    
-    for (let i = 0; i < possibleTokenPaths.length; i++) {
-      const tokenPath = possibleTokenPaths[i];
-      if (tokenPath && typeof tokenPath === 'string' && tokenPath.length > 10) {
-        console.log(`✅ Token found at path ${i}:`, tokenPath.substring(0, 30) + '...');
-        return tokenPath;
-      }
+  /**
+   * Opens the table's session: its location and its own cart. `carryOver` says what
+   * to do with the cart of another table (see getTableSwitch); without it that cart
+   * is left alone until it expires. Returns the location serving the table, or null
+   * when the tenant has no location for it.
+   */
+  setTableId(tableId: string, carryOver?: TableCarryOver, tableToken?: string | null): TenantLocationConfig | null {
+    this.authService.setTableId(tableId, tableToken);
+    this.location = resolveTableLocation(this.config.tenant, tableId);
+    
+    if (this.location) {
+      console.log(`📍 Table ${tableId} belongs to ${this.location.name}`);
+    } else {
+      console.warn(`⚠️ Table ${tableId} is not assigned to any location of ${this.config.tenant.id}`);
     }
     
-    console.warn('⚠️ No valid token found in response');
-    return null;
+    this.openTableSession(tableId, carryOver);
+    return this.location;
   }
 
-  private setAuthToken(token: string): void {
-    const cleanToken = token.replace(/^Bearer\s+/i, '').trim();
-    this.authToken = cleanToken;
-    
-    this.tokenExpiryTime = Date.now() + (23 * 60 * 60 * 1000);
-    this.saveTokenToStorage();
-    
-    console.log('💾 Token stored successfully');
-    console.log('- Token length:', cleanToken.length);
-    console.log('- Token preview:', cleanToken.substring(0, 30) + '...');
-    console.log('- Expires at:', new Date(this.tokenExpiryTime));
+  getLocation(): TenantLocationConfig | null {
+    return this.location;
   }
 
-  // =============== ENHANCED AUTHENTICATED REQUEST WRAPPER ===============
-
-  private ensureAuthenticated(): Observable<any> {
-    // If token is valid, proceed
-    if (this.isTokenStillValid()) {
-      console.log('✅ Token valid - proceeding with request');
-      return of(true);
+  // The cart another table left behind, so the page can ask whether to move or discard it
+  getTableSwitch(tableId: string): TableSwitch | null {
+    const others = this.readOtherSessions(tableId);
+    if (others.length === 0) {
+      return null;
     }
     
-    // If refresh is in progress, wait for it
-    if (this.isRefreshingToken) {
-      console.log('🔄 Token refresh in progress, waiting...');
-      return this.refreshTokenSubject.pipe(
-        switchMap(success => {
-          if (success && this.isTokenStillValid()) {
-            return of(true);
-          } else {
-            return throwError(() => new Error('Token refresh failed'));
-          }
-        })
+    const latest = others.reduce((a, b) => b.updatedAt > a.updatedAt ? b : a);
+    const itemCount = others.reduce((count, session) =>
+      count + session.items.reduce((sum, item) => sum + item.quantity, 0), 0);
+    return { fromTableId: latest.tableId, itemCount };
+  }
+
+  // =============== ENHANCED API METHODS ===============
+
+  getMenu(): Observable<MenuCatalog> {
+    if (this.categoryMode === 'keywords') {
+      return this.getSellingProducts().pipe(
+        map(products => ({ categories: categoriesInUse(KEYWORD_CATEGORIES, products), products }))
       );
     }
     
-    // Token invalid/missing - refresh it
-    console.log('🔄 Token invalid/missing - refreshing...');
-    return this.refreshToken().pipe(
-      tap(() => console.log('✅ Authentication completed')),
-      map(() => true)
-    );
-  }
-
-  private makeAuthenticatedRequest<T>(requestFn: () => Observable<T>): Observable<T> {
-    return this.ensureAuthenticated().pipe(
-      switchMap(() => requestFn()),
-      catchError(error => {
-        // If 401, try refreshing token once
-        if (error.status === 401 && !this.isRefreshingToken) {
-          console.log('🔄 Got 401, attempting token refresh...');
-          return this.refreshToken().pipe(
-            switchMap(() => requestFn()),
-            catchError(retryError => {
-              console.error('❌ Request failed even after token refresh:', retryError);
-              return throwError(() => retryError);
-            })
-          );
-        }
-        return throwError(() => error);
+    console.log('📋 Fetching menu categories and products...');
+    
+    return forkJoin({
+      categories: this.http.get<unknown>(`${this.BaseURL}/ProductCategory/FindMany`).pipe(retry(1)),
+      products: this.getSellingProducts()
+    }).pipe(
+      map(({ categories, products }) => {
+        const categoryRecords = this.unwrapList(productCategoryListResponseSchema, categories, 'ProductCategory/FindMany');
+        const menuCategories = buildApiCategories(categoryRecords);
+        const shownCategoryIds = new Set(menuCategories.map(category => category.id));
+        const hiddenCategoryIds = new Set(categoryRecords.filter(category => category.isActive === false).map(category => category.uid));
+        
+        // Products of hidden categories stay hidden; products of unknown categories go under "Other"
+        const groupedProducts = products
+          .filter(product => !hiddenCategoryIds.has(product.category))
+          .map(product => shownCategoryIds.has(product.category) ? product : { ...product, category: OTHER_CATEGORY.id });
+        
+        console.log(`✅ Menu ready: ${menuCategories.length} categories, ${groupedProducts.length} products`);
+        return { categories: categoriesInUse(menuCategories, groupedProducts), products: groupedProducts };
       })
     );
   }
 
-  // =============== ENHANCED API METHODS ===============
-
   getCategoriesWithProducts(): Observable<CategoryWithProducts[]> {
     console.log('📋 Fetching categories with products...');
     
-    const requestFn = () => forkJoin({
-      categories: this.http.get<any>(`${this.BaseURL}/ProductCategory/FindMany`, this.httpOptions),
-      allProducts: this.http.get<any>(`${this.BaseURL}/Product/FindMany`, this.httpOptions)
+    return forkJoin({
+      categories: this.http.get<unknown>(`${this.BaseURL}/ProductCategory/FindMany`),
+      allProducts: this.http.get<unknown>(`${this.BaseURL}/Product/FindMany`)
     }).pipe(
       tap(({ categories, allProducts }) => {
         console.log('🔍 Categories response:', categories);
         console.log('🔍 Products response:', allProducts);
       }),
       map(({ categories, allProducts }) => {
+        const categoryRecords = this.unwrapList(productCategoryListResponseSchema, categories, 'ProductCategory/FindMany');
+        const productRecords = this.unwrapList(productListResponseSchema, allProducts, 'Product/FindMany');
         console.log('✅ Categories and products fetched');
-        console.log('📊 Categories count:', categories?.length || 0);
-        console.log('📊 Products count:', allProducts?.length || 0);
+        console.log('📊 Categories count:', categoryRecords.length);
+        console.log('📊 Products count:', productRecords.length);
         
-        return this.processCategoriesWithProducts(categories, allProducts);
-      })
-    );
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
+        return this.processCategoriesWithProducts(categoryRecords, productRecords);
+      }),
       catchError(error => {
         console.error('❌ Failed to fetch categories with products:', error);
-        return of([]);
+        return isMenuFailure(error) ? throwError(() => error) : of([]);
       })
     );
   }
@@ -370,25 +443,21 @@ export class HesburgerApiService {
   getProductsByCategory(categoryUid: string): Observable<Product[]> {
     console.log(`🔍 Fetching products for category: ${categoryUid}`);
     
-    const requestFn = () => {
-      const endpoint = `${this.BaseURL}/Product/FindSellingProducts?productcategoryUid=${categoryUid}`;
-      
-      return this.http.get<any>(endpoint, this.httpOptions).pipe(
-        tap(rawResponse => {
-          console.log('🔍 RAW PRODUCTS BY CATEGORY RESPONSE:', rawResponse);
-        }),
-        map(products => {
-          console.log(`✅ Products fetched for category ${categoryUid}:`, products?.length || 0);
-          return this.processProducts(products);
-        })
-      );
-    };
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
+    const endpoint = `${this.BaseURL}/Product/FindSellingProducts?productcategoryUid=${categoryUid}`;
+    
+    return this.http.get<unknown>(endpoint).pipe(
       retry(1),
+      tap(rawResponse => {
+        console.log('🔍 RAW PRODUCTS BY CATEGORY RESPONSE:', rawResponse);
+      }),
+      map(response => {
+        const products = this.unwrapList(productListResponseSchema, response, 'Product/FindSellingProducts');
+        console.log(`✅ Products fetched for category ${categoryUid}:`, products.length);
+        return this.processProducts(products);
+      }),
       catchError(error => {
         console.error(`❌ Failed to fetch products for category ${categoryUid}:`, error);
-        return of([]);
+        return isMenuFailure(error) ? throwError(() => error) : of([]);
       })
     );
   }
@@ -396,174 +465,133 @@ export class HesburgerApiService {
   getSellingProducts(): Observable<Product[]> {
     console.log('🔍 Fetching all selling products...');
     
-    const requestFn = () => {
-      const endpoint = `${this.BaseURL}/Product/FindSellingProducts`;
-      
-      return this.http.get<any>(endpoint, this.httpOptions).pipe(
-        tap(rawResponse => {
-          console.log('🔍 RAW SELLING PRODUCTS RESPONSE:', rawResponse);
-        }),
-        map(response => {
-          console.log('✅ Selling products fetched');
-          
-          let rawProducts: any[] = [];
-          
-          if (response?.payload?.records && Array.isArray(response.payload.records)) {
-            rawProducts = response.payload.records;
-          } else if (response?.payload && Array.isArray(response.payload)) {
-            rawProducts = response.payload;
-          } else if (Array.isArray(response)) {
-            rawProducts = response;
-          } else if (response?.data && Array.isArray(response.data)) {
-            rawProducts = response.data;
-          }
-          
-          console.log(`📊 Found ${rawProducts.length} raw products`);
-          return this.processProducts(rawProducts);
-        })
-      );
-    };
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
+    const endpoint = `${this.BaseURL}/Product/FindSellingProducts`;
+    const locationUid = this.location?.uid;
+    
+    // Retry only the transport; a response that fails validation will not improve on a second try
+    return this.http.get<unknown>(endpoint).pipe(
       retry(1),
+      tap(rawResponse => {
+        console.log('🔍 RAW SELLING PRODUCTS RESPONSE:', rawResponse);
+      }),
+      map(response => {
+        const rawProducts = this.unwrapList(productListResponseSchema, response, 'Product/FindSellingProducts');
+        console.log('✅ Selling products fetched');
+        console.log(`📊 Found ${rawProducts.length} raw products`);
+        return this.processProducts(rawProducts);
+      }),
       catchError(error => {
         console.error('❌ Failed to fetch selling products:', error);
-        return of([]);
-      })
-    );
-  }
-
-  createOrder(orderData: Order): Observable<OrderResponse> {
-    console.log('📝 Creating order via Hesburger API...');
-    
-    const requestFn = () => {
-      const hesburgerOrderData = this.transformToHesburgerFormat(orderData);
-      console.log('🌐 Sending to Hesburger API:', hesburgerOrderData);
-      
-      return this.http.post<any>(`${this.BaseURL}/ClientOrder/Insert`, hesburgerOrderData, this.httpOptions).pipe(
-        tap(response => {
-          console.log('✅ Order created successfully:', response);
-        }),
-        map(response => this.processOrderResponse(response))
-      );
-    };
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
-      catchError(error => {
-        console.error('❌ Order creation failed:', error);
-        return of(this.createFallbackOrderResponse());
-      })
+        return isMenuFailure(error) ? throwError(() => error) : of([]);
+      }),
+      tap(products => this.rememberCatalog(locationUid, products))
     );
   }
 
-  // =============== TOKEN STORAGE & MANAGEMENT ===============
-
-  private saveTokenToStorage(): void {
-    try {
-      localStorage.setItem('hesburger_auth_token', this.authToken || '');
-      localStorage.setItem('hesburger_token_expiry', this.tokenExpiryTime.toString());
-      console.log('💾 Token saved to localStorage');
-    } catch (error) {
-      console.error('❌ Error saving token:', error);
+  // The menu loaded for the location doubles as the catalog; an empty one is fetched again next time
+  private rememberCatalog(locationUid: string | undefined, products: Product[]): void {
+    if (!locationUid) return;
+    if (products.length > 0) {
+      this.catalog = { locationUid, products: of(new Map(products.map(product => [product.uid, product]))) };
+    } else if (this.catalog?.locationUid === locationUid) {
+      this.catalog = null;
     }
   }
 
-  private loadTokenFromStorage(): void {
-    try {
-      const token = localStorage.getItem('hesburger_auth_token');
-      const expiry = localStorage.getItem('hesburger_token_expiry');
-      
-      if (token && expiry) {
-        this.authToken = token;
-        this.tokenExpiryTime = parseInt(expiry);
-        
-        if (!this.isTokenStillValid()) {
-          console.log('⚠️ Stored token is expired, clearing...');
-          this.clearToken();
-        } else {
-          console.log('🔑 Valid auth token loaded from storage');
-          console.log('- Expires in:', Math.round((this.tokenExpiryTime - Date.now()) / 1000 / 60), 'minutes');
-        }
-      } else {
-        console.log('ℹ️ No stored token found');
-      }
-    } catch (error) {
-      console.error('❌ Error loading token:', error);
-      this.clearToken();
+  // The open location's catalog, fetched when no menu was loaded for it yet
+  private loadCatalog(): Observable<Map<string, Product>> {
+    const locationUid = this.requireLocation().uid;
+    if (this.catalog?.locationUid !== locationUid) {
+      const products = this.getSellingProducts().pipe(
+        map(products => new Map(products.map(product => [product.uid, product]))),
+        shareReplay(1)
+      );
+      this.catalog = { locationUid, products };
     }
+    return this.catalog.products;
   }
 
-  private clearToken(): void {
-    console.log('🗑️ Clearing authentication token...');
-    this.authToken = null;
-    this.tokenExpiryTime = 0;
-    localStorage.removeItem('hesburger_auth_token');
-    localStorage.removeItem('hesburger_token_expiry');
+  // The idempotency key lets the API recognise a resubmitted order instead of creating it twice
+  createOrder(orderData: Order, idempotencyKey?: string): Observable<OrderResponse> {
+    console.log('📝 Creating order via Hesburger API...');
+    
+    // Queued orders may be resubmitted from another table's page; they wait for their
+    // own table instead of switching the session over to it
+    if (!this.authService.canOrderFor(orderData.tableId)) {
+      return of(this.createOrderFailure({
+        kind: 'session',
+        status: 0,
+        message: `The session of table ${orderData.tableId} is not open`
+      }));
+    }
+    
+    const location = resolveTableLocation(this.config.tenant, orderData.tableId);
+    if (!location) {
+      return of(this.createOrderFailure({
+        kind: 'validation',
+        status: 0,
+        message: `Table ${orderData.tableId} is not assigned to a restaurant location`
+      }));
+    }
+    
+    const hesburgerOrderData = this.transformToHesburgerFormat(orderData, location.uid);
+    console.log('🌐 Sending to Hesburger API:', hesburgerOrderData);
+    
+    if (!navigator.onLine) {
+      return of(this.createOrderFailure({ kind: 'network', status: 0, message: 'The device is offline' }));
+    }
+    
+    // The table goes with the order explicitly, for the BFF to check against the session
+    const headers: { [name: string]: string } = { 'X-Table-Id': orderData.tableId };
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+    // So are the codes and points it was priced with, for the BFF to price it again
+    const codes = (orderData.pricing?.discounts ?? []).map(discount => discount.code).filter(code => code !== LOYALTY_DISCOUNT_CODE);
+    if (codes.length > 0) {
+      headers['X-Promo-Codes'] = codes.join(',');
+    }
+    if (orderData.loyalty?.holdId && orderData.loyalty.redeemedPoints > 0) {
+      headers['X-Loyalty-Points'] = String(orderData.loyalty.redeemedPoints);
+      headers['X-Loyalty-Hold'] = orderData.loyalty.holdId;
+    }
+    
+    return this.http.post<unknown>(`${this.BaseURL}/ClientOrder/Insert`, hesburgerOrderData, { headers }).pipe(
+      timeout(15000),
+      tap(response => {
+        console.log('✅ Order created successfully:', response);
+      }),
+      map(response => this.processOrderResponse(response)),
+      catchError(error => {
+        console.error('❌ Order creation failed:', error);
+        return of(this.createOrderFailure(this.classifyOrderError(error)));
+      })
+    );
   }
 
   // =============== DEBUG & UTILITY METHODS ===============
 
   debugTokenState(): void {
-    console.log('🔍 === TOKEN DEBUG STATE ===');
-    console.log('- Has token:', !!this.authToken);
-    console.log('- Token length:', this.authToken?.length || 0);
-    console.log('- Token preview:', this.authToken?.substring(0, 30) + '...');
-    console.log('- Token expiry:', new Date(this.tokenExpiryTime));
-    console.log('- Is valid:', this.isTokenStillValid());
-    console.log('- Near expiry:', this.isTokenNearExpiry());
-    console.log('- Minutes until expiry:', Math.round((this.tokenExpiryTime - Date.now()) / 1000 / 60));
-    console.log('===========================');
+    this.authService.debugTokenState();
   }
 
-  forceReauth(): Observable<any> {
-    console.log('🔄 Forcing fresh authentication...');
-    this.clearToken();
-    this.isRefreshingToken = false;
-    return this.login();
+  forceReauth(): Observable<void> {
+    return this.authService.forceReauth();
   }
 
   getTokenInfo(): { hasToken: boolean; isValid: boolean; expiresIn: number; nearExpiry: boolean } {
-    return {
-      hasToken: !!this.authToken,
-      isValid: this.isTokenStillValid(),
-      expiresIn: Math.round((this.tokenExpiryTime - Date.now()) / 1000 / 60),
-      nearExpiry: this.isTokenNearExpiry()
-    };
+    return this.authService.getTokenInfo();
   }
 
   // =============== TEST METHODS ===============
 
-  private testTokenWithProductCategories(): void {
-    if (!this.authToken) {
-      console.log('⚠️ No token to test');
-      return;
-    }
-    
-    console.log('🧪 Testing token with product categories...');
-    
-    this.http.get(`${this.BaseURL}/ProductCategory/FindMany`, this.httpOptions)
-      .subscribe({
-        next: (response) => {
-          console.log('✅ Token test SUCCESSFUL - Categories API responding');
-          console.log('📋 Categories preview:', response);
-        },
-        error: (error) => {
-          console.error('❌ Token test FAILED:', error.status, error.statusText);
-          if (error.status === 401) {
-            console.log('🔄 Token invalid - triggering refresh');
-            this.refreshToken().subscribe();
-          }
-        }
-      });
-  }
-
   testApiEndpoints(): Observable<any> {
     console.log('🧪 Testing all API endpoints...');
     
-    const requestFn = () => forkJoin({
-      categories: this.http.get(`${this.BaseURL}/ProductCategory/FindMany`, this.httpOptions),
-      allProducts: this.http.get(`${this.BaseURL}/Product/FindMany`, this.httpOptions),
-      sellingProducts: this.http.get(`${this.BaseURL}/Product/FindSellingProducts`, this.httpOptions)
+    return forkJoin({
+      categories: this.http.get<unknown>(`${this.BaseURL}/ProductCategory/FindMany`),
+      allProducts: this.http.get<unknown>(`${this.BaseURL}/Product/FindMany`),
+      sellingProducts: this.http.get<unknown>(`${this.BaseURL}/Product/FindSellingProducts`)
     }).pipe(
       tap(results => {
         console.log('🔍 RAW TEST RESULTS:', results);
@@ -571,15 +599,12 @@ export class HesburgerApiService {
       map(results => {
         console.log('✅ All endpoints tested successfully');
         console.log('📊 Test results:', {
-          categories: (results.categories as any[])?.length || 0,
-          allProducts: (results.allProducts as any[])?.length || 0,
-          sellingProducts: (results.sellingProducts as any[])?.length || 0
+          categories: this.unwrapList(productCategoryListResponseSchema, results.categories, 'ProductCategory/FindMany').length,
+          allProducts: this.unwrapList(productListResponseSchema, results.allProducts, 'Product/FindMany').length,
+          sellingProducts: this.unwrapList(productListResponseSchema, results.sellingProducts, 'Product/FindSellingProducts').length
         });
         return results;
-      })
-    );
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
+      }),
       catchError(error => {
         console.error('❌ Endpoint test failed:', error);
         return of({ error: error.message });
@@ -589,20 +614,12 @@ export class HesburgerApiService {
 
   // =============== HELPER METHODS (keeping existing logic) ===============
 
-  getHttpHeaders(): HttpHeaders {
-    return this.httpOptions.headers;
-  }
-
-  getApiKey(): string {
-    return this.ApiKey;
-  }
-
   getBaseUrl(): string {
     return this.BaseURL;
   }
 
   getAuthToken(): string | null {
-    return this.authToken;
+    return this.authService.getAuthToken();
   }
 
   getAllProducts(): Observable<Product[]> {
@@ -611,126 +628,242 @@ export class HesburgerApiService {
 
   // =============== EXISTING PROCESSING METHODS ===============
 
-  private processCategoriesWithProducts(categories: any[], allProducts: any[]): CategoryWithProducts[] {
-    if (!categories || !Array.isArray(categories)) {
-      console.warn('⚠️ Invalid categories data');
-      return [];
+  /**
+   * Validates a Freya list response and returns its records. A response that does
+   * not match the contract throws ApiSchemaError; a call the API refused throws
+   * ApiRequestError with the API's message.
+   */
+  private unwrapList<T>(schema: Schema<FreyaEnvelope<FreyaList<T>>>, response: unknown, endpoint: string): T[] {
+    const envelope = parse(schema, response, endpoint);
+    if (!envelope.isSuccess || !envelope.payload) {
+      throw new ApiRequestError(envelope.message || `${endpoint} was refused`, 200);
     }
-    
+    return envelope.payload.records;
+  }
+
+  private processCategoriesWithProducts(categories: ProductCategoryDto[], allProducts: ProductDto[]): CategoryWithProducts[] {
     console.log('🔄 Processing categories with products...');
     
     return categories.map(category => {
-      const categoryProducts = allProducts?.filter(product => 
-        product.productCategoryUid === category.uid ||
-        product.categoryUid === category.uid ||
-        product.categoryId === category.id
-      ) || [];
+      const categoryProducts = allProducts.filter(product => product.productCategoryUid === category.uid);
       
       console.log(`📋 Category "${category.name}": ${categoryProducts.length} products`);
       
       return {
         uid: category.uid,
-        name: category.name || category.title || 'Unknown Category',
-        description: category.description || category.alias,
-        alias: category.alias,
+        name: category.name,
+        description: category.description || category.alias || undefined,
+        alias: category.alias ?? undefined,
         products: this.processProducts(categoryProducts),
         isActive: category.isActive !== false
       };
     }).filter(category => category.products.length > 0);
   }
 
-  private processProducts(products: any[]): Product[] {
-    if (!products || !Array.isArray(products)) {
-      console.warn('⚠️ Invalid products data');
-      return [];
-    }
+  // Products the current location does not sell are left out of the catalog entirely
+  private processProducts(products: ProductDto[]): Product[] {
+    const locationUid = this.requireLocation().uid;
+    console.log(`🔄 Processing ${products.length} products for location ${locationUid}...`);
     
-    console.log(`🔄 Processing ${products.length} products...`);
-    
-    return products.map(product => this.transformProduct(product))
-                  .filter(product => product.isAvailable !== false);
+    return products.map(product => this.transformProduct(product, locationUid))
+                  .filter(product => product.isAvailable !== false && product.unpricedReason !== 'not-sold-at-location');
+  }
+
+  private get categoryMode(): MenuCategoryMode {
+    return this.config.tenant.menu?.categoryMode ?? 'api';
+  }
+
+  // Value of Product.category: the category uid, or a keyword category in keyword mode
+  private categoryKeyFor(apiProduct: ProductDto): string {
+    if (this.categoryMode === 'keywords') {
+      return keywordCategoryFor(apiProduct.name, apiProduct.alias);
+    }
+    return apiProduct.productCategoryUid || OTHER_CATEGORY.id;
   }
 
-  private transformProduct(apiProduct: any): Product {
+  private requireLocation(): TenantLocationConfig {
+    if (!this.location) {
+      throw new NoLocationError();
+    }
+    return this.location;
+  }
+
+  private transformProduct(apiProduct: ProductDto, locationUid: string): Product {
     console.log('🔄 Transforming product:', apiProduct.name);
     
+    const pricing = resolveProductPrice(apiProduct, locationUid);
+    if (pricing.status === 'unpriced' && pricing.reason !== 'not-sold-at-location') {
+      console.warn(`⚠️ ${apiProduct.name} is not priced (${pricing.reason}), it cannot be ordered`);
+    }
+    
     return {
-      id: apiProduct.id || apiProduct.productId || Math.floor(Math.random() * 10000),
+      id: stableProductId(apiProduct.id, apiProduct.uid),
       uid: apiProduct.uid,
-      name: apiProduct.name || apiProduct.title || apiProduct.productName || 'Unknown Product',
+      name: apiProduct.name,
       description: this.extractDescription(apiProduct),
-      price: this.extractPriceEnhanced(apiProduct),
-      category: this.mapApiCategory(apiProduct),
-      categoryId: apiProduct.categoryId,
-      categoryUid: apiProduct.productCategoryUid || apiProduct.categoryUid,
+      price: pricing.status === 'priced' ? pricing.price : zero(),
+      unpricedReason: pricing.status === 'unpriced' ? pricing.reason : undefined,
+      category: this.categoryKeyFor(apiProduct),
+      categoryUid: apiProduct.productCategoryUid ?? undefined,
       image: this.generateImageUrlEnhanced(apiProduct),
-      imageUid: apiProduct.imageUid,
-      imageUrl: apiProduct.imageUrl,
+      imageUid: apiProduct.imageUid ?? undefined,
       isPopular: this.determinePopularity(apiProduct),
       allergens: this.extractAllergens(apiProduct),
       estimatedTime: this.estimatePreparationTime(apiProduct),
       isAvailable: this.checkAvailability(apiProduct),
-      alias: apiProduct.alias,
+      alias: apiProduct.alias ?? undefined,
       locationPrices: this.extractLocationPrices(apiProduct),
-      unitPriceWithVat: apiProduct.unitPriceWithVat,
+      unitPriceWithVat: apiProduct.unitPriceWithVat ?? undefined,
+      vatRate: vatRateFromPercent(apiProduct.vatRate),
+      modifierGroups: toModifierGroups(apiProduct.modifierGroups),
       rawApiData: apiProduct
     };
   }
 
-  // ... (keeping all other existing methods like extractDescription, extractPriceEnhanced, etc.)
+  // ... (keeping all other existing methods like extractDescription, extractAllergens, etc.)
   
   // =============== CART MANAGEMENT ===============
   
-  addToCart(product: Product, quantity: number = 1): void {
+  /**
+   * Adds the product with the chosen options, the product's defaults when none are
+   * given. Refuses products without a price and incomplete choices; returns whether
+   * the product was added.
+   */
+  addToCart(product: Product, quantity: number = 1, options: CartLineOptions = {}): boolean {
+    if (!isPriced(product)) {
+      console.warn('🚫 Not adding unpriced product to cart:', product.name, product.unpricedReason);
+      return false;
+    }
+    this.dropExpiredCart();
+    
+    const groups = product.modifierGroups ?? [];
+    const chosen = options.selection ?? defaultSelection(groups);
+    const problems = selectionProblems(groups, chosen);
+    if (problems.length > 0) {
+      console.warn('🚫 Not adding incomplete configuration to cart:', product.name, problems);
+      return false;
+    }
+    
+    const toppings = selectedModifiers(groups, chosen);
+    const specialInstructions = normalizeInstructions(options.specialInstructions) || undefined;
+    const diner = this.diner ?? undefined;
+    const lineId = cartLineId(product.uid, toppings, specialInstructions, diner);
     const currentCart = this.cartSubject.value;
-    const existingItem = currentCart.find(item => item.id === product.id);
+    const existingItem = currentCart.find(item => item.lineId === lineId);
     
     if (existingItem) {
       existingItem.quantity += quantity;
+      existingItem.changedAt = Date.now();
     } else {
       const cartItem: CartItem = {
         ...product,
+        lineId,
         quantity,
-        addedAt: new Date()
+        toppings,
+        specialInstructions,
+        diner,
+        addedAt: new Date(),
+        changedAt: Date.now()
       };
       currentCart.push(cartItem);
     }
     
     this.cartSubject.next([...currentCart]);
-    this.saveCartToStorage();
-    console.log('🛒 Added to cart:', product.name, 'Quantity:', quantity);
+    this.commitCartChange();
+    console.log('🛒 Added to cart:', product.name, 'Quantity:', quantity, 'Line:', lineId);
+    return true;
+  }
+
+  /**
+   * Changes the instructions of a line. That changes its identity too: when another
+   * line already has the same product, options and instructions, the two are merged.
+   * Returns the new line id, or null when there is no such line.
+   */
+  setLineInstructions(lineId: string, instructions: string): string | null {
+    const currentCart = this.cartSubject.value;
+    const item = currentCart.find(line => line.lineId === lineId);
+    if (!item) {
+      return null;
+    }
+    
+    const specialInstructions = normalizeInstructions(instructions) || undefined;
+    const newLineId = cartLineId(item.uid, item.toppings, specialInstructions, item.diner);
+    const twin = currentCart.find(line => line.lineId === newLineId && line !== item);
+    
+    const changedAt = Date.now();
+    if (twin) {
+      twin.quantity += item.quantity;
+      twin.changedAt = changedAt;
+      this.cartSubject.next(currentCart.filter(line => line !== item));
+    } else {
+      this.cartSubject.next(currentCart.map(line => line === item ? { ...item, lineId: newLineId, specialInstructions, changedAt } : line));
+    }
+    if (newLineId !== lineId) {
+      this.removedLines[lineId] = changedAt;
+    }
+    this.commitCartChange();
+    console.log('📝 Instructions updated for line:', newLineId);
+    return newLineId;
   }
 
-  removeFromCart(productId: number): void {
-    const currentCart = this.cartSubject.value.filter(item => item.id !== productId);
+  removeFromCart(lineId: string): void {
+    const currentCart = this.cartSubject.value.filter(item => item.lineId !== lineId);
+    this.removedLines[lineId] = Date.now();
     this.cartSubject.next(currentCart);
-    this.saveCartToStorage();
+    this.commitCartChange();
   }
 
-  updateCartQuantity(productId: number, quantity: number): void {
+  updateCartQuantity(lineId: string, quantity: number): void {
     const currentCart = this.cartSubject.value;
-    const item = currentCart.find(item => item.id === productId);
+    const item = currentCart.find(item => item.lineId === lineId);
     
     if (item) {
       if (quantity <= 0) {
-        this.removeFromCart(productId);
+        this.removeFromCart(lineId);
       } else {
         item.quantity = quantity;
+        item.changedAt = Date.now();
         this.cartSubject.next([...currentCart]);
-        this.saveCartToStorage();
+        this.commitCartChange();
       }
     }
   }
 
+  // Other tabs of the table see the stored cart go and empty theirs as well; the
+  // other diners of a shared cart get every line as removed
   clearCart(): void {
+    const clearedAt = Date.now();
+    this.cartSubject.value.forEach(item => this.removedLines[item.lineId] = clearedAt);
     this.cartSubject.next([]);
     this.removeCartFromStorage();
+    this.cartChangeSubject.next(this.getCartSnapshot());
   }
 
-  getCartTotal(): number {
-    return this.cartSubject.value.reduce((total, item) => 
-      total + (item.price * item.quantity), 0
-    );
+  /**
+   * Puts lines back into a table's cart, e.g. those of a queued order the API then
+   * refused. Lines already in the cart get the quantities added; the table's stored
+   * cart is used when it is not the open one.
+   */
+  restoreCartLines(tableId: string, items: CartItem[]): void {
+    const changedAt = Date.now();
+    const restored = this.migrateCartItems(items).map(item => ({ ...item, changedAt }));
+    if (restored.length === 0) return;
+
+    if (tableId !== this.tableId) {
+      const session = this.readSession(tableId);
+      const stored: StoredCartSession = { tableId, items: addCartLines(session?.items ?? [], restored), removed: session?.removed, updatedAt: changedAt };
+      localStorage.setItem(this.cartKey(tableId), JSON.stringify(stored));
+      return;
+    }
+
+    restored.forEach(item => delete this.removedLines[item.lineId]);
+    this.cartSubject.next(addCartLines(this.cartSubject.value, restored));
+    this.commitCartChange();
+  }
+
+  // Lines only; PricingService adds fees and discounts
+  getCartTotal(): Money {
+    return sumMoney(this.cartSubject.value.map(item => multiply(unitPriceOf(item.price, item.toppings), item.quantity)));
   }
 
   getCartItemCount(): number {
@@ -739,253 +872,383 @@ export class HesburgerApiService {
     );
   }
 
-  private saveCartToStorage(): void {
-    try {
-      localStorage.setItem('hesburger_cart', JSON.stringify(this.cartSubject.value));
-    } catch (error) {
-      console.error('Error saving cart:', error);
-    }
+  // =============== SHARED CART ===============
+
+  setDiner(diner: string | null): void {
+    this.diner = diner?.trim() || null;
   }
 
-  private loadCartFromStorage(): void {
-    try {
-      const savedCart = localStorage.getItem('hesburger_cart');
-      if (savedCart) {
-        const cart = JSON.parse(savedCart);
-        this.cartSubject.next(cart);
+  getDiner(): string | null {
+    return this.diner;
+  }
+
+  getCartSnapshot(): CartSnapshot<CartItem> {
+    return { items: this.cartSubject.value, removed: { ...this.removedLines } };
+  }
+
+  /**
+   * Merges the cart the other diners of the table have, last change per line wins.
+   * When ours had newer changes they go out again through cartChanges$. Their lines
+   * are priced from the catalog, never from what the other phones sent; lines it
+   * does not sell are left out.
+   */
+  mergeSharedCart(snapshot: CartSnapshot<CartItem>): void {
+    const tableId = this.tableId;
+    if (!tableId || !this.location) return;
+    
+    this.loadCatalog().subscribe({
+      next: catalog => {
+        if (this.tableId !== tableId) return;
+        if (catalog.size === 0) {
+          console.warn('⚠️ Menu not available, skipping this shared cart update');
+          return;
+        }
+        
+        const items = this.priceFromCatalog(this.migrateCartItems(snapshot.items), catalog);
+        const keptLocal = this.mergeCart({ items, removed: snapshot.removed ?? {} });
+        if (keptLocal) {
+          this.commitCartChange();
+        } else {
+          this.saveCartToStorage();
+        }
+      },
+      error: error => console.error('❌ Could not load the menu to merge the shared cart:', error)
+    });
+  }
+
+  private priceFromCatalog(items: CartItem[], catalog: Map<string, Product>): CartItem[] {
+    return items.flatMap(item => {
+      const priced = repriceCartLine(item, catalog.get(item.uid));
+      if (!priced) {
+        console.warn('🚫 Dropping cart line the menu does not sell as chosen:', item.name);
       }
-    } catch (error) {
-      console.error('Error loading cart:', error);
-    }
+      return priced ? [priced] : [];
+    });
   }
 
-  private removeCartFromStorage(): void {
-    localStorage.removeItem('hesburger_cart');
+  // =============== TABLE SESSIONS ===============
+
+  private get cartExpiryMs(): number {
+    return (this.config.tenant.session?.cartExpiryMinutes ?? DEFAULT_CART_EXPIRY_MINUTES) * 60 * 1000;
   }
 
-  // =============== ERROR HANDLING ===============
+  private cartKey(tableId: string): string {
+    return `${CART_KEY_PREFIX}${this.config.tenant.id}:${tableId}`;
+  }
 
-  private handleError = (error: HttpErrorResponse): Observable<never> => {
-    console.error('🚨 === API ERROR DETAILS ===');
-    console.error('- Status:', error.status);
-    console.error('- Status Text:', error.statusText);
-    console.error('- URL:', error.url);
-    console.error('- Message:', error.message);
-    console.error('============================');
+  private openTableSession(tableId: string, carryOver?: TableCarryOver): void {
+    this.purgeExpiredSessions();
     
-    let errorMessage = 'Something went wrong';
+    const own = this.tableId === tableId
+      ? { items: this.cartSubject.value, removed: this.removedLines, updatedAt: this.cartUpdatedAt }
+      : this.readSession(tableId);
+    let items = own?.items ?? [];
+    let updatedAt = own?.updatedAt ?? 0;
     
-    switch (error.status) {
-      case 0:
-        errorMessage = 'Cannot connect to server - check network or CORS';
-        break;
-      case 401:
-        errorMessage = 'Unauthorized - token expired or invalid';
-        break;
-      case 403:
-        errorMessage = 'Forbidden - insufficient permissions';
-        break;
-      case 404:
-        errorMessage = 'Endpoint not found';
-        break;
-      case 500:
-        errorMessage = 'Server error - try again later';
-        break;
-      default:
-        errorMessage = `Error ${error.status}: ${error.message}`;
+    const others = carryOver ? this.readOtherSessions(tableId) : [];
+    if (carryOver === 'discard') {
+      others.forEach(other => localStorage.removeItem(this.cartKey(other.tableId)));
     }
     
-    return throwError(() => new Error(errorMessage));
-  };
+    // A cart from before table sessions goes to the first table opened
+    const legacyCart = localStorage.getItem(LEGACY_CART_KEY);
+    if (legacyCart) {
+      try {
+        items = [...items, ...JSON.parse(legacyCart)];
+        updatedAt = Date.now();
+      } catch (error) {
+        console.error('Error reading legacy cart:', error);
+      }
+      localStorage.removeItem(LEGACY_CART_KEY);
+    }
+    
+    if (this.tableId !== tableId) {
+      this.diner = null;
+    }
+    this.tableId = tableId;
+    this.cartUpdatedAt = updatedAt;
+    this.removedLines = { ...own?.removed };
+    this.cartSubject.next(this.migrateCartItems(items));
+    this.dropExpiredCart();
+    if (this.cartSubject.value.length > 0) {
+      this.saveCartToStorage(updatedAt);
+    }
+    if (carryOver === 'move' && others.length > 0) {
+      this.moveCartLines(tableId, others);
+    }
+  }
 
- 
-  private processOrderResponse(response: any): OrderResponse {
-    console.log('🔍 Processing order response:', response);
+  /**
+   * Carries the lines of other tables' carts over to this one, priced as this table's
+   * location sells them; lines it does not sell are dropped. The other carts stay
+   * where they are until the menu could be loaded for the move.
+   */
+  private moveCartLines(tableId: string, others: StoredCartSession[]): void {
+    if (!this.location) {
+      console.warn(`⚠️ Table ${tableId} has no location to price the moved cart lines`);
+      return;
+    }
     
+    this.loadCatalog().subscribe({
+      next: catalog => {
+        if (this.tableId !== tableId) return;
+        if (catalog.size === 0) {
+          console.warn('⚠️ Menu not available, the cart lines of the other table were not moved');
+          return;
+        }
+        
+        const changedAt = Date.now();
+        for (const other of others) {
+          const moved = this.priceFromCatalog(other.items, catalog).map(item => ({ ...item, changedAt }));
+          console.log(`🚚 Moving ${moved.length} of ${other.items.length} cart lines from table ${other.tableId} to ${tableId}`);
+          moved.forEach(item => delete this.removedLines[item.lineId]);
+          this.cartSubject.next(addCartLines(this.cartSubject.value, moved));
+          localStorage.removeItem(this.cartKey(other.tableId));
+        }
+        this.commitCartChange();
+      },
+      error: error => console.error('❌ Could not load the menu to move the cart lines:', error)
+    });
+  }
+
+  // A cart left untouched for longer than the expiry starts over empty
+  private dropExpiredCart(): void {
+    if (this.cartSubject.value.length > 0 && Date.now() - this.cartUpdatedAt > this.cartExpiryMs) {
+      console.log('⌛ Table session expired, emptying the cart');
+      this.clearCart();
+    }
+  }
+
+  private readSession(tableId: string): StoredCartSession | null {
+    const key = this.cartKey(tableId);
     try {
-      const orderData = this.extractOrderData(response);
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
       
-      if (!orderData && response) {
-        return {
-          isSuccess: true,
-          data: {
-            id: Date.now(),
-            orderNumber: this.generateOrderNumber(),
-            status: 'confirmed',
-            estimatedTime: 15,
-            totalAmount: 0,
-            createdAt: new Date().toISOString(),
-            queuePosition: null
-          },
-          message: 'Order submitted successfully',
-          timestamp: new Date().toISOString()
-        };
+      const session = JSON.parse(stored) as StoredCartSession;
+      if (typeof session?.updatedAt !== 'number' || Date.now() - session.updatedAt > this.cartExpiryMs) {
+        localStorage.removeItem(key);
+        return null;
       }
-      
-      return {
-        isSuccess: response.isSuccess !== false,
-        data: {
-          id: orderData?.id || orderData?.uid || Date.now(),
-          orderNumber: orderData?.orderNumber || this.generateOrderNumber(),
-          status: 'confirmed',
-          estimatedTime: 15,
-          totalAmount: orderData?.totalAmount || 0,
-          createdAt: orderData?.createdAt || new Date().toISOString(),
-          queuePosition: null
-        },
-        message: response.message || 'Order placed successfully',
-        timestamp: new Date().toISOString()
-      };
-      
+      return { tableId, items: this.migrateCartItems(session.items), removed: session.removed ?? {}, updatedAt: session.updatedAt };
     } catch (error) {
-      console.error('❌ Error processing order response:', error);
-      return this.createFallbackOrderResponse();
+      console.error('Error loading cart:', error);
+      return null;
     }
   }
 
-  private extractOrderData(response: any): any {
-    if (response.payload) return response.payload;
-    if (response.data) return response.data;
-    if (response.order) return response.order;
-    if (response.result) return response.result;
-    if (response.id || response.uid) return response;
-    return null;
+  // Non-empty carts of the tenant's other tables
+  private readOtherSessions(tableId: string): StoredCartSession[] {
+    return this.storedTableIds()
+      .filter(other => other !== tableId)
+      .map(other => this.readSession(other))
+      .filter((session): session is StoredCartSession => !!session && session.items.length > 0);
   }
 
-  private createFallbackOrderResponse(): OrderResponse {
-    return {
-      isSuccess: true,
-      data: {
-        id: Date.now(),
-        orderNumber: this.generateOrderNumber(),
-        status: 'confirmed',
-        estimatedTime: 15,
-        totalAmount: 0,
-        createdAt: new Date().toISOString(),
-        queuePosition: null
-      },
-      message: 'Order submitted successfully (offline mode)',
-      timestamp: new Date().toISOString(),
-      isOffline: true
-    };
+  private purgeExpiredSessions(): void {
+    // Reading a session removes it when it has expired
+    this.storedTableIds().forEach(tableId => this.readSession(tableId));
   }
 
-  private generateOrderNumber(): string {
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-    return `HB${timestamp}${random}`;
+  private storedTableIds(): string[] {
+    const prefix = this.cartKey('');
+    const tableIds: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) {
+        tableIds.push(key.slice(prefix.length));
+      }
+    }
+    return tableIds;
   }
 
-  private logAvailableResponseKeys(response: any): void {
-    console.log('Available response keys:', Object.keys(response || {}));
-    if (response?.payload) {
-      console.log('Payload keys:', Object.keys(response.payload || {}));
-    }
-    if (response?.data) {
-      console.log('Data keys:', Object.keys(response.data || {}));
+  private saveCartToStorage(updatedAt: number = Date.now()): void {
+    this.cartUpdatedAt = updatedAt;
+    if (!this.tableId) return;
+    
+    this.removedLines = pruneRemovedLines(this.removedLines, updatedAt - this.cartExpiryMs);
+    const session: StoredCartSession = { tableId: this.tableId, items: this.cartSubject.value, removed: this.removedLines, updatedAt };
+    try {
+      localStorage.setItem(this.cartKey(this.tableId), JSON.stringify(session));
+    } catch (error) {
+      console.error('Error saving cart:', error);
     }
   }
 
-  // =============== COMPLETE EXISTING METHODS IMPLEMENTATION ===============
-
-  private extractDescription(apiProduct: any): string {
-    const description = apiProduct.description || 
-                      apiProduct.productDescription || 
-                      apiProduct.alias || 
-                      `Delicious ${apiProduct.name}`;
-    
-    return description.replace(/[^\w\s\-.,!?]/g, '').trim();
+  // Saves a change made here and hands it to whoever shares the cart
+  private commitCartChange(): void {
+    this.saveCartToStorage();
+    this.cartChangeSubject.next(this.getCartSnapshot());
   }
 
-  private extractPriceEnhanced(apiProduct: any): number {
-    console.log('💰 Enhanced price extraction for:', apiProduct.name);
-    
-    // PRIORITATE 1: LocationPrices
-    if (apiProduct.locationPrices && Array.isArray(apiProduct.locationPrices) && apiProduct.locationPrices.length > 0) {
-      for (const locationPrice of apiProduct.locationPrices) {
-        if (locationPrice && typeof locationPrice.unitPriceWithVat === 'number' && locationPrice.unitPriceWithVat > 0) {
-          console.log('✅ Price from locationPrices.unitPriceWithVat:', locationPrice.unitPriceWithVat);
-          return Math.round(locationPrice.unitPriceWithVat * 100) / 100;
-        }
-        
-        if (locationPrice && typeof locationPrice.price === 'number' && locationPrice.price > 0) {
-          console.log('✅ Price from locationPrices.price:', locationPrice.price);
-          return Math.round(locationPrice.price * 100) / 100;
-        }
+  /**
+   * Brings carts saved by older versions up to date. Those were keyed on `id`, which
+   * could be random: lines are re-keyed on the product uid, options and instructions
+   * (merging duplicates) and lines without a uid are dropped, since nothing tells
+   * which product they meant. Lines without a price are dropped too; they could
+   * never be ordered.
+   */
+  migrateCartItems(items: unknown): CartItem[] {
+    if (!Array.isArray(items)) return [];
+
+    const migrated: CartItem[] = [];
+    for (const item of items as Partial<CartItem>[]) {
+      if (!item?.uid || typeof item.quantity !== 'number' || item.quantity <= 0) {
+        console.warn('⚠️ Dropping saved cart line without a product uid:', item?.name);
+        continue;
+      }
+      // Versions before Money saved the price as a decimal amount
+      const saved: unknown = item.price;
+      const price = typeof saved === 'number' ? moneyOf(saved) : saved;
+      if (!isMoney(price) || !isPriced({ price, unpricedReason: item.unpricedReason })) {
+        console.warn('⚠️ Dropping saved cart line without a price:', item.name);
+        continue;
+      }
+
+      const toppings = savedModifiers(item.toppings);
+      const specialInstructions = normalizeInstructions(item.specialInstructions) || undefined;
+      const diner = typeof item.diner === 'string' && item.diner.trim() ? item.diner.trim() : undefined;
+      const lineId = cartLineId(item.uid, toppings, specialInstructions, diner);
+      const existing = migrated.find(line => line.lineId === lineId);
+      if (existing) {
+        existing.quantity += item.quantity;
+        existing.changedAt = Math.max(existing.changedAt ?? 0, item.changedAt ?? 0);
+        continue;
       }
+
+      migrated.push({ ...item, price, lineId, toppings, specialInstructions, diner, id: stableProductId(item.rawApiData?.id, item.uid) } as CartItem);
     }
-    
-    // PRIORITATE 2: UnitPriceWithVat la nivel de produs
-    if (typeof apiProduct.unitPriceWithVat === 'number' && apiProduct.unitPriceWithVat > 0) {
-      console.log('✅ Price from product.unitPriceWithVat:', apiProduct.unitPriceWithVat);
-      return Math.round(apiProduct.unitPriceWithVat * 100) / 100;
+    return migrated;
+  }
+
+  private removeCartFromStorage(): void {
+    if (this.tableId) {
+      localStorage.removeItem(this.cartKey(this.tableId));
     }
-    
-    // PRIORITATE 3: Alte câmpuri de preț
-    const priceFields = ['price', 'unitPrice', 'cost', 'amount', 'basePrice'];
-    for (const field of priceFields) {
-      const value = apiProduct[field];
-      if (typeof value === 'number' && value > 0) {
-        console.log(`✅ Price from ${field}:`, value);
-        return Math.round(value * 100) / 100;
-      }
-      
-      if (typeof value === 'string') {
-        const parsed = parseFloat(value);
-        if (!isNaN(parsed) && parsed > 0) {
-          console.log(`✅ Price parsed from ${field}:`, parsed);
-          return Math.round(parsed * 100) / 100;
-        }
+  }
+
+  /**
+   * Another tab wrote the stored cart of the open table: merge it into ours, last
+   * change per line wins. Ours is written back only when it had newer changes, so
+   * the tabs do not keep answering each other.
+   */
+  private onCartStorageEvent(event: StorageEvent): void {
+    if (!this.tableId || event.storageArea !== localStorage) return;
+    if (event.key !== null && event.key !== this.cartKey(this.tableId)) return;
+    
+    const session = event.key === null ? null : this.readSession(this.tableId);
+    if (!session) {
+      // Cleared, ordered or expired in the other tab
+      if (this.cartSubject.value.length > 0) {
+        console.log('🔄 Cart emptied in another tab');
       }
+      this.removedLines = {};
+      this.cartUpdatedAt = 0;
+      this.cartSubject.next([]);
+      return;
     }
     
-    // FALLBACK: Preț generat pe categorii
-    const categoryPrice = this.generateCategoryBasedPrice(apiProduct);
-    console.log('⚠️ Using category-based fallback price:', categoryPrice);
-    return categoryPrice;
+    console.log('🔄 Cart updated from another tab');
+    if (this.mergeCart({ items: session.items, removed: session.removed ?? {} })) {
+      this.commitCartChange();
+    } else {
+      this.cartUpdatedAt = session.updatedAt;
+    }
   }
 
-  private generateCategoryBasedPrice(apiProduct: any): number {
-    const category = this.mapApiCategory(apiProduct);
-    const name = String(apiProduct.name || '').toLowerCase();
-    
-    const basePrices: { [key: string]: [number, number] } = {
-      'burgers': [15, 35],
-      'chicken': [12, 28],
-      'sides': [8, 18],
-      'drinks': [5, 12],
-      'desserts': [6, 15],
-      'other': [10, 25]
+  // Returns whether our copy had newer changes than the remote one
+  private mergeCart(remote: CartSnapshot<CartItem>): boolean {
+    const merged = mergeCartSnapshots({ items: this.cartSubject.value, removed: this.removedLines }, remote);
+    this.removedLines = merged.removed;
+    this.cartSubject.next(merged.items);
+    return merged.keptLocal;
+  }
+
+  // =============== ERROR HANDLING ===============
+
+  private classifyOrderError(error: unknown): OrderError {
+    if (error instanceof TimeoutError) {
+      return { kind: 'unconfirmed', status: 0, message: 'No answer from the restaurant in time' };
+    }
+    // The login or session answer could not be read, the order never went out
+    if (error instanceof ApiSchemaError) {
+      return { kind: 'auth', status: 0, message: error.message };
+    }
+    if (!(error instanceof HttpErrorResponse) && !(error instanceof ApiRequestError)) {
+      // Failed after the request went out, e.g. while reading the answer
+      return { kind: 'unconfirmed', status: 0, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const status = error.status;
+    const message = (error instanceof HttpErrorResponse ? errorMessageOf(error.error) : null) || error.message || 'Unknown error';
+
+    if (status === 0) return { kind: 'network', status, message };
+    if (status === 401 || status === 403) return { kind: 'auth', status, message };
+    if (status >= 400 && status < 500) return { kind: 'validation', status, message };
+    return { kind: 'server', status, message };
+  }
+
+  private createOrderFailure(error: OrderError): OrderResponse {
+    return {
+      isSuccess: false,
+      data: null,
+      message: error.message,
+      timestamp: new Date().toISOString(),
+      error,
+      shouldRetry: error.kind === 'network' || error.kind === 'server'
     };
+  }
+
+  // An answer we cannot read leaves it open whether the order exists
+  private processOrderResponse(response: unknown): OrderResponse {
+    console.log('🔍 Processing order response:', response);
     
-    const [min, max] = basePrices[category] || basePrices['other'];
+    let envelope: FreyaEnvelope<ClientOrderDto>;
+    try {
+      envelope = parse(clientOrderInsertResponseSchema, response, 'ClientOrder/Insert');
+    } catch (error) {
+      if (!(error instanceof ApiSchemaError)) throw error;
+      console.error('❌ Unreadable order response:', error.message);
+      return this.createOrderFailure({ kind: 'unconfirmed', status: 200, message: error.message });
+    }
     
-    let multiplier = 1;
-    if (name.includes('large') || name.includes('big') || name.includes('xl')) multiplier = 1.3;
-    if (name.includes('small') || name.includes('mini')) multiplier = 0.7;
-    if (name.includes('premium') || name.includes('deluxe') || name.includes('special')) multiplier = 1.5;
+    const orderData = envelope.payload;
+    if (!envelope.isSuccess || !orderData) {
+      return this.createOrderFailure({
+        kind: 'validation',
+        status: 200,
+        message: envelope.message || 'Order rejected by the server'
+      });
+    }
     
-    const basePrice = Math.random() * (max - min) + min;
-    return Math.round(basePrice * multiplier * 100) / 100;
+    return {
+      isSuccess: true,
+      data: {
+        id: orderData.id ?? orderData.uid,
+        orderNumber: orderData.orderNumber ?? orderData.number ?? orderData.uid,
+        status: orderData.status ?? orderData.statusName ?? 'submitted',
+        estimatedTime: orderData.estimatedTime ?? null,
+        totalAmount: orderData.totalAmount ?? 0,
+        createdAt: orderData.createdAt || orderData.addedAt || new Date().toISOString(),
+        queuePosition: orderData.queuePosition ?? null
+      },
+      message: envelope.message || 'Order placed successfully',
+      timestamp: new Date().toISOString()
+    };
   }
 
-  private mapApiCategory(apiProduct: any): string {
-    const name = String(apiProduct.name || '').toLowerCase();
-    const category = String(apiProduct.category || apiProduct.categoryName || '').toLowerCase();
-    const alias = String(apiProduct.alias || '').toLowerCase();
-    
-    const searchText = `${name} ${category} ${alias}`;
-    
-    if (searchText.includes('burger') || searchText.includes('big mac') || searchText.includes('whopper')) return 'burgers';
-    if (searchText.includes('chicken') || searchText.includes('wing') || searchText.includes('nugget')) return 'chicken';
-    if (searchText.includes('fries') || searchText.includes('ring') || searchText.includes('onion') || searchText.includes('potato')) return 'sides';
-    if (searchText.includes('cola') || searchText.includes('drink') || searchText.includes('juice') || searchText.includes('coffee') || searchText.includes('tea')) return 'drinks';
-    if (searchText.includes('ice cream') || searchText.includes('dessert') || searchText.includes('cake') || searchText.includes('pie')) return 'desserts';
+  // =============== COMPLETE EXISTING METHODS IMPLEMENTATION ===============
+
+  private extractDescription(apiProduct: ProductDto): string {
+    const description = apiProduct.description || 
+                      apiProduct.productDescription || 
+                      apiProduct.alias || 
+                      `Delicious ${apiProduct.name}`;
     
-    return 'other';
+    return description.replace(/[^\w\s\-.,!?]/g, '').trim();
   }
 
-  private generateImageUrlEnhanced(apiProduct: any): string {
+  private generateImageUrlEnhanced(apiProduct: ProductDto): string {
     console.log('🖼️ Enhanced image URL generation for:', apiProduct.name);
     
     const imageSource = this.getImageSource(apiProduct);
@@ -1013,14 +1276,14 @@ export class HesburgerApiService {
     }
   }
 
-  private getImageSource(apiProduct: any): { type: string; value: string } {
+  private getImageSource(apiProduct: ProductDto): { type: string; value: string } {
     // PRIORITATE 1: imageUid
-    if (apiProduct.imageUid && typeof apiProduct.imageUid === 'string' && apiProduct.imageUid.length > 10) {
+    if (apiProduct.imageUid && apiProduct.imageUid.length > 10) {
       return { type: 'imageUid', value: apiProduct.imageUid };
     }
     
     // PRIORITATE 2: image field cu base64
-    if (apiProduct.image && typeof apiProduct.image === 'string') {
+    if (apiProduct.image) {
       if (apiProduct.image.startsWith('data:image/')) {
         return { type: 'base64', value: apiProduct.image };
       }
@@ -1030,7 +1293,7 @@ export class HesburgerApiService {
     }
     
     // PRIORITATE 3: imageUrl direct
-    if (apiProduct.imageUrl && typeof apiProduct.imageUrl === 'string') {
+    if (apiProduct.imageUrl) {
       if (apiProduct.imageUrl.startsWith('data:image/')) {
         return { type: 'base64', value: apiProduct.imageUrl };
       }
@@ -1042,9 +1305,10 @@ export class HesburgerApiService {
     return { type: 'fallback', value: '' };
   }
 
-  private generateCategoryBasedImageUrl(apiProduct: any): string {
-    const category = this.mapApiCategory(apiProduct);
-    const id = apiProduct.id || Math.floor(Math.random() * 1000);
+  private generateCategoryBasedImageUrl(apiProduct: ProductDto): string {
+    const category = keywordCategoryFor(apiProduct.name, apiProduct.alias);
+    // Keeps the same stock photo variant for the product on every load
+    const id = stableProductId(apiProduct.id, apiProduct.uid);
     
     const categoryImages: { [key: string]: string } = {
       'burgers': `https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=300&h=200&fit=crop&crop=center&q=80&sig=${id}`,
@@ -1058,8 +1322,8 @@ export class HesburgerApiService {
     return categoryImages[category] || categoryImages['other'];
   }
 
-  private determinePopularity(apiProduct: any): boolean {
-    const name = String(apiProduct.name || '').toLowerCase();
+  private determinePopularity(apiProduct: ProductDto): boolean {
+    const name = apiProduct.name.toLowerCase();
     const sales = apiProduct.salesCount || apiProduct.popularity || 0;
     
     if (sales > 100) return true;
@@ -1067,12 +1331,12 @@ export class HesburgerApiService {
     if (name.includes('big') || name.includes('special') || name.includes('deluxe')) return true;
     if (name.includes('classic') || name.includes('original') || name.includes('famous')) return true;
     
-    return Math.random() > 0.75;
+    return false;
   }
 
-  private extractAllergens(apiProduct: any): string[] {
-    const name = String(apiProduct.name || '').toLowerCase();
-    const description = String(apiProduct.description || '').toLowerCase();
+  private extractAllergens(apiProduct: ProductDto): string[] {
+    const name = apiProduct.name.toLowerCase();
+    const description = (apiProduct.description || '').toLowerCase();
     const searchText = `${name} ${description}`;
     const allergens: string[] = [];
     
@@ -1095,9 +1359,9 @@ export class HesburgerApiService {
     return allergens;
   }
 
-  private estimatePreparationTime(apiProduct: any): number {
-    const category = this.mapApiCategory(apiProduct);
-    const name = String(apiProduct.name || '').toLowerCase();
+  private estimatePreparationTime(apiProduct: ProductDto): number {
+    const category = keywordCategoryFor(apiProduct.name, apiProduct.alias);
+    const name = apiProduct.name.toLowerCase();
     
     let baseTime = 5;
     
@@ -1117,7 +1381,7 @@ export class HesburgerApiService {
     return Math.min(30, Math.max(1, baseTime));
   }
 
-  private checkAvailability(apiProduct: any): boolean {
+  private checkAvailability(apiProduct: ProductDto): boolean {
     if (apiProduct.isAvailable === false) return false;
     if (apiProduct.available === false) return false;
     if (apiProduct.status === 'unavailable' || apiProduct.status === 'disabled') return false;
@@ -1131,12 +1395,12 @@ export class HesburgerApiService {
     return true;
   }
 
-  private extractLocationPrices(apiProduct: any): LocationPrice[] {
-    if (!apiProduct.locationPrices || !Array.isArray(apiProduct.locationPrices)) {
+  private extractLocationPrices(apiProduct: ProductDto): LocationPrice[] {
+    if (!apiProduct.locationPrices) {
       return [];
     }
     
-    return apiProduct.locationPrices.map((lp: any, index: number) => {
+    return apiProduct.locationPrices.map((lp, index) => {
       let price = 0;
       if (typeof lp.unitPriceWithVat === 'number' && lp.unitPriceWithVat > 0) {
         price = lp.unitPriceWithVat;
@@ -1149,15 +1413,14 @@ export class HesburgerApiService {
       return {
         locationUid: lp.locationUid || `loc_${index}`,
         locationName: lp.locationName || `Location ${index + 1}`,
-        price: Math.round(price * 100) / 100,
-        unitPrice: lp.unitPrice || lp.unitPriceWithVat,
-        currency: 'RON',
+        price: moneyOf(price),
         isActive: lp.isActive !== false
       };
-    }).filter((lp: LocationPrice) => lp.price > 0);
+    }).filter((lp: LocationPrice) => isPositive(lp.price));
   }
 
-  private transformToHesburgerFormat(orderData: Order): any {
+  private transformToHesburgerFormat(orderData: Order, locationUid: string): ClientOrderInsertRequestDto {
+    const { tenant } = this.config;
     const now = new Date().toISOString();
     const deliveryDate = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
     
@@ -1167,11 +1430,12 @@ export class HesburgerApiService {
       deliveryDate: deliveryDate,
       deliveryStartDate: deliveryDate,
       deliveryStopDate: null,
-      description: null,
+      description: normalizeInstructions(orderData.customerInfo?.specialRequests, ORDER_REQUESTS_MAX_LENGTH) || null,
       isVoid: false,
+      // Discounts go on the items they come off, so none is taken twice
       discountPercent: 0,
       client: {
-        uid: "cdb9c924139c464ca7826cb8e1a676f9",
+        uid: tenant.client.uid,
         deliveryAddress: {
           clientUid: null,
           clientName: null,
@@ -1187,13 +1451,8 @@ export class HesburgerApiService {
           floor: null,
           apartment: null,
           zipCode: null,
-          countryName: "Romania",
-          countryUid: "c41e27deddc14097b625317759783a9f",
-          districtName: "Alba",
-          districtUid: "8125f528844b40308346126f93697a47",
-          cityName: "Abrud",
-          cityUid: "821da644b0e54851874510a579fe175b",
-          uid: "91102105af634f6d8760cf27c08cf5a7",
+          ...tenant.client.address,
+          uid: tenant.client.deliveryAddressUid,
           isDisabled: false,
           addedAt: null,
           addedBy: null,
@@ -1201,41 +1460,37 @@ export class HesburgerApiService {
           modifiedBy: null
         }
       },
-      billingClientUid: "cdb9c924139c464ca7826cb8e1a676f9",
+      billingClientUid: tenant.billingClient.uid,
       billingClient: {
         accounts: [],
         products: [],
         addresses: [],
-        fidelityCard: null,
+        fidelityCard: orderData.loyalty?.card ?? null,
         parentUids: [],
         blockedPaymentMethods: [],
-        name: "TEST PREZENTARI",
+        name: tenant.billingClient.name,
         clientGroupUid: null,
         clientGroupName: null,
         description: null,
-        uniqueCode: "RO48599614",
-        identificationCode: "J40/14578/2023",
+        uniqueCode: tenant.billingClient.uniqueCode,
+        identificationCode: tenant.billingClient.identificationCode,
         phone: orderData.customerInfo?.phone || "-",
-        email: orderData.customerInfo?.email || "taner.atlatirlar@hesburger.fi",
+        email: orderData.customerInfo?.email || tenant.billingClient.email,
         discountPercent: null,
         vatCollecting: null,
         vatPayer: null,
         orderFlag: 2147483647,
         defaultDeadlineDays: 30,
         birthDate: null,
-        countryName: "Romania",
-        countryUid: "c41e27deddc14097b625317759783a9f",
-        districtName: "Bucuresti",
-        districtUid: "a31d13bdb2334f069388cecc873b7429",
-        cityName: "Bucuresti",
-        cityUid: "4b65594947dc4d33980737d6265d19dc",
+        ...tenant.billingClient.address,
         streetName: null,
         streetNo: null,
         imageUid: null,
         parentUid: null,
         fullAddress: null,
         isGovernmentInstitution: false,
-        totalPromoPoints: 0,
+        // The card's balance once the order is settled
+        totalPromoPoints: orderData.loyalty ? orderData.loyalty.balance - orderData.loyalty.redeemedPoints + orderData.loyalty.earnedPoints : 0,
         isJuridicPerson: true,
         zipCode: null,
         vatName: null,
@@ -1243,63 +1498,124 @@ export class HesburgerApiService {
         gender: null,
         signatureUid: null,
         isExternalClient: false,
-        uid: "cdb9c924139c464ca7826cb8e1a676f9",
+        uid: tenant.billingClient.uid,
         isDisabled: false,
-        addedAt: "2024-10-14T10:27:45.531515+03:00",
-        addedBy: "Bogdan Vasile",
+        addedAt: tenant.billingClient.addedAt,
+        addedBy: tenant.billingClient.addedBy,
         modifiedAt: null,
         modifiedBy: null
       },
-      items: orderData.items.map((item: CartItem) => ({
+      items: [...orderData.items.map((item: CartItem) => ({
         uid: null,
-        description: null,
+        description: itemDescription(
+          (item.toppings ?? []).filter(topping => topping.kind === 'removal').map(topping => topping.name),
+          item.specialInstructions,
+          item.diner
+        ),
         parentProductUid: null,
         productName: item.name,
-        productUid: item.uid || item.id.toString(),
-        vatRate: 0,
+        productUid: item.uid,
+        vatRate: vatRateToPercent(this.itemVatRate(orderData, item)),
         units: 1,
         quantity: item.quantity,
         finalQuantity: item.quantity,
-        unitPriceWithVat: item.price,
-        discountValue: 0,
-        discountPercent: 0,
+        unitPriceWithVat: toMajor(item.price),
+        ...this.itemDiscount(orderData, item),
         discountType: 0,
         addedAt: now,
-        toppings: item.toppings || [],
+        toppings: this.transformToppings(item),
         collectibleUnits: 0,
         isRetuRo: false
-      })),
+      })), ...this.serviceFeeItems(orderData, now)],
       payments: [],
-      email: orderData.customerInfo?.email || "taner.atlatirlar@hesburger.fi",
-      locationUid: "1b252fdf4fba4629a1f4d2d80167a02c",
+      email: orderData.customerInfo?.email || tenant.billingClient.email,
+      locationUid,
       clientOrderSourceUid: null,
-      deliveryTax: 0,
+      deliveryTax: this.deliveryTax(orderData),
       deliveryHours: 2,
       collectibleUnits: 0,
       isRetuRo: false
     };
   }
 
+  // As priced for the order; orders queued by older versions fall back to the product
+  private itemVatRate(orderData: Order, item: CartItem): number {
+    const pricedLine = orderData.pricing?.lines.find(line => line.lineId === item.lineId);
+    return pricedLine?.vatRate ?? item.vatRate ?? this.config.tenant.pricing?.vatRate ?? 0;
+  }
+
+  // Off the whole line, VAT included; discountType 0 takes the value, the percent says the same
+  private itemDiscount(orderData: Order, item: CartItem): { discountValue: number; discountPercent: number } {
+    const pricedLine = orderData.pricing?.lines.find(line => line.lineId === item.lineId);
+    if (!pricedLine || !isPositive(pricedLine.discount)) {
+      return { discountValue: 0, discountPercent: 0 };
+    }
+    return {
+      discountValue: toMajor(pricedLine.discount),
+      discountPercent: Math.round(pricedLine.discount.amount / pricedLine.total.amount * 10000) / 100
+    };
+  }
+
+  // The service fee is ordered as the tenant's service product, when it has one
+  private serviceFeeItems(orderData: Order, addedAt: string): ClientOrderItemDto[] {
+    const product = this.config.tenant.pricing?.serviceFeeProduct;
+    if (!product || !orderData.pricing || !isPositive(orderData.pricing.serviceFee)) {
+      return [];
+    }
+    return [{
+      uid: null,
+      description: null,
+      parentProductUid: null,
+      productName: product.name,
+      productUid: product.uid,
+      vatRate: vatRateToPercent(this.config.tenant.pricing?.vatRate ?? 0),
+      units: 1,
+      quantity: 1,
+      finalQuantity: 1,
+      unitPriceWithVat: toMajor(orderData.pricing.serviceFee),
+      discountValue: 0,
+      discountPercent: 0,
+      discountType: 0,
+      addedAt,
+      toppings: [],
+      collectibleUnits: 0,
+      isRetuRo: false
+    }];
+  }
+
+  // The one charge Freya takes on the order itself; a service fee without a product
+  // to order it as goes with it. Orders queued by older versions were not priced.
+  private deliveryTax(orderData: Order): number {
+    const { pricing } = orderData;
+    if (!pricing) return 0;
+    return toMajor(this.config.tenant.pricing?.serviceFeeProduct ? pricing.deliveryFee : add(pricing.deliveryFee, pricing.serviceFee));
+  }
+
+  // Added toppings and chosen variants, each priced per unit of the item
+  private transformToppings(item: CartItem): ClientOrderToppingDto[] {
+    return (item.toppings ?? [])
+      .filter(topping => topping.kind !== 'removal')
+      .map(topping => ({
+        productUid: topping.optionUid,
+        productName: topping.name,
+        parentProductUid: item.uid,
+        quantity: 1,
+        unitPriceWithVat: toMajor(topping.priceDelta)
+      }));
+  }
+
   // =============== ADDITIONAL IMAGE METHODS ===============
 
   getImageAsDataUrl(imageUid: string): Observable<string> {
     console.log('🖼️ Fetching image with auth headers:', imageUid);
     
-    const requestFn = () => {
-      const imageUrl = `${this.BaseURL}/file/getImage?imageUid=${imageUid}`;
-      
-      return this.http.get(imageUrl, {
-        ...this.httpOptions,
-        responseType: 'blob'
-      }).pipe(
-        map((blob: Blob) => {
-          console.log('✅ Image blob received, size:', blob.size, 'bytes');
-          return URL.createObjectURL(blob);
-        })
-      );
-    };
-
-    return this.makeAuthenticatedRequest(requestFn).pipe(
+    const imageUrl = `${this.BaseURL}/file/getImage?imageUid=${imageUid}`;
+    
+    return this.http.get(imageUrl, { responseType: 'blob' }).pipe(
+      map((blob: Blob) => {
+        console.log('✅ Image blob received, size:', blob.size, 'bytes');
+        return URL.createObjectURL(blob);
+      }),
       catchError(error => {
         console.error('❌ Image fetch failed:', error);
         return throwError(() => error);
@@ -1315,59 +1631,29 @@ export class HesburgerApiService {
     return this.getSellingProducts().pipe(
       map(products => {
         const product = products.find(p => p.id == productId || p.uid === productId);
-        if (!product) {
+        const raw = product?.rawApiData;
+        if (!product || !raw) {
           console.log('❌ Product not found:', productId);
           return null;
         }
         
         console.log('🔍 === PRODUCT DEBUG INFO ===');
         console.log('- Transformed product:', product);
-        console.log('- Raw API data:', product.rawApiData);
-        console.log('- Price source analysis:', this.analyzePriceSource(product.rawApiData));
-        console.log('- Image source analysis:', this.getImageSource(product.rawApiData));
+        console.log('- Raw API data:', raw);
+        console.log('- Price resolution:', resolveProductPrice(raw, this.requireLocation().uid));
+        console.log('- Image source analysis:', this.getImageSource(raw));
         console.log('- Location prices:', product.locationPrices);
         console.log('============================');
         
         return {
           transformed: product,
-          raw: product.rawApiData,
-          priceAnalysis: this.analyzePriceSource(product.rawApiData),
-          imageAnalysis: this.getImageSource(product.rawApiData)
+          raw,
+          priceResolution: resolveProductPrice(raw, this.requireLocation().uid),
+          imageAnalysis: this.getImageSource(raw)
         };
       })
     );
   }
-
-  private analyzePriceSource(apiProduct: any): any {
-    const analysis = {
-      locationPrices: apiProduct.locationPrices,
-      unitPriceWithVat: apiProduct.unitPriceWithVat,
-      directPriceFields: {} as { [key: string]: any },
-      recommendedSource: 'unknown'
-    };
-    
-    const priceFields = ['price', 'unitPrice', 'cost', 'amount', 'basePrice'];
-    priceFields.forEach(field => {
-      if (apiProduct[field] !== undefined) {
-        analysis.directPriceFields[field] = apiProduct[field];
-      }
-    });
-    
-    if (apiProduct.locationPrices && Array.isArray(apiProduct.locationPrices) && apiProduct.locationPrices.length > 0) {
-      analysis.recommendedSource = 'locationPrices';
-    } else if (typeof apiProduct.unitPriceWithVat === 'number' && apiProduct.unitPriceWithVat > 0) {
-      analysis.recommendedSource = 'unitPriceWithVat';
-    } else {
-      for (const field of priceFields) {
-        if (typeof apiProduct[field] === 'number' && apiProduct[field] > 0) {
-          analysis.recommendedSource = field;
-          break;
-        }
-      }
-    }
-    
-    return analysis;
-  }
 }
 
 // =============== EXPORTS ===============
@@ -1,16 +0,0 @@
-import { TestBed } from '@angular/core/testing';
-
-import { Api } from './api';
-
-describe('Api', () => {
-  let service: Api;
-
-  beforeEach(() => {
-    TestBed.configureTestingModule({});
-    service = TestBed.inject(Api);
-  });
-
-  it('should be created', () => {
-    expect(service).toBeTruthy();
-  });
-});
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { of } from 'rxjs';
+import { AppConfig, TenantConfig, provideAppConfig } from '../config/app-config';
+import { AuthService } from './auth.service';
+
+describe('AuthService token timers', () => {
+  const config: AppConfig = {
+    environment: { name: 'test', apiBaseUrl: '/api', apiKey: 'key', authMode: 'direct', credentials: { username: 'dev', password: 'dev' } },
+    tenant: { id: 'test', brand: 'Test', locations: [] } as unknown as TenantConfig
+  };
+  // Refresh lead and safety margin of the service
+  const LEAD_MS = 2 * 60 * 1000;
+  const MARGIN_MS = 30 * 1000;
+  const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+  let auth: AuthService;
+  let http: HttpTestingController;
+  let refresh: jasmine.Spy;
+
+  // Logs in with a token lasting `expiresIn` seconds, then watches for refreshes
+  function logIn(expiresIn: number): void {
+    auth.refresh().subscribe();
+    http.expectOne('/api/login').flush({ isSuccess: true, message: null, payload: { token: 'token', expiresIn } });
+    refresh = spyOn(auth, 'refresh').and.returnValue(of(undefined));
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem('hesburger_auth_token');
+    localStorage.removeItem('hesburger_token_expiry');
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2026-01-01T12:00:00Z'));
+
+    TestBed.configureTestingModule({
+      providers: [provideAppConfig(config), provideHttpClient(), provideHttpClientTesting()]
+    });
+    auth = TestBed.inject(AuthService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    jasmine.clock().uninstall();
+    localStorage.removeItem('hesburger_auth_token');
+    localStorage.removeItem('hesburger_token_expiry');
+  });
+
+  it('refreshes shortly before the token expires and drops it when it does', () => {
+    logIn(3600);
+    const lifetime = 3600 * 1000 - MARGIN_MS;
+
+    jasmine.clock().tick(lifetime - LEAD_MS - 1);
+    expect(refresh).not.toHaveBeenCalled();
+    jasmine.clock().tick(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    expect(auth.hasValidCredentials()).toBeTrue();
+    jasmine.clock().tick(LEAD_MS);
+    expect(auth.hasValidCredentials()).toBeFalse();
+    expect(auth.currentCredential()).toBeNull();
+  });
+
+  it('refreshes halfway through a token shorter than the refresh lead', () => {
+    logIn(90);
+    const lifetime = 90 * 1000 - MARGIN_MS;
+
+    jasmine.clock().tick(lifetime / 2 - 1);
+    expect(refresh).not.toHaveBeenCalled();
+    jasmine.clock().tick(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits out a token lasting longer than a timer can in several steps', () => {
+    const days = 60;
+    logIn(days * 24 * 60 * 60);
+    const lifetime = days * 24 * 60 * 60 * 1000 - MARGIN_MS;
+
+    // An overflowing setTimeout would fire at once
+    jasmine.clock().tick(0);
+    expect(refresh).not.toHaveBeenCalled();
+
+    jasmine.clock().tick(MAX_TIMER_DELAY_MS);
+    expect(refresh).not.toHaveBeenCalled();
+    expect(auth.hasValidCredentials()).toBeTrue();
+
+    jasmine.clock().tick(lifetime - LEAD_MS - MAX_TIMER_DELAY_MS - 1);
+    expect(refresh).not.toHaveBeenCalled();
+    jasmine.clock().tick(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(auth.hasValidCredentials()).toBeTrue();
+  });
+
+  it('schedules the timers of a token loaded from storage', () => {
+    localStorage.setItem('hesburger_auth_token', 'stored');
+    localStorage.setItem('hesburger_token_expiry', String(Date.now() + 10 * 60 * 1000));
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [provideAppConfig(config), provideHttpClient(), provideHttpClientTesting()]
+    });
+    auth = TestBed.inject(AuthService);
+    http = TestBed.inject(HttpTestingController);
+    refresh = spyOn(auth, 'refresh').and.returnValue(of(undefined));
+
+    jasmine.clock().tick(8 * 60 * 1000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    jasmine.clock().tick(2 * 60 * 1000);
+    expect(auth.hasValidCredentials()).toBeFalse();
+  });
+});
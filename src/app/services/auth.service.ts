@@ -0,0 +1,446 @@
+import { Inject, Injectable, NgZone } from '@angular/core';
+import { HttpClient, HttpContext, HttpContextToken, HttpErrorResponse, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap, timeout } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { ApiSchemaError, parse } from '../api/schema';
+import { loginResponseSchema, tableSessionResponseSchema } from '../api/freya-dto';
+
+// Requests carrying this flag go out untouched (login / session requests themselves)
+export const SKIP_AUTH = new HttpContextToken<boolean>(() => false);
+
+// Refresh this long before the token expires
+const REFRESH_LEAD_MS = 2 * 60 * 1000;
+// Treat the token as expired this much earlier, to absorb clock skew and request latency
+const EXPIRY_SAFETY_MARGIN_MS = 30 * 1000;
+// Used only when neither the token nor the login payload says when it expires
+const DEFAULT_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+// The signed code of a table's QR link (?t=), kept for the browser session per table
+const TABLE_TOKEN_KEY_PREFIX = 'hesburger_table_token:';
+// Longest delay setTimeout takes; past it the timer fires at once
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface JwtClaims {
+  exp?: number;
+  iat?: number;
+}
+
+export class ApiRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/**
+ * Owns the credentials used against the Freya API: the bearer token in direct mode,
+ * the table-session cookie in BFF mode. The auth interceptor asks it for headers and
+ * for a refresh when a request comes back 401.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly BaseURL: string;
+  private readonly ApiKey: string;
+  private readonly usesBff: boolean;
+
+  private authToken: string | null = null;
+  // Local-clock time at which the token expires (already corrected for skew)
+  private tokenExpiryTime: number = 0;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // BFF mode: the session lives in an HttpOnly cookie, we only track its expiry
+  private tableId: string | null = null;
+  private sessionExpiryTime: number = 0;
+
+  // The one refresh every waiting request subscribes to
+  private refreshInFlight$: Observable<void> | null = null;
+
+  constructor(
+    private http: HttpClient,
+    private zone: NgZone,
+    @Inject(APP_CONFIG) private config: AppConfig
+  ) {
+    this.BaseURL = config.environment.apiBaseUrl;
+    this.ApiKey = config.environment.apiKey;
+    this.usesBff = config.environment.authMode === 'bff';
+
+    this.loadTokenFromStorage();
+    this.debugTokenState();
+  }
+
+  // =============== INTERCEPTOR HOOKS ===============
+
+  isApiRequest(url: string): boolean {
+    return url.startsWith(this.BaseURL);
+  }
+
+  hasValidCredentials(): boolean {
+    if (this.usesBff) return Date.now() < this.sessionExpiryTime;
+    return this.isTokenStillValid();
+  }
+
+  // Credential the request was sent with, so a late 401 does not trigger a second refresh
+  currentCredential(): string | null {
+    return this.usesBff ? String(this.sessionExpiryTime) : this.authToken;
+  }
+
+  authorize(request: HttpRequest<unknown>): HttpRequest<unknown> {
+    if (this.usesBff) {
+      // Credentials are added by the backend-for-frontend
+      return request;
+    }
+
+    const headers: { [name: string]: string } = { 'ApiKey': this.ApiKey };
+    if (this.authToken) {
+      headers['Authorization'] = `Bearer ${this.authToken}`;
+    }
+    return request.clone({ setHeaders: headers });
+  }
+
+  ensureAuthenticated(): Observable<void> {
+    return this.hasValidCredentials() ? of(undefined) : this.refresh();
+  }
+
+  /**
+   * Starts a refresh, or joins the one already running. When `staleCredential` is
+   * given and the credential changed meanwhile, another request already refreshed it.
+   */
+  refresh(staleCredential?: string | null): Observable<void> {
+    if (staleCredential !== undefined && staleCredential !== this.currentCredential() && this.hasValidCredentials()) {
+      return of(undefined);
+    }
+
+    if (!this.refreshInFlight$) {
+      console.log('🔄 Refreshing authentication...');
+      this.clearToken();
+      this.refreshInFlight$ = this.login().pipe(
+        map(() => undefined),
+        finalize(() => this.refreshInFlight$ = null),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+    }
+
+    return this.refreshInFlight$;
+  }
+
+  // =============== LOGIN ===============
+
+  // Table the API calls are made for; in BFF mode each table gets its own session,
+  // opened with the code of the table's QR link when the page was opened from one
+  setTableId(tableId: string, tableToken?: string | null): void {
+    if (tableToken) {
+      sessionStorage.setItem(TABLE_TOKEN_KEY_PREFIX + tableId, tableToken);
+    }
+    if (this.tableId !== tableId) {
+      this.tableId = tableId;
+      this.sessionExpiryTime = 0;
+    }
+  }
+
+  // In BFF mode requests are made for the table of the open session only
+  canOrderFor(tableId: string): boolean {
+    return !this.usesBff || this.tableId === tableId;
+  }
+
+  private login(): Observable<unknown> {
+    return this.usesBff ? this.openTableSession() : this.loginWithCredentials();
+  }
+
+  private loginWithCredentials(): Observable<unknown> {
+    console.log('🔐 Attempting login to Hesburger API...');
+
+    const loginData = this.config.environment.credentials;
+    if (!loginData) {
+      return throwError(() => new ApiRequestError(`No API credentials configured for ${this.config.environment.name}`, 401));
+    }
+
+    return this.http.post(`${this.BaseURL}/login`, loginData, {
+      headers: { 'ApiKey': this.ApiKey },
+      context: new HttpContext().set(SKIP_AUTH, true),
+      observe: 'response'
+    }).pipe(
+      timeout(10000),
+      tap((httpResponse: HttpResponse<unknown>) => {
+        console.log('✅ Login response received');
+        const response = parse(loginResponseSchema, httpResponse.body, 'login');
+
+        if (!response.isSuccess || !response.payload) {
+          throw new ApiRequestError(response.message || 'Login refused', 401);
+        }
+
+        const { token, expiresIn } = response.payload;
+        this.setAuthToken(token, expiresIn ?? null, httpResponse.headers.get('Date'));
+        console.log('🔑 Auth token set successfully');
+      }),
+      catchError(error => {
+        console.error('❌ Login failed:', error);
+        return this.handleError(error);
+      })
+    );
+  }
+
+  private openTableSession(): Observable<unknown> {
+    if (!this.tableId) {
+      return throwError(() => new ApiRequestError('No table selected for this session', 401));
+    }
+
+    console.log('🎫 Opening table session for table:', this.tableId);
+
+    const token = sessionStorage.getItem(TABLE_TOKEN_KEY_PREFIX + this.tableId) ?? undefined;
+    return this.http.post<unknown>(`${this.BaseURL}/session`, { tableId: this.tableId, token }, {
+      context: new HttpContext().set(SKIP_AUTH, true)
+    }).pipe(
+      timeout(10000),
+      tap(body => {
+        const response = parse(tableSessionResponseSchema, body, 'session');
+
+        if (!response.isSuccess || !response.payload) {
+          throw new ApiRequestError(response.message || 'Table session refused', 401);
+        }
+
+        this.sessionExpiryTime = Date.parse(response.payload.expiresAt) || 0;
+        console.log('✅ Table session open until:', new Date(this.sessionExpiryTime));
+      }),
+      catchError(error => {
+        console.error('❌ Opening table session failed:', error);
+        return this.handleError(error);
+      })
+    );
+  }
+
+  forceReauth(): Observable<void> {
+    console.log('🔄 Forcing fresh authentication...');
+    return this.refresh();
+  }
+
+  // =============== TOKEN HANDLING ===============
+
+  private isTokenStillValid(): boolean {
+    if (!this.authToken) return false;
+    const now = Date.now();
+    const isValid = now < this.tokenExpiryTime;
+
+    if (!isValid) {
+      console.log('⏰ Token has expired:', {
+        now: new Date(now),
+        expiry: new Date(this.tokenExpiryTime),
+        expired: (now - this.tokenExpiryTime) / 1000 / 60 + ' minutes ago'
+      });
+    }
+
+    return isValid;
+  }
+
+  private isTokenNearExpiry(): boolean {
+    if (!this.authToken) return false;
+    return Date.now() + REFRESH_LEAD_MS >= this.tokenExpiryTime;
+  }
+
+  /**
+   * Works out when the token expires on the local clock. An explicit `expiresIn`
+   * from the login payload is relative and needs no skew correction; otherwise the
+   * `exp` claim is shifted by the difference between our clock and the server's
+   * (from the `iat` claim, or the response Date header when readable).
+   */
+  private setAuthToken(token: string, expiresIn: number | null, serverDate: string | null): void {
+    const cleanToken = token.replace(/^Bearer\s+/i, '').trim();
+    const receivedAt = Date.now();
+    const claims = decodeJwtClaims(cleanToken);
+
+    let expiry: number;
+    if (expiresIn !== null && expiresIn > 0) {
+      expiry = receivedAt + expiresIn * 1000;
+    } else if (typeof claims?.exp === 'number') {
+      const serverNow = typeof claims.iat === 'number' ? claims.iat * 1000 : Date.parse(serverDate || '');
+      const skew = Number.isNaN(serverNow) ? 0 : receivedAt - serverNow;
+      expiry = claims.exp * 1000 + skew;
+      console.log('🕒 Clock skew vs server:', Math.round(skew / 1000), 'seconds');
+    } else {
+      console.warn('⚠️ Token carries no expiry, assuming', DEFAULT_TOKEN_LIFETIME_MS / 60000, 'minutes');
+      expiry = receivedAt + DEFAULT_TOKEN_LIFETIME_MS;
+    }
+
+    this.authToken = cleanToken;
+    this.tokenExpiryTime = expiry - EXPIRY_SAFETY_MARGIN_MS;
+    this.saveTokenToStorage();
+    this.scheduleTokenTimers();
+
+    console.log('💾 Token stored successfully');
+    console.log('- Token length:', cleanToken.length);
+    console.log('- Expires at:', new Date(this.tokenExpiryTime));
+  }
+
+  // One timer refreshes shortly before expiry, the other drops the token the moment it expires
+  private scheduleTokenTimers(): void {
+    this.clearTokenTimers();
+    if (!this.authToken) return;
+
+    const remaining = this.tokenExpiryTime - Date.now();
+    const refreshIn = Math.max(0, remaining - Math.min(REFRESH_LEAD_MS, remaining / 2));
+
+    // Outside Angular so pending timers do not keep the app from becoming stable
+    this.zone.runOutsideAngular(() => {
+      // A token lasting longer than a timer can wait: wait as long as it can, then schedule again
+      if (remaining > MAX_TIMER_DELAY_MS) {
+        this.expiryTimer = setTimeout(() => this.scheduleTokenTimers(), MAX_TIMER_DELAY_MS);
+        return;
+      }
+
+      this.refreshTimer = setTimeout(() => this.zone.run(() => {
+        console.log('🔄 Token is near expiry, auto-refreshing...');
+        this.refresh().subscribe({
+          next: () => console.log('✅ Token auto-refreshed successfully'),
+          error: (error) => console.error('❌ Auto-refresh failed:', error)
+        });
+      }), refreshIn);
+
+      this.expiryTimer = setTimeout(() => this.zone.run(() => {
+        console.log('⏰ Token expired, clearing it');
+        this.clearToken();
+      }), Math.max(0, remaining));
+    });
+  }
+
+  private clearTokenTimers(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.refreshTimer = null;
+    this.expiryTimer = null;
+  }
+
+  // =============== TOKEN STORAGE ===============
+
+  private saveTokenToStorage(): void {
+    try {
+      localStorage.setItem('hesburger_auth_token', this.authToken || '');
+      localStorage.setItem('hesburger_token_expiry', this.tokenExpiryTime.toString());
+      console.log('💾 Token saved to localStorage');
+    } catch (error) {
+      console.error('❌ Error saving token:', error);
+    }
+  }
+
+  private loadTokenFromStorage(): void {
+    if (this.usesBff) {
+      // Nothing to load - and nothing from an older direct-mode build should linger
+      this.clearToken();
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('hesburger_auth_token');
+      const expiry = localStorage.getItem('hesburger_token_expiry');
+
+      if (token && expiry) {
+        this.authToken = token;
+        this.tokenExpiryTime = parseInt(expiry);
+
+        if (!this.isTokenStillValid()) {
+          console.log('⚠️ Stored token is expired, clearing...');
+          this.clearToken();
+        } else {
+          this.scheduleTokenTimers();
+          console.log('🔑 Valid auth token loaded from storage');
+          console.log('- Expires in:', Math.round((this.tokenExpiryTime - Date.now()) / 1000 / 60), 'minutes');
+        }
+      } else {
+        console.log('ℹ️ No stored token found');
+      }
+    } catch (error) {
+      console.error('❌ Error loading token:', error);
+      this.clearToken();
+    }
+  }
+
+  private clearToken(): void {
+    this.clearTokenTimers();
+    this.authToken = null;
+    this.tokenExpiryTime = 0;
+    this.sessionExpiryTime = 0;
+    localStorage.removeItem('hesburger_auth_token');
+    localStorage.removeItem('hesburger_token_expiry');
+  }
+
+  // =============== DEBUG & UTILITY METHODS ===============
+
+  debugTokenState(): void {
+    console.log('🔍 === TOKEN DEBUG STATE ===');
+    console.log('- Mode:', this.usesBff ? 'bff' : 'direct');
+    console.log('- Has token:', !!this.authToken);
+    console.log('- Token expiry:', new Date(this.tokenExpiryTime));
+    console.log('- Is valid:', this.hasValidCredentials());
+    console.log('- Near expiry:', this.isTokenNearExpiry());
+    console.log('===========================');
+  }
+
+  getTokenInfo(): { hasToken: boolean; isValid: boolean; expiresIn: number; nearExpiry: boolean } {
+    return {
+      hasToken: !!this.authToken,
+      isValid: this.hasValidCredentials(),
+      expiresIn: Math.round((this.tokenExpiryTime - Date.now()) / 1000 / 60),
+      nearExpiry: this.isTokenNearExpiry()
+    };
+  }
+
+  getAuthToken(): string | null {
+    return this.authToken;
+  }
+
+  // =============== ERROR HANDLING ===============
+
+  private handleError = (error: unknown): Observable<never> => {
+    if (error instanceof ApiRequestError || error instanceof ApiSchemaError) {
+      return throwError(() => error);
+    }
+    if (!(error instanceof HttpErrorResponse)) {
+      // Timeouts and other client-side failures never reached the server
+      return throwError(() => new ApiRequestError((error as Error)?.message || 'Request failed', 0));
+    }
+
+    console.error('🚨 === API ERROR DETAILS ===');
+    console.error('- Status:', error.status);
+    console.error('- Status Text:', error.statusText);
+    console.error('- URL:', error.url);
+    console.error('- Message:', error.message);
+    console.error('============================');
+
+    let errorMessage = 'Something went wrong';
+
+    switch (error.status) {
+      case 0:
+        errorMessage = 'Cannot connect to server - check network or CORS';
+        break;
+      case 401:
+        errorMessage = 'Unauthorized - token expired or invalid';
+        break;
+      case 403:
+        errorMessage = 'Forbidden - insufficient permissions';
+        break;
+      case 404:
+        errorMessage = 'Endpoint not found';
+        break;
+      case 500:
+        errorMessage = 'Server error - try again later';
+        break;
+      default:
+        errorMessage = `Error ${error.status}: ${error.message}`;
+    }
+
+    return throwError(() => new ApiRequestError(errorMessage, error.status));
+  };
+}
+
+function decodeJwtClaims(token: string): JwtClaims | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    return JSON.parse(atob(base64)) as JwtClaims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  BillShare,
+  billTotal,
+  carryOverStatuses,
+  coverRemaining,
+  customAmountsProblem,
+  isBillSettled,
+  outstandingAmount,
+  setShareStatus,
+  splitByAmounts,
+  splitByItems,
+  splitEvenly
+} from './bill-split';
+import { formatMoney, moneyOf, sumMoney, toMajor } from './money';
+
+describe('bill split', () => {
+  const totals = { subtotal: moneyOf(110), serviceFee: moneyOf(2.5), vat: moneyOf(11.15) };
+  const sum = (shares: BillShare[], field: keyof Pick<BillShare, 'subtotal' | 'serviceFee' | 'vat' | 'total'>) =>
+    toMajor(sumMoney(shares.map(share => share[field])));
+  const major = (shares: BillShare[], field: keyof Pick<BillShare, 'subtotal' | 'serviceFee' | 'vat' | 'total'>) =>
+    shares.map(share => toMajor(share[field]));
+
+  it('splits evenly and still adds up to the bill', () => {
+    const shares = splitEvenly(totals, ['Ana', 'Mihai', 'Ion']);
+
+    expect(major(shares, 'total')).toEqual([37.5, 37.5, 37.5]);
+    expect(sum(shares, 'subtotal')).toBe(110);
+    expect(sum(shares, 'serviceFee')).toBe(2.5);
+    expect(sum(shares, 'vat')).toBe(11.15);
+    expect(shares.every(share => share.status === 'unpaid')).toBeTrue();
+  });
+
+  it('splits by item with fee and VAT pro rata', () => {
+    const shares = splitByItems(totals, [
+      { diner: 'Ana', amount: moneyOf(60) },
+      { diner: 'Mihai', amount: moneyOf(30) },
+      { amount: moneyOf(10) }
+    ]);
+
+    expect(shares.map(share => share.label)).toEqual(['Ana', 'Mihai']);
+    expect(major(shares, 'total')).toEqual([73.13, 39.37]);
+    expect(major(shares, 'serviceFee')).toEqual([1.63, 0.87]);
+    expect(major(shares, 'vat')).toEqual([7.25, 3.9]);
+    expect(sum(shares, 'total')).toBe(toMajor(billTotal(totals)));
+  });
+
+  it('cannot split by item when no line has a diner', () => {
+    expect(splitByItems(totals, [{ amount: moneyOf(100) }])).toEqual([]);
+  });
+
+  it('uses custom amounts exactly once they cover the bill', () => {
+    const amounts = [{ label: 'Ana', amount: 50 }, { label: 'Mihai', amount: 62.5 }];
+    expect(customAmountsProblem(totals, amounts)).toBeNull();
+
+    const shares = splitByAmounts(totals, amounts);
+    expect(major(shares, 'total')).toEqual([50, 62.5]);
+    expect(sum(shares, 'vat')).toBe(11.15);
+
+    expect(customAmountsProblem(totals, [{ label: 'Ana', amount: 50 }])).toBe(`Mai sunt de împărțit ${formatMoney(moneyOf(62.5))}`);
+    expect(customAmountsProblem(totals, [{ label: 'Ana', amount: 120 }])).toBe(`Sumele depășesc nota cu ${formatMoney(moneyOf(7.5))}`);
+  });
+
+  it('is settled once every share is paid', () => {
+    let shares = splitEvenly(totals, ['Ana', 'Mihai']);
+    shares = setShareStatus(shares, 'share-1', 'paid');
+
+    expect(isBillSettled(shares)).toBeFalse();
+    expect(toMajor(outstandingAmount(shares))).toBe(56.25);
+
+    shares = setShareStatus(shares, 'share-2', 'paid');
+    expect(isBillSettled(shares)).toBeTrue();
+  });
+
+  it('keeps the status of shares a recalculation does not change', () => {
+    const paid = setShareStatus(splitEvenly(totals, ['Ana', 'Mihai']), 'share-1', 'paid');
+
+    expect(carryOverStatuses(paid, splitEvenly(totals, ['Ana', 'Mihai'])).map(share => share.status)).toEqual(['paid', 'unpaid']);
+    expect(carryOverStatuses(paid, splitEvenly(totals, ['Ana', 'Mihai', 'Ion'])).map(share => share.status)).toEqual(['unpaid', 'unpaid', 'unpaid']);
+  });
+
+  it('lets a designated payer cover the rest', () => {
+    const shares = coverRemaining(splitEvenly(totals, ['Ana', 'Mihai', 'Ion']), 'share-2');
+
+    expect(shares.map(share => share.status)).toEqual(['covered', 'paid', 'covered']);
+    expect(isBillSettled(shares)).toBeTrue();
+    expect(toMajor(outstandingAmount(shares))).toBe(0);
+  });
+});
@@ -0,0 +1,155 @@
+import { Money, add, allocate, equalsMoney, formatMoney, isPositive, moneyOf, negate, subtract, sumMoney } from './money';
+
+// =============== BILL SPLIT ===============
+// Splitting the bill of one order between the diners at the table. Shares are
+// Money, so they add up to the bill exactly; the fees and the VAT they include
+// follow each share's part of the bill.
+
+// even   - the same for everyone
+// items  - each diner pays for their own lines (see CartItem.diner)
+// custom - amounts typed in by hand
+export type SplitMode = 'even' | 'items' | 'custom';
+
+// unpaid  - still to be paid
+// paid    - paid by the diner it belongs to
+// covered - paid by the designated payer along with their own share
+export type ShareStatus = 'unpaid' | 'paid' | 'covered';
+
+// Taken from the order's PriceBreakdown: the subtotal after discounts and all the
+// fees; the VAT is included in them, not added on top
+export interface BillTotals {
+  subtotal: Money;
+  serviceFee: Money;
+  vat: Money;
+}
+
+export interface BillShare {
+  id: string;
+  label: string;
+  subtotal: Money;
+  serviceFee: Money;
+  // Included in the total
+  vat: Money;
+  total: Money;
+  status: ShareStatus;
+}
+
+// What splitting by item needs to know of a cart line
+export interface BillLine {
+  diner?: string;
+  amount: Money;
+}
+
+// As typed in, in lei
+export interface CustomAmount {
+  label: string;
+  amount: number;
+}
+
+// One share per label, the same for all to the ban
+export function splitEvenly(totals: BillTotals, labels: string[]): BillShare[] {
+  return proRataShares(totals, labels.map(label => ({ label, weight: 1 })));
+}
+
+/**
+ * One share per diner with the lines tagged for them. Lines without a diner are
+ * shared evenly by everyone. Empty when no line has a diner.
+ */
+export function splitByItems(totals: BillTotals, lines: BillLine[]): BillShare[] {
+  const diners = lines
+    .map(line => line.diner)
+    .filter((diner, index, all): diner is string => !!diner && all.indexOf(diner) === index);
+  if (diners.length === 0) {
+    return [];
+  }
+
+  const untagged = lines.filter(line => !line.diner || !diners.includes(line.diner));
+  const currency = totals.subtotal.currency;
+  const sharedWeights = allocate(sumMoney(untagged.map(line => line.amount), currency), diners.map(() => 1));
+
+  return proRataShares(totals, diners.map((diner, index) => ({
+    label: diner,
+    weight: add(sumMoney(lines.filter(line => line.diner === diner).map(line => line.amount), currency), sharedWeights[index]).amount
+  })));
+}
+
+// Shares of exactly the amounts given; check them with customAmountsProblem first
+export function splitByAmounts(totals: BillTotals, amounts: CustomAmount[]): BillShare[] {
+  return sharesOfTotals(totals, amounts.map(entry => entry.label), amounts.map(entry => moneyOf(entry.amount, totals.subtotal.currency)));
+}
+
+// Why the amounts cannot be used, or null when they cover the bill exactly
+export function customAmountsProblem(totals: BillTotals, amounts: CustomAmount[]): string | null {
+  if (amounts.some(entry => !Number.isFinite(entry.amount) || entry.amount < 0)) {
+    return 'Sumele nu pot fi negative';
+  }
+
+  const currency = totals.subtotal.currency;
+  const difference = subtract(billTotal(totals), sumMoney(amounts.map(entry => moneyOf(entry.amount, currency)), currency));
+  if (isPositive(difference)) {
+    return `Mai sunt de împărțit ${formatMoney(difference)}`;
+  }
+  if (isPositive(negate(difference))) {
+    return `Sumele depășesc nota cu ${formatMoney(negate(difference))}`;
+  }
+  return null;
+}
+
+export function billTotal(totals: BillTotals): Money {
+  return add(totals.subtotal, totals.serviceFee);
+}
+
+// =============== PAYMENT STATUS ===============
+
+export function setShareStatus(shares: BillShare[], shareId: string, status: ShareStatus): BillShare[] {
+  return shares.map(share => share.id === shareId ? { ...share, status } : share);
+}
+
+// After a recalculation, a share still for the same diner and amount keeps its status
+export function carryOverStatuses(previous: BillShare[], next: BillShare[]): BillShare[] {
+  return next.map(share => {
+    const before = previous.find(old => old.id === share.id && old.label === share.label && equalsMoney(old.total, share.total));
+    return before ? { ...share, status: before.status } : share;
+  });
+}
+
+// The designated payer pays their own share and whatever the others have not paid
+export function coverRemaining(shares: BillShare[], payerId: string): BillShare[] {
+  return shares.map((share): BillShare => {
+    if (share.id === payerId) return { ...share, status: share.status === 'unpaid' ? 'paid' : share.status };
+    return share.status === 'unpaid' ? { ...share, status: 'covered' } : share;
+  });
+}
+
+export function outstandingAmount(shares: BillShare[]): Money {
+  return sumMoney(shares.filter(share => share.status === 'unpaid').map(share => share.total), shares[0]?.total.currency);
+}
+
+// The order can be released once nothing is left unpaid
+export function isBillSettled(shares: BillShare[]): boolean {
+  return shares.length > 0 && shares.every(share => share.status !== 'unpaid');
+}
+
+// =============== HELPERS ===============
+
+function proRataShares(totals: BillTotals, parts: { label: string; weight: number }[]): BillShare[] {
+  const shareTotals = allocate(billTotal(totals), parts.map(part => part.weight));
+  return sharesOfTotals(totals, parts.map(part => part.label), shareTotals);
+}
+
+// Subtotal and VAT follow each share's total; the fee takes what is left, so every
+// share comes to its total exactly and the parts still add up to the bill's
+function sharesOfTotals(totals: BillTotals, labels: string[], shareTotals: Money[]): BillShare[] {
+  const weights = shareTotals.map(total => total.amount);
+  const subtotals = allocate(totals.subtotal, weights);
+  const vat = allocate(totals.vat, weights);
+  return labels.map((label, index): BillShare => ({
+    id: `share-${index + 1}`,
+    label,
+    subtotal: subtotals[index],
+    serviceFee: subtract(shareTotals[index], subtotals[index]),
+    vat: vat[index],
+    total: shareTotals[index],
+    status: 'unpaid'
+  }));
+}
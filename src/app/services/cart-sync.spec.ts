@@ -0,0 +1,59 @@
+import { SyncedLine, mergeCartSnapshots, pruneRemovedLines } from './cart-sync';
+
+describe('cart sync', () => {
+  const line = (lineId: string, quantity: number, changedAt: number): SyncedLine => ({ lineId, quantity, changedAt });
+
+  it('keeps the latest change of each line', () => {
+    const merged = mergeCartSnapshots(
+      { items: [line('burger', 1, 100), line('fries', 3, 300)], removed: {} },
+      { items: [line('burger', 2, 200), line('fries', 1, 150)], removed: {} }
+    );
+
+    expect(merged.items).toEqual([line('burger', 2, 200), line('fries', 3, 300)]);
+    expect(merged.keptLocal).toBeTrue();
+  });
+
+  it('adds lines only the other tab has, after the local ones', () => {
+    const merged = mergeCartSnapshots(
+      { items: [line('burger', 1, 100)], removed: {} },
+      { items: [line('cola', 1, 50), line('burger', 1, 100)], removed: {} }
+    );
+
+    expect(merged.items.map(item => item.lineId)).toEqual(['burger', 'cola']);
+    expect(merged.keptLocal).toBeFalse();
+  });
+
+  it('does not bring back a line removed after its last change', () => {
+    const merged = mergeCartSnapshots(
+      { items: [line('burger', 2, 100)], removed: {} },
+      { items: [], removed: { burger: 200 } }
+    );
+
+    expect(merged.items).toEqual([]);
+    expect(merged.removed).toEqual({ burger: 200 });
+    expect(merged.keptLocal).toBeFalse();
+  });
+
+  it('keeps a line added again after it was removed elsewhere', () => {
+    const merged = mergeCartSnapshots(
+      { items: [line('burger', 1, 300)], removed: {} },
+      { items: [], removed: { burger: 200 } }
+    );
+
+    expect(merged.items).toEqual([line('burger', 1, 300)]);
+    expect(merged.removed).toEqual({});
+    expect(merged.keptLocal).toBeTrue();
+  });
+
+  it('settles ties the same way in both tabs', () => {
+    const a = { items: [line('burger', 1, 100)], removed: {} };
+    const b = { items: [line('burger', 2, 100)], removed: {} };
+
+    expect(mergeCartSnapshots(a, b).items).toEqual(mergeCartSnapshots(b, a).items);
+    expect(mergeCartSnapshots(a, { items: [], removed: { burger: 100 } }).items).toEqual([]);
+  });
+
+  it('forgets removals older than the cutoff', () => {
+    expect(pruneRemovedLines({ burger: 100, fries: 300 }, 200)).toEqual({ fries: 300 });
+  });
+});
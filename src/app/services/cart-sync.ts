@@ -0,0 +1,97 @@
+// =============== CART SYNC ===============
+// Tabs of the same table share one stored cart. When another tab writes it, the
+// two versions are merged line by line: whichever tab touched a line last wins,
+// and a removal counts as touching it, so a line deleted in one tab does not come
+// back from a stale copy in another.
+
+export interface SyncedLine {
+  lineId: string;
+  quantity: number;
+  // When the line was last added to, changed or re-keyed (ms)
+  changedAt?: number;
+}
+
+// When each removed line was removed (ms), by line id
+export type RemovedLines = { [lineId: string]: number };
+
+export interface CartSnapshot<T extends SyncedLine> {
+  items: T[];
+  removed: RemovedLines;
+}
+
+export interface CartMerge<T extends SyncedLine> extends CartSnapshot<T> {
+  // The local copy had something newer than the remote one, which needs writing back
+  keptLocal: boolean;
+}
+
+/**
+ * Merges the remote snapshot into the local one, last writer wins per line. Lines
+ * keep the local order, with lines only the remote has after them. On equal stamps
+ * a removal beats a change and the larger quantity beats the smaller, so both tabs
+ * settle on the same cart.
+ */
+export function mergeCartSnapshots<T extends SyncedLine>(local: CartSnapshot<T>, remote: CartSnapshot<T>): CartMerge<T> {
+  const lineIds = [
+    ...local.items.map(item => item.lineId),
+    ...remote.items.map(item => item.lineId),
+    ...Object.keys(local.removed),
+    ...Object.keys(remote.removed)
+  ].filter((lineId, index, all) => all.indexOf(lineId) === index);
+
+  const items: T[] = [];
+  const removed: RemovedLines = {};
+  let keptLocal = false;
+
+  for (const lineId of lineIds) {
+    const mine = pickLatest(local.items.find(item => item.lineId === lineId), local.removed[lineId]);
+    const theirs = pickLatest(remote.items.find(item => item.lineId === lineId), remote.removed[lineId]);
+    const winner = !theirs || (mine && isNewer(mine, theirs)) ? mine! : theirs;
+
+    if (winner === mine && !sameEntry(mine, theirs)) {
+      keptLocal = true;
+    }
+    if (winner.line) {
+      items.push(winner.line);
+    } else {
+      removed[lineId] = winner.at;
+    }
+  }
+
+  return { items, removed, keptLocal };
+}
+
+// Removals older than the cart itself can be: nothing stale enough to bring them back remains
+export function pruneRemovedLines(removed: RemovedLines, olderThan: number): RemovedLines {
+  const kept: RemovedLines = {};
+  for (const [lineId, at] of Object.entries(removed)) {
+    if (at >= olderThan) {
+      kept[lineId] = at;
+    }
+  }
+  return kept;
+}
+
+// A line's latest state on one side: present (line) or removed (no line)
+interface LineEntry<T> {
+  line: T | null;
+  at: number;
+}
+
+function pickLatest<T extends SyncedLine>(line: T | undefined, removedAt: number | undefined): LineEntry<T> | null {
+  const lineEntry = line ? { line, at: line.changedAt ?? 0 } : null;
+  const removedEntry = removedAt !== undefined ? { line: null, at: removedAt } : null;
+  if (!lineEntry || !removedEntry) {
+    return lineEntry ?? removedEntry;
+  }
+  return isNewer(lineEntry, removedEntry) ? lineEntry : removedEntry;
+}
+
+function isNewer<T extends SyncedLine>(a: LineEntry<T>, b: LineEntry<T>): boolean {
+  if (a.at !== b.at) return a.at > b.at;
+  if (!a.line || !b.line) return !a.line && !!b.line;
+  return a.line.quantity > b.line.quantity;
+}
+
+function sameEntry<T extends SyncedLine>(a: LineEntry<T>, b: LineEntry<T> | null): boolean {
+  return !!b && a.at === b.at && (a.line?.quantity ?? null) === (b.line?.quantity ?? null);
+}
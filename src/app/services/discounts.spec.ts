@@ -0,0 +1,64 @@
+import { PromotionConfig } from '../config/app-config';
+import { PromotionContext, PromotionLine, applyPromotions, findPromotion, promotionProblem } from './discounts';
+import { moneyOf, toMajor } from './money';
+
+describe('discounts', () => {
+  const lines: PromotionLine[] = [
+    { lineId: 'burger', categories: ['burgers'], quantity: 2, unitPrice: moneyOf(25.9) },
+    { lineId: 'cola', categories: ['drinks'], quantity: 2, unitPrice: moneyOf(8.5) },
+    { lineId: 'water', categories: ['drinks'], quantity: 1, unitPrice: moneyOf(6) }
+  ];
+  const context: PromotionContext = { now: new Date('2026-06-15T12:00:00Z'), usage: {} };
+
+  const save10: PromotionConfig = { code: 'SAVE10', description: '10% off', kind: 'percentage', value: 0.1 };
+  const free5: PromotionConfig = { code: 'FREE5', description: '5 lei off', kind: 'fixed', value: 5, stackable: true };
+  const drinks: PromotionConfig = {
+    code: 'DRINKS', description: 'Second drink free', kind: 'buy-x-get-y', buy: 1, get: 1, categories: ['drinks'], stackable: true
+  };
+
+  const amounts = (entered: PromotionConfig[]) =>
+    applyPromotions(entered, lines, context).discounts.map(discount => [discount.code, toMajor(discount.amount)]);
+
+  it('finds codes however they are typed', () => {
+    expect(findPromotion([save10, free5], ' save10 ')).toBe(save10);
+    expect(findPromotion([save10], 'SAVE20')).toBeUndefined();
+  });
+
+  it('takes percentages and fixed amounts off the counted lines', () => {
+    const outcome = applyPromotions([save10], lines, context);
+
+    expect(toMajor(outcome.discounts[0].amount)).toBe(7.48);
+    expect(outcome.discounts[0].lines!.map(line => toMajor(line.amount))).toEqual([5.18, 1.7, 0.6]);
+    expect(amounts([{ ...free5, categories: ['drinks'] }])).toEqual([['FREE5', 5]]);
+    expect(amounts([{ ...free5, value: 100 }])).toEqual([['FREE5', 74.8]]);
+  });
+
+  it('gives the cheapest counted items away', () => {
+    const outcome = applyPromotions([drinks], lines, context);
+
+    expect(outcome.discounts[0].lines).toEqual([{ lineId: 'water', amount: moneyOf(6) }]);
+    expect(amounts([{ ...drinks, categories: [] }])).toEqual([['DRINKS', 14.5]]);
+  });
+
+  it('applies stacked codes to what the codes before them left', () => {
+    expect(amounts([drinks, free5])).toEqual([['DRINKS', 6], ['FREE5', 5]]);
+
+    const outcome = applyPromotions([save10, free5], lines, context);
+    expect(outcome.discounts.map(discount => discount.code)).toEqual([]);
+    expect(outcome.inactive.map(entry => entry.reason)).toEqual([
+      'SAVE10 cannot be combined with other codes',
+      'SAVE10 cannot be combined with other codes'
+    ]);
+  });
+
+  it('checks validity, usage and minimum spend', () => {
+    expect(promotionProblem({ ...save10, validFrom: '2026-07-01' }, lines, [], context)).toBe('SAVE10 is not valid yet');
+    expect(promotionProblem({ ...save10, validUntil: '2026-06-01' }, lines, [], context)).toBe('SAVE10 has expired');
+    expect(promotionProblem({ ...save10, usageLimit: 1 }, lines, [], { ...context, usage: { SAVE10: 1 } }))
+      .toBe('SAVE10 has already been used');
+    expect(promotionProblem({ ...save10, categories: ['desserts'] }, lines, [], context)).toBe('Nothing in your cart qualifies for SAVE10');
+    expect(promotionProblem({ ...drinks, buy: 2, categories: ['burgers'] }, lines, [], context)).toBe('DRINKS needs 3 qualifying items');
+    expect(promotionProblem({ ...save10, minSpend: 100 }, lines, [], context)).toContain('SAVE10 needs');
+    expect(promotionProblem({ ...save10, minSpend: 50, validUntil: '2026-06-30' }, lines, [], context)).toBeNull();
+  });
+});
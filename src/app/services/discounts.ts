@@ -0,0 +1,169 @@
+import { PromotionConfig } from '../config/config-types';
+import { Money, allocate, formatMoney, isPositive, minMoney, moneyOf, multiply, subtract, sumMoney, zero } from './money';
+import { LineDiscount, PricingDiscount } from './pricing';
+
+// =============== DISCOUNTS ===============
+// Promo codes, set up per tenant in the app configuration. A code is checked when
+// it is entered and again on every cart change: one whose conditions no longer hold
+// stays entered but takes nothing off until they do. What a code takes off is
+// worked out per line, so it can travel on the order items.
+
+// What a promotion needs to know of a cart line
+export interface PromotionLine {
+  lineId: string;
+  // Keys and uids of the line's category
+  categories: string[];
+  quantity: number;
+  // Per unit, options included
+  unitPrice: Money;
+}
+
+export interface PromotionContext {
+  now: Date;
+  // Orders each code was used on from this device
+  usage: { [code: string]: number };
+}
+
+// An entered code that takes nothing off at the moment, and why
+export interface InactivePromotion {
+  code: string;
+  description: string;
+  reason: string;
+}
+
+export interface PromotionOutcome {
+  discounts: PricingDiscount[];
+  inactive: InactivePromotion[];
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function findPromotion(promotions: PromotionConfig[], code: string): PromotionConfig | undefined {
+  const wanted = normalizeCode(code);
+  return promotions.find(promotion => normalizeCode(promotion.code) === wanted);
+}
+
+/**
+ * Why the promotion cannot be used on these lines together with the codes already
+ * entered, or null when it can.
+ */
+export function promotionProblem(
+  promotion: PromotionConfig,
+  lines: PromotionLine[],
+  entered: PromotionConfig[],
+  context: PromotionContext
+): string | null {
+  const code = normalizeCode(promotion.code);
+  if (promotion.validFrom && context.now < new Date(promotion.validFrom)) {
+    return `${code} is not valid yet`;
+  }
+  if (promotion.validUntil && context.now > new Date(promotion.validUntil)) {
+    return `${code} has expired`;
+  }
+  if (promotion.usageLimit !== undefined && (context.usage[code] ?? 0) >= promotion.usageLimit) {
+    return `${code} has already been used`;
+  }
+
+  const others = entered.filter(other => normalizeCode(other.code) !== code);
+  const exclusive = others.find(other => !other.stackable);
+  if (exclusive) {
+    return `${normalizeCode(exclusive.code)} cannot be combined with other codes`;
+  }
+  if (!promotion.stackable && others.length > 0) {
+    return `${code} cannot be combined with other codes`;
+  }
+
+  const counted = countedLines(promotion, lines);
+  if (counted.length === 0) {
+    return `Nothing in your cart qualifies for ${code}`;
+  }
+  const spent = sumMoney(counted.map(lineTotal));
+  if (promotion.minSpend !== undefined && spent.amount < moneyOf(promotion.minSpend).amount) {
+    return `${code} needs ${formatMoney(moneyOf(promotion.minSpend))} of qualifying items`;
+  }
+  if (promotion.kind === 'buy-x-get-y') {
+    const needed = (promotion.buy ?? 0) + (promotion.get ?? 0);
+    const units = counted.reduce((count, line) => count + line.quantity, 0);
+    if (units < needed) {
+      return `${code} needs ${needed} qualifying items`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Applies the entered codes to the lines in the order they were entered. Each takes
+ * its part of what the codes before it left of the lines; codes that cannot be used
+ * right now are returned with the reason.
+ */
+export function applyPromotions(entered: PromotionConfig[], lines: PromotionLine[], context: PromotionContext): PromotionOutcome {
+  const remaining = new Map(lines.map(line => [line.lineId, lineTotal(line)]));
+  const outcome: PromotionOutcome = { discounts: [], inactive: [] };
+
+  for (const promotion of entered) {
+    const code = normalizeCode(promotion.code);
+    const problem = promotionProblem(promotion, lines, entered, context);
+    const discountLines = problem ? [] : discountedLines(promotion, countedLines(promotion, lines), remaining);
+    const amount = sumMoney(discountLines.map(entry => entry.amount));
+
+    if (problem || !isPositive(amount)) {
+      outcome.inactive.push({ code, description: promotion.description, reason: problem ?? `${code} takes nothing off this cart` });
+      continue;
+    }
+
+    discountLines.forEach(entry => remaining.set(entry.lineId, subtract(remaining.get(entry.lineId)!, entry.amount)));
+    outcome.discounts.push({ code, description: promotion.description, amount, lines: discountLines });
+  }
+  return outcome;
+}
+
+// =============== HELPERS ===============
+
+function countedLines(promotion: PromotionConfig, lines: PromotionLine[]): PromotionLine[] {
+  const categories = promotion.categories ?? [];
+  return categories.length === 0 ? lines : lines.filter(line => line.categories.some(category => categories.includes(category)));
+}
+
+function discountedLines(promotion: PromotionConfig, counted: PromotionLine[], remaining: Map<string, Money>): LineDiscount[] {
+  const left = counted.map(line => remaining.get(line.lineId) ?? zero());
+  const available = sumMoney(left);
+  let amounts: Money[];
+
+  switch (promotion.kind) {
+    case 'percentage':
+      amounts = allocate(minMoney(multiply(available, promotion.value ?? 0), available), left.map(money => money.amount));
+      break;
+    case 'fixed':
+      amounts = allocate(minMoney(moneyOf(promotion.value ?? 0), available), left.map(money => money.amount));
+      break;
+    case 'buy-x-get-y':
+      amounts = freeUnits(promotion, counted).map((free, index) => minMoney(free, left[index]));
+      break;
+  }
+
+  return counted
+    .map((line, index) => ({ lineId: line.lineId, amount: amounts[index] }))
+    .filter(entry => isPositive(entry.amount));
+}
+
+// Of every buy + get units, the get cheapest are free; returns what is free per line
+function freeUnits(promotion: PromotionConfig, counted: PromotionLine[]): Money[] {
+  const buy = Math.max(promotion.buy ?? 0, 0);
+  const get = Math.max(promotion.get ?? 0, 0);
+  const free = counted.map(() => zero());
+  if (get === 0) return free;
+
+  const units = counted
+    .flatMap((line, index) => Array.from({ length: line.quantity }, () => ({ index, price: line.unitPrice })))
+    .sort((a, b) => a.price.amount - b.price.amount);
+  const freeCount = Math.floor(units.length / (buy + get)) * get;
+
+  units.slice(0, freeCount).forEach(unit => free[unit.index] = sumMoney([free[unit.index], unit.price]));
+  return free;
+}
+
+function lineTotal(line: PromotionLine): Money {
+  return multiply(line.unitPrice, line.quantity);
+}
@@ -0,0 +1,72 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { APP_CONFIG } from '../config/app-config';
+import { CartItem } from './api.service';
+import { RemovedLines } from './cart-sync';
+
+// =============== GROUP CART TRANSPORT ===============
+// How the phones at one table reach each other. Everyone in a room (tenant and
+// table) gets the messages the others send; whoever joins first gets the cart the
+// room last saw. The default goes through a WebSocket server; provide
+// GROUP_CART_TRANSPORT to use something else.
+
+// cart      - someone's whole cart, to be merged line by line
+// submitted - someone placed the order for the table
+export type GroupCartMessage =
+  | { type: 'cart'; items: CartItem[]; removed: RemovedLines; from: string | null }
+  | { type: 'submitted'; orderNumber: string; by: string | null };
+
+export interface GroupCartTransport {
+  // Messages from the others in the room. Errors or completes when the connection
+  // drops; subscribe again to reconnect.
+  connect(room: string): Observable<GroupCartMessage>;
+  // To everyone else in the room; dropped while not connected
+  send(message: GroupCartMessage): void;
+}
+
+// Null when the environment has no group cart server
+export const GROUP_CART_TRANSPORT = new InjectionToken<GroupCartTransport | null>('GROUP_CART_TRANSPORT', {
+  providedIn: 'root',
+  factory: () => {
+    const url = inject(APP_CONFIG).environment.groupCartUrl;
+    return url ? new WebSocketGroupCartTransport(url) : null;
+  }
+});
+
+export class WebSocketGroupCartTransport implements GroupCartTransport {
+  private socket: WebSocket | null = null;
+
+  constructor(private url: string) {}
+
+  connect(room: string): Observable<GroupCartMessage> {
+    return new Observable<GroupCartMessage>(subscriber => {
+      const url = new URL(this.url, window.location.href);
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      url.searchParams.set('room', room);
+
+      const socket = new WebSocket(url);
+      this.socket = socket;
+
+      socket.onmessage = event => {
+        try {
+          subscriber.next(JSON.parse(String(event.data)) as GroupCartMessage);
+        } catch {
+          console.warn('⚠️ Ignoring malformed group cart message');
+        }
+      };
+      socket.onclose = event => subscriber.error(new Error(`Group cart connection closed (${event.code})`));
+
+      return () => {
+        if (this.socket === socket) this.socket = null;
+        socket.onclose = null;
+        socket.close();
+      };
+    });
+  }
+
+  send(message: GroupCartMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
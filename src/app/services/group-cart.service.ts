@@ -0,0 +1,122 @@
+import { Inject, Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription, timer } from 'rxjs';
+import { retry } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { HesburgerApiService } from './api.service';
+import { GROUP_CART_TRANSPORT, GroupCartMessage, GroupCartTransport } from './group-cart-transport';
+import { normalizeInstructions } from './order-notes';
+
+const DINER_STORAGE_KEY = 'hesburger_diner';
+const DINER_MAX_LENGTH = 30;
+const RECONNECT_DELAY_MS = 3000;
+
+// The table's order was placed from another phone
+export interface GroupOrderNotice {
+  orderNumber: string;
+  by: string | null;
+}
+
+/**
+ * One cart for everyone at a table. Each phone keeps its own copy (stored per table
+ * like any cart) and shares every change with the others in the table's room; copies
+ * are merged line by line, last change wins. Lines are tagged with the diner who
+ * added them. Any one of them checks out for the whole table.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GroupCartService implements OnDestroy {
+  private room: string | null = null;
+  private subscriptions: Subscription[] = [];
+  private connectedSubject = new BehaviorSubject<boolean>(false);
+  public connected$ = this.connectedSubject.asObservable();
+  private orderPlacedSubject = new Subject<GroupOrderNotice>();
+  public orderPlaced$ = this.orderPlacedSubject.asObservable();
+
+  constructor(
+    private apiService: HesburgerApiService,
+    @Inject(APP_CONFIG) private config: AppConfig,
+    @Inject(GROUP_CART_TRANSPORT) private transport: GroupCartTransport | null
+  ) {}
+
+  ngOnDestroy(): void {
+    this.leave();
+  }
+
+  get isEnabled(): boolean {
+    return this.transport !== null;
+  }
+
+  /**
+   * Joins the shared cart of the table, after HesburgerApiService.setTableId opened
+   * it. New lines are tagged with the remembered diner name from here on.
+   */
+  join(tableId: string): void {
+    const transport = this.transport;
+    if (!transport) return;
+
+    const room = `${this.config.tenant.id}:${tableId}`;
+    this.apiService.setDiner(this.getDiner());
+    if (room === this.room) return;
+
+    this.leave();
+    this.room = room;
+    console.log('👥 Joining shared cart of table', tableId);
+
+    this.subscriptions.push(
+      transport.connect(room).pipe(
+        retry({
+          delay: error => {
+            console.warn('⚠️ Shared cart disconnected, reconnecting:', error?.message);
+            this.connectedSubject.next(false);
+            return timer(RECONNECT_DELAY_MS);
+          }
+        })
+      ).subscribe(message => this.handleMessage(message)),
+
+      this.apiService.cartChanges$.subscribe(snapshot =>
+        transport.send({ type: 'cart', items: snapshot.items, removed: snapshot.removed, from: this.apiService.getDiner() })
+      )
+    );
+  }
+
+  leave(): void {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions = [];
+    this.room = null;
+    this.connectedSubject.next(false);
+  }
+
+  // Name or seat the diner's lines are tagged with, remembered for the next visit
+  getDiner(): string | null {
+    return localStorage.getItem(DINER_STORAGE_KEY);
+  }
+
+  setDiner(name: string): void {
+    const diner = normalizeInstructions(name, DINER_MAX_LENGTH);
+    if (diner) {
+      localStorage.setItem(DINER_STORAGE_KEY, diner);
+    } else {
+      localStorage.removeItem(DINER_STORAGE_KEY);
+    }
+    this.apiService.setDiner(diner || null);
+  }
+
+  // Tells the others the cart they shared has been ordered
+  announceOrder(orderNumber: string): void {
+    this.transport?.send({ type: 'submitted', orderNumber, by: this.apiService.getDiner() });
+  }
+
+  private handleMessage(message: GroupCartMessage): void {
+    this.connectedSubject.next(true);
+
+    if (message?.type === 'cart' && Array.isArray(message.items)) {
+      const removed = typeof message.removed === 'object' && message.removed !== null ? message.removed : {};
+      this.apiService.mergeSharedCart({ items: message.items, removed });
+    } else if (message?.type === 'submitted' && typeof message.orderNumber === 'string') {
+      // The lines that were ordered arrive as removed from the one who ordered them
+      console.log('👥 Order placed for the table:', message.orderNumber, 'by', message.by);
+      this.orderPlacedSubject.next({ orderNumber: message.orderNumber, by: message.by ?? null });
+    }
+  }
+}
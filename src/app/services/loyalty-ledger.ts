@@ -0,0 +1,113 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { number, object, parse } from '../api/schema';
+import { APP_CONFIG } from '../config/app-config';
+
+// =============== LOYALTY LEDGER ===============
+// Where the points of each fidelity card are kept: entries for the points an order
+// holds before it goes out, gives back when it is refused and earns once it is
+// placed, the balance being their sum. The default keeps the ledger in
+// localStorage; an environment with `loyaltyUrl` uses a service instead (the mock
+// API has a stand-in), and LOYALTY_LEDGER can be provided to use something else.
+
+export interface LoyaltyEntry {
+  // The same id is only ever recorded once, so an order can be settled again safely
+  id: string;
+  card: string;
+  // Positive when earned or given back, negative when held
+  points: number;
+  // Unknown while the order has not been placed
+  orderNumber?: string;
+  at: string;
+}
+
+export interface LoyaltyLedger {
+  balance(card: string): Promise<number>;
+  // Resolves to the balance after the entry; rejects when it would go below zero
+  record(entry: LoyaltyEntry): Promise<number>;
+}
+
+export class InsufficientPointsError extends Error {
+  constructor(public readonly balance: number, public readonly requested: number) {
+    super(`Only ${balance} points left, cannot redeem ${requested}`);
+    this.name = 'InsufficientPointsError';
+  }
+}
+
+export const LOYALTY_LEDGER = new InjectionToken<LoyaltyLedger>('LOYALTY_LEDGER', {
+  providedIn: 'root',
+  factory: () => {
+    const config = inject(APP_CONFIG);
+    return config.environment.loyaltyUrl
+      ? new HttpLoyaltyLedger(inject(HttpClient), config.environment.loyaltyUrl)
+      : new LocalLoyaltyLedger(`hesburger_loyalty:${config.tenant.id}`);
+  }
+});
+
+export class LocalLoyaltyLedger implements LoyaltyLedger {
+  constructor(private storageKey: string) {}
+
+  async balance(card: string): Promise<number> {
+    return sumPoints(this.load()[card] ?? []);
+  }
+
+  async record(entry: LoyaltyEntry): Promise<number> {
+    const ledger = this.load();
+    const entries = ledger[entry.card] ?? [];
+    if (entries.some(existing => existing.id === entry.id)) {
+      return sumPoints(entries);
+    }
+
+    const balance = sumPoints(entries);
+    if (balance + entry.points < 0) {
+      throw new InsufficientPointsError(balance, -entry.points);
+    }
+
+    ledger[entry.card] = [...entries, entry];
+    localStorage.setItem(this.storageKey, JSON.stringify(ledger));
+    return balance + entry.points;
+  }
+
+  private load(): { [card: string]: LoyaltyEntry[] } {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '{}');
+      return stored && typeof stored === 'object' ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+}
+
+const balanceResponseSchema = object({ balance: number });
+
+// GET <url>/<card> answers { balance }; POST <url>/<card> records an entry and
+// answers { balance }, or 409 with { balance } when there are not enough points
+export class HttpLoyaltyLedger implements LoyaltyLedger {
+  constructor(private http: HttpClient, private url: string) {}
+
+  async balance(card: string): Promise<number> {
+    const body = await firstValueFrom(this.http.get<unknown>(this.cardUrl(card)));
+    return parse(balanceResponseSchema, body, 'loyalty ledger').balance;
+  }
+
+  async record(entry: LoyaltyEntry): Promise<number> {
+    try {
+      const body = await firstValueFrom(this.http.post<unknown>(this.cardUrl(entry.card), entry));
+      return parse(balanceResponseSchema, body, 'loyalty ledger').balance;
+    } catch (error) {
+      if (error instanceof HttpErrorResponse && error.status === 409) {
+        throw new InsufficientPointsError(Number(error.error?.balance ?? 0), -entry.points);
+      }
+      throw error;
+    }
+  }
+
+  private cardUrl(card: string): string {
+    return new URL(`${this.url.replace(/\/$/, '')}/${encodeURIComponent(card)}`, window.location.href).toString();
+  }
+}
+
+function sumPoints(entries: LoyaltyEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.points, 0);
+}
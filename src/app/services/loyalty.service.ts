@@ -0,0 +1,180 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, combineLatest } from 'rxjs';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { LOYALTY_LEDGER, LoyaltyLedger } from './loyalty-ledger';
+import {
+  LOYALTY_DISCOUNT_CODE,
+  LoyaltyRules,
+  OrderLoyalty,
+  loyaltyRules,
+  normalizeCardNumber,
+  pointsEarned,
+  pointsFor,
+  pointsValue,
+  redeemablePoints
+} from './loyalty';
+import { Money, subtract } from './money';
+import { PriceBreakdown, PricingDiscount } from './pricing';
+
+const CARD_KEY_PREFIX = 'hesburger_loyalty_card:';
+
+export interface LoyaltyMember {
+  card: string;
+  // Points as the ledger last reported them
+  balance: number;
+}
+
+/**
+ * The fidelity card identified on this device (for the browser session) and whether
+ * its points go towards the current order. Balances come from the LOYALTY_LEDGER:
+ * redeemed points are held there before an order goes out and given back if it is
+ * refused, earned points are recorded once it is placed. Does nothing when the
+ * tenant has no `loyalty` configuration.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoyaltyService {
+  private memberSubject = new BehaviorSubject<LoyaltyMember | null>(null);
+  private redeemingSubject = new BehaviorSubject<boolean>(false);
+  public member$ = this.memberSubject.asObservable();
+  // Emits whenever what the card takes off an order may have changed
+  public changes$ = combineLatest([this.member$, this.redeemingSubject]);
+
+  constructor(
+    @Inject(APP_CONFIG) private config: AppConfig,
+    @Inject(LOYALTY_LEDGER) private ledger: LoyaltyLedger
+  ) {
+    const card = this.enabled ? sessionStorage.getItem(this.cardKey) : null;
+    if (card) {
+      this.identify(card).catch(error => console.warn('⚠️ Could not load the loyalty balance:', error));
+    }
+  }
+
+  // =============== PUBLIC API ===============
+
+  get enabled(): boolean {
+    return !!this.config.tenant.loyalty;
+  }
+
+  get rules(): LoyaltyRules {
+    return loyaltyRules(this.config.tenant.loyalty ?? {});
+  }
+
+  get member(): LoyaltyMember | null {
+    return this.memberSubject.value;
+  }
+
+  get redeeming(): boolean {
+    return this.redeemingSubject.value;
+  }
+
+  /**
+   * Looks the card up in the ledger and remembers it for the session. Resolves to
+   * null when the input is not a card number; ledger failures reject.
+   */
+  async identify(input: string): Promise<LoyaltyMember | null> {
+    const card = normalizeCardNumber(input);
+    if (!this.enabled || !card) return null;
+
+    const member = { card, balance: await this.ledger.balance(card) };
+    sessionStorage.setItem(this.cardKey, card);
+    if (this.member?.card !== card) this.redeemingSubject.next(false);
+    this.memberSubject.next(member);
+    console.log('⭐ Loyalty card identified:', card, member.balance, 'points');
+    return member;
+  }
+
+  forget(): void {
+    sessionStorage.removeItem(this.cardKey);
+    this.redeemingSubject.next(false);
+    this.memberSubject.next(null);
+  }
+
+  setRedeeming(redeeming: boolean): void {
+    this.redeemingSubject.next(redeeming && !!this.member);
+  }
+
+  // Points the card could put towards an order with `payable` left to pay for its items
+  redeemableFor(payable: Money): number {
+    return this.member ? redeemablePoints(this.member.balance, payable, this.rules) : 0;
+  }
+
+  // The amount redeemed points take off, or null when none are being redeemed
+  discountFor(payable: Money): PricingDiscount | null {
+    const points = this.redeeming ? this.redeemableFor(payable) : 0;
+    if (points === 0) return null;
+
+    return {
+      code: LOYALTY_DISCOUNT_CODE,
+      description: `Loyalty points (${points})`,
+      amount: pointsValue(points, this.rules, payable)
+    };
+  }
+
+  // What placing an order priced like this does to the card; null without a card
+  forOrder(pricing: PriceBreakdown): OrderLoyalty | null {
+    if (!this.member) return null;
+
+    const redeemed = pricing.discounts.find(discount => discount.code === LOYALTY_DISCOUNT_CODE);
+    return {
+      card: this.member.card,
+      balance: this.member.balance,
+      redeemedPoints: redeemed ? pointsFor(redeemed.amount, this.rules) : 0,
+      earnedPoints: pointsEarned(subtract(pricing.subtotal, pricing.discountTotal), this.rules)
+    };
+  }
+
+  /**
+   * Takes the points an order redeems off its card before the order goes out, so
+   * they cannot be spent twice meanwhile, and returns the order's loyalty with the
+   * hold. Holding under the same id again changes nothing; rejects with an
+   * InsufficientPointsError when the card no longer has the points.
+   */
+  async hold(holdId: string, loyalty: OrderLoyalty): Promise<OrderLoyalty> {
+    if (loyalty.redeemedPoints > 0) {
+      const balance = await this.ledger.record({ id: holdId, card: loyalty.card, points: -loyalty.redeemedPoints, at: new Date().toISOString() });
+      console.log(`⭐ ${loyalty.redeemedPoints} points held on card ${loyalty.card}, ${balance} left`);
+    }
+    return { ...loyalty, holdId };
+  }
+
+  // Gives back the points held for an order the API refused; safe to repeat
+  async release(loyalty: OrderLoyalty): Promise<void> {
+    if (!loyalty.holdId || loyalty.redeemedPoints === 0) return;
+
+    const balance = await this.ledger.record({ id: `${loyalty.holdId}:released`, card: loyalty.card, points: loyalty.redeemedPoints, at: new Date().toISOString() });
+    this.updateBalance(loyalty.card, balance);
+    console.log(`⭐ ${loyalty.redeemedPoints} points given back to card ${loyalty.card}, ${balance} left`);
+  }
+
+  /**
+   * Records what a placed order earned; its redeemed points were held before it
+   * went out. The entry is keyed by the order number, so settling the same order
+   * twice changes nothing.
+   */
+  async settle(orderNumber: string, loyalty: OrderLoyalty): Promise<void> {
+    const balance = loyalty.earnedPoints > 0
+      ? await this.ledger.record({ id: `${orderNumber}:earned`, card: loyalty.card, points: loyalty.earnedPoints, orderNumber, at: new Date().toISOString() })
+      : await this.ledger.balance(loyalty.card);
+
+    this.redeemingSubject.next(false);
+    this.updateBalance(loyalty.card, balance);
+    console.log(`⭐ Order ${orderNumber}: ${loyalty.redeemedPoints} points redeemed, ${loyalty.earnedPoints} earned, ${balance} left`);
+  }
+
+  // Worth of the points in lei, for showing next to a balance
+  valueOf(points: number): Money {
+    return pointsValue(points, this.rules);
+  }
+
+  private updateBalance(card: string, balance: number): void {
+    if (this.member?.card === card) {
+      this.memberSubject.next({ card, balance });
+    }
+  }
+
+  private get cardKey(): string {
+    return `${CARD_KEY_PREFIX}${this.config.tenant.id}`;
+  }
+}
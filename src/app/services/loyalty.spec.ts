@@ -0,0 +1,36 @@
+import { loyaltyRules, normalizeCardNumber, parseLoyaltyQr, pointsEarned, pointsFor, pointsValue, redeemablePoints } from './loyalty';
+import { moneyOf, toMajor } from './money';
+
+describe('loyalty', () => {
+  const rules = loyaltyRules({ pointsPerLei: 1, pointValue: 0.05, minRedeemPoints: 100, maxRedeemShare: 0.5 });
+
+  it('reads card numbers typed in or scanned', () => {
+    expect(normalizeCardNumber(' 4000 1234-56 ')).toBe('4000123456');
+    expect(normalizeCardNumber('12')).toBeNull();
+    expect(parseLoyaltyQr('loyalty:4000123456')).toBe('4000123456');
+    expect(parseLoyaltyQr('https://hesburger.ro/loyalty/ab123456?utm=qr')).toBe('AB123456');
+    expect(parseLoyaltyQr('https://restaurant.com/table/7')).toBeNull();
+    expect(parseLoyaltyQr('table-5')).toBeNull();
+  });
+
+  it('earns whole points on what was paid', () => {
+    expect(pointsEarned(moneyOf(62.8), rules)).toBe(62);
+    expect(pointsEarned(moneyOf(0.99), rules)).toBe(0);
+    expect(pointsEarned(moneyOf(12.9), { ...rules, pointsPerLei: 10 })).toBe(129);
+  });
+
+  it('redeems up to the share of the items points may pay for', () => {
+    expect(redeemablePoints(500, moneyOf(60), rules)).toBe(500);
+    expect(redeemablePoints(500, moneyOf(40), rules)).toBe(400);
+    expect(redeemablePoints(90, moneyOf(60), rules)).toBe(0);
+    expect(redeemablePoints(500, moneyOf(8), rules)).toBe(0);
+    expect(redeemablePoints(500, moneyOf(8), loyaltyRules({}))).toBe(160);
+  });
+
+  it('converts between points and money', () => {
+    expect(toMajor(pointsValue(400, rules))).toBe(20);
+    expect(toMajor(pointsValue(400, rules, moneyOf(15)))).toBe(15);
+    expect(pointsFor(moneyOf(20), rules)).toBe(400);
+    expect(pointsFor(moneyOf(0.07), rules)).toBe(2);
+  });
+});
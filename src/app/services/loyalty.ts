@@ -0,0 +1,81 @@
+import { LoyaltyConfig } from '../config/config-types';
+import { Money, minMoney, moneyOf, toMajor, zero } from './money';
+
+// =============== LOYALTY ===============
+// Customers identify with the number of their fidelity card, typed in or scanned
+// from the card's QR code. Points are earned on what is paid for the items (fees
+// do not count) and redeemed as an amount off the order at checkout.
+
+// Code of the discount redeemed points give in the price breakdown
+export const LOYALTY_DISCOUNT_CODE = 'LOYALTY';
+
+// A loyalty QR code holds "LOYALTY:<card>" or a link ending in /loyalty/<card>
+const LOYALTY_QR_PREFIX = 'LOYALTY:';
+const CARD_NUMBER_PATTERN = /^[A-Z0-9]{6,20}$/;
+
+export interface LoyaltyRules {
+  pointsPerLei: number;
+  pointValue: number;
+  minRedeemPoints: number;
+  maxRedeemShare: number;
+}
+
+// What an order does to its card, worked out when it is placed
+export interface OrderLoyalty {
+  card: string;
+  // Before the order
+  balance: number;
+  redeemedPoints: number;
+  earnedPoints: number;
+  // Ledger entry holding the redeemed points while the order goes out
+  holdId?: string;
+}
+
+export function loyaltyRules(config: LoyaltyConfig): LoyaltyRules {
+  return {
+    pointsPerLei: config.pointsPerLei ?? 1,
+    pointValue: config.pointValue ?? 0.05,
+    minRedeemPoints: config.minRedeemPoints ?? 0,
+    maxRedeemShare: config.maxRedeemShare ?? 1
+  };
+}
+
+// The card number without spaces or dashes, or null when it cannot be one
+export function normalizeCardNumber(input: string): string | null {
+  const card = input.replace(/[\s-]/g, '').toUpperCase();
+  return CARD_NUMBER_PATTERN.test(card) ? card : null;
+}
+
+// The card number in a scanned loyalty QR code, or null for any other code
+export function parseLoyaltyQr(text: string): string | null {
+  const trimmed = text.trim();
+  if (trimmed.toUpperCase().startsWith(LOYALTY_QR_PREFIX)) {
+    return normalizeCardNumber(trimmed.slice(LOYALTY_QR_PREFIX.length));
+  }
+
+  const match = /\/loyalty\/([^/?#]+)\/?(?:[?#].*)?$/i.exec(trimmed);
+  return match ? normalizeCardNumber(decodeURIComponent(match[1])) : null;
+}
+
+export function pointsEarned(paid: Money, rules: LoyaltyRules): number {
+  return Math.max(Math.floor(toMajor(paid) * rules.pointsPerLei + 1e-9), 0);
+}
+
+// Most of the balance that can go towards `payable`; 0 when that is under the minimum
+export function redeemablePoints(balance: number, payable: Money, rules: LoyaltyRules): number {
+  if (rules.pointValue <= 0) return 0;
+
+  const covered = Math.floor(toMajor(payable) * rules.maxRedeemShare / rules.pointValue + 1e-9);
+  const points = Math.max(Math.min(Math.floor(balance), covered), 0);
+  return points >= Math.max(rules.minRedeemPoints, 1) ? points : 0;
+}
+
+export function pointsValue(points: number, rules: LoyaltyRules, limit?: Money): Money {
+  const value = points > 0 ? moneyOf(points * rules.pointValue) : zero();
+  return limit ? minMoney(value, limit) : value;
+}
+
+// Points an amount taken off by redeeming stands for
+export function pointsFor(value: Money, rules: LoyaltyRules): number {
+  return rules.pointValue > 0 ? Math.ceil(toMajor(value) / rules.pointValue - 1e-9) : 0;
+}
@@ -0,0 +1,44 @@
+import { ProductCategoryDto } from '../api/freya-dto';
+import { OTHER_CATEGORY, buildApiCategories, categoriesInUse, keywordCategoryFor } from './menu-categories';
+
+describe('buildApiCategories', () => {
+  const category = (uid: string, fields: Partial<ProductCategoryDto> = {}): ProductCategoryDto => ({ uid, name: uid.toUpperCase(), ...fields });
+
+  it('orders active categories by displayOrder and keeps the API uid as id', () => {
+    const categories = buildApiCategories([
+      category('drinks', { displayOrder: 4, icon: '🥤', alias: 'drinks' }),
+      category('burgers', { displayOrder: 1, icon: '🍔' }),
+      category('seasonal', { displayOrder: 2, isActive: false })
+    ]);
+
+    expect(categories).toEqual([
+      { id: 'burgers', name: 'BURGERS', icon: '🍔', alias: undefined },
+      { id: 'drinks', name: 'DRINKS', icon: '🥤', alias: 'drinks' }
+    ]);
+  });
+
+  it('falls back to the response order and a default icon', () => {
+    const categories = buildApiCategories([category('b'), category('a'), category('c', { icon: null })]);
+
+    expect(categories.map(c => c.id)).toEqual(['b', 'a', 'c']);
+    expect(categories[2].icon).toBe('🍴');
+  });
+});
+
+describe('categoriesInUse', () => {
+  it('drops empty categories and appends "Other" when products fell through', () => {
+    const categories = [{ id: 'b', name: 'B', icon: '🍔' }, { id: 'c', name: 'C', icon: '🥤' }];
+
+    expect(categoriesInUse(categories, [{ category: 'c' }, { category: OTHER_CATEGORY.id }]))
+      .toEqual([categories[1], OTHER_CATEGORY]);
+    expect(categoriesInUse(categories, [{ category: 'b' }])).toEqual([categories[0]]);
+  });
+});
+
+describe('keywordCategoryFor', () => {
+  it('sorts products by keywords in their name or alias', () => {
+    expect(keywordCategoryFor('Double Cheeseburger')).toBe('burgers');
+    expect(keywordCategoryFor('Aripioare 8 buc', 'hot-wings-8')).toBe('chicken');
+    expect(keywordCategoryFor('Salată', null)).toBe(OTHER_CATEGORY.id);
+  });
+});
@@ -0,0 +1,70 @@
+import { ProductCategoryDto } from '../api/freya-dto';
+
+// =============== MENU CATEGORIES ===============
+// The category bar normally mirrors ProductCategory/FindMany and products are grouped
+// by their productCategoryUid. Tenants whose categories are not maintained in Freya
+// can switch to the keyword mode, which sorts products into fixed categories by name.
+
+export interface MenuCategory {
+  // Value of Product.category for the products in this category
+  id: string;
+  name: string;
+  icon: string;
+  alias?: string;
+}
+
+export const ALL_CATEGORY: MenuCategory = { id: 'all', name: 'All Items', icon: '🍽️' };
+
+// Catches products whose category is unknown or missing
+export const OTHER_CATEGORY: MenuCategory = { id: 'other', name: 'Other', icon: '📦' };
+
+const DEFAULT_CATEGORY_ICON = '🍴';
+
+export const KEYWORD_CATEGORIES: MenuCategory[] = [
+  { id: 'burgers', name: 'Burgers', icon: '🍔' },
+  { id: 'chicken', name: 'Chicken', icon: '🍗' },
+  { id: 'sides', name: 'Sides', icon: '🍟' },
+  { id: 'drinks', name: 'Drinks', icon: '🥤' },
+  { id: 'desserts', name: 'Desserts', icon: '🍦' },
+  OTHER_CATEGORY
+];
+
+export function keywordCategoryFor(...texts: (string | null | undefined)[]): string {
+  const searchText = texts.map(text => String(text || '').toLowerCase()).join(' ');
+
+  if (searchText.includes('burger') || searchText.includes('big mac') || searchText.includes('whopper')) return 'burgers';
+  if (searchText.includes('chicken') || searchText.includes('wing') || searchText.includes('nugget')) return 'chicken';
+  if (searchText.includes('fries') || searchText.includes('ring') || searchText.includes('onion') || searchText.includes('potato')) return 'sides';
+  if (searchText.includes('cola') || searchText.includes('drink') || searchText.includes('juice') || searchText.includes('coffee') || searchText.includes('tea')) return 'drinks';
+  if (searchText.includes('ice cream') || searchText.includes('dessert') || searchText.includes('cake') || searchText.includes('pie')) return 'desserts';
+
+  return OTHER_CATEGORY.id;
+}
+
+/**
+ * Active API categories in display order: `displayOrder` when the API sends it,
+ * otherwise the order of the response. Category ids are the API uids.
+ */
+export function buildApiCategories(categories: ProductCategoryDto[]): MenuCategory[] {
+  return categories
+    .map((category, index) => ({ category, index }))
+    .filter(({ category }) => category.isActive !== false)
+    .sort((a, b) => (a.category.displayOrder ?? a.index) - (b.category.displayOrder ?? b.index) || a.index - b.index)
+    .map(({ category }) => ({
+      id: category.uid,
+      name: category.name,
+      icon: category.icon || DEFAULT_CATEGORY_ICON,
+      alias: category.alias ?? undefined
+    }));
+}
+
+// Only categories that have something to show, plus "Other" when products fell through
+export function categoriesInUse(categories: MenuCategory[], products: { category: string }[]): MenuCategory[] {
+  const used = new Set(products.map(product => product.category));
+  const inUse = categories.filter(category => used.has(category.id));
+
+  if (used.has(OTHER_CATEGORY.id) && !inUse.some(category => category.id === OTHER_CATEGORY.id)) {
+    inUse.push(OTHER_CATEGORY);
+  }
+  return inUse;
+}
@@ -0,0 +1,45 @@
+import {
+  CurrencyMismatchError,
+  add,
+  allocate,
+  formatMoney,
+  money,
+  moneyOf,
+  multiply,
+  roundHalfEven,
+  subtract,
+  sumMoney,
+  toMajor
+} from './money';
+
+describe('money', () => {
+  it('keeps decimal prices exact in minor units', () => {
+    expect(moneyOf(12.9)).toEqual({ amount: 1290, currency: 'RON' });
+    expect(toMajor(sumMoney([moneyOf(0.1), moneyOf(0.2)]))).toBe(0.3);
+    expect(toMajor(subtract(moneyOf(10), moneyOf(9.99)))).toBe(0.01);
+    expect(moneyOf(7.005)).toEqual(moneyOf(7));
+  });
+
+  it('rounds half to even', () => {
+    expect([0.5, 1.5, 2.5, -2.5, 2.4999, 2.5001].map(roundHalfEven)).toEqual([0, 2, 2, -2, 2, 3]);
+    expect(multiply(money(5), 0.5)).toEqual(money(2));
+    expect(multiply(money(7), 0.5)).toEqual(money(4));
+    expect(multiply(moneyOf(25.9), 3)).toEqual(moneyOf(77.7));
+  });
+
+  it('refuses fractions of a minor unit and mixed currencies', () => {
+    expect(() => money(10.5)).toThrowError(RangeError);
+    expect(() => add(money(100), money(100, 'EUR'))).toThrowError(CurrencyMismatchError);
+  });
+
+  it('allocates every minor unit', () => {
+    expect(allocate(money(100), [1, 1, 1])).toEqual([money(34), money(33), money(33)]);
+    expect(allocate(money(1000), [5180, 850])).toEqual([money(859), money(141)]);
+    expect(allocate(money(5), [0, 0])).toEqual([money(3), money(2)]);
+  });
+
+  it('formats with the currency', () => {
+    expect(formatMoney(moneyOf(1234.5))).toBe(new Intl.NumberFormat('ro-RO', { style: 'currency', currency: 'RON' }).format(1234.5));
+    expect(formatMoney(moneyOf(8, 'EUR'), 'en-US')).toBe('€8.00');
+  });
+});
@@ -0,0 +1,149 @@
+// =============== MONEY ===============
+// Amounts of money are integers of the currency's minor unit (bani for RON) tagged
+// with the currency, never floats: sums are exact and rounding happens in one place,
+// half to even. Decimal prices from the API become Money with moneyOf() as soon as
+// they are read, and go back with toMajor() only in what is sent to it.
+
+export const DEFAULT_CURRENCY = 'RON';
+
+// Every currency the app handles has two decimals
+const MINOR_UNITS_PER_MAJOR = 100;
+
+export interface Money {
+  // Minor units, always an integer
+  readonly amount: number;
+  readonly currency: string;
+}
+
+export class CurrencyMismatchError extends Error {
+  constructor(public readonly left: string, public readonly right: string) {
+    super(`Cannot combine ${left} with ${right}`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+export function money(minorUnits: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new RangeError(`Money needs a whole number of minor units, got ${minorUnits}`);
+  }
+  return { amount: minorUnits === 0 ? 0 : minorUnits, currency };
+}
+
+export function zero(currency: string = DEFAULT_CURRENCY): Money {
+  return money(0, currency);
+}
+
+// From a decimal amount such as the API's 12.9; fractions of a ban are rounded half to even
+export function moneyOf(majorUnits: number, currency: string = DEFAULT_CURRENCY): Money {
+  return money(roundHalfEven(majorUnits * MINOR_UNITS_PER_MAJOR), currency);
+}
+
+// The decimal amount, e.g. for the API or a number input
+export function toMajor(value: Money): number {
+  return value.amount / MINOR_UNITS_PER_MAJOR;
+}
+
+export function add(first: Money, ...others: Money[]): Money {
+  return others.reduce((total, value) => money(total.amount + sameCurrency(total, value).amount, total.currency), first);
+}
+
+export function subtract(value: Money, other: Money): Money {
+  return money(value.amount - sameCurrency(value, other).amount, value.currency);
+}
+
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return add(zero(currency), ...values);
+}
+
+// By a quantity or a rate; the result is rounded half to even
+export function multiply(value: Money, factor: number): Money {
+  return money(roundHalfEven(value.amount * factor), value.currency);
+}
+
+export function negate(value: Money): Money {
+  return money(-value.amount, value.currency);
+}
+
+export function minMoney(value: Money, other: Money): Money {
+  return sameCurrency(value, other).amount < value.amount ? other : value;
+}
+
+export function maxMoney(value: Money, other: Money): Money {
+  return sameCurrency(value, other).amount > value.amount ? other : value;
+}
+
+// For amounts read back from storage or another device
+export function isMoney(value: unknown): value is Money {
+  const candidate = value as Money;
+  return Number.isSafeInteger(candidate?.amount) && typeof candidate.currency === 'string';
+}
+
+export function isZero(value: Money): boolean {
+  return value.amount === 0;
+}
+
+export function isPositive(value: Money): boolean {
+  return value.amount > 0;
+}
+
+export function equalsMoney(value: Money, other: Money): boolean {
+  return value.currency === other.currency && value.amount === other.amount;
+}
+
+/**
+ * Splits an amount in proportion to the weights. The minor units lost to rounding
+ * go to the largest remainders (the first ones on a tie), so the parts always add
+ * up to the amount. Zero weights everywhere split it evenly.
+ */
+export function allocate(value: Money, weights: number[]): Money[] {
+  if (weights.length === 0) return [];
+
+  const effective = weights.some(weight => weight > 0) ? weights.map(weight => Math.max(weight, 0)) : weights.map(() => 1);
+  const totalWeight = effective.reduce((total, weight) => total + weight, 0);
+  const exact = effective.map(weight => value.amount * weight / totalWeight);
+  const parts = exact.map(Math.floor);
+
+  let leftover = value.amount - parts.reduce((total, part) => total + part, 0);
+  const byRemainder = exact
+    .map((part, index) => ({ index, remainder: part - Math.floor(part) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index]++;
+    leftover--;
+  }
+  return parts.map(part => money(part, value.currency));
+}
+
+// The one way amounts are shown, e.g. "12,90 RON"
+export function formatMoney(value: Money, locale = 'ro-RO'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(toMajor(value));
+}
+
+/**
+ * Rounds to the nearest integer, halves to the even neighbour (2.5 -> 2, 3.5 -> 4).
+ * Products like 12.9 * 100 land a hair off the integer in binary floating point, so
+ * anything within a rounding error of a whole number or a half counts as one.
+ */
+export function roundHalfEven(value: number): number {
+  const nearest = Math.round(value);
+  if (Math.abs(value - nearest) < 1e-9) return nearest;
+
+  const floor = Math.floor(value);
+  if (Math.abs(value - floor - 0.5) < 1e-9) {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return nearest;
+}
+
+function sameCurrency(value: Money, other: Money): Money {
+  if (value.currency !== other.currency) {
+    throw new CurrencyMismatchError(value.currency, other.currency);
+  }
+  return other;
+}
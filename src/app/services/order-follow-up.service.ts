@@ -0,0 +1,124 @@
+import { Injectable } from '@angular/core';
+import { HesburgerApiService } from './api.service';
+import { OrderOutboxService, OutboxEntry } from './order-outbox.service';
+import { PromotionService } from './promotion.service';
+import { LoyaltyService } from './loyalty.service';
+
+const HELD_CARTS_KEY = 'hesburger_held_carts';
+
+/**
+ * What happens to an order after it leaves the checkout page. Created when the app
+ * starts, it follows the outbox whether or not the page is still open: a queued
+ * order's cart is emptied and held until the order is placed, and given back when
+ * the API refuses it, along with the loyalty points it held; a placed order counts
+ * towards its promo codes' usage limits and earns its loyalty points. The entry is
+ * marked settled once that is done; until then any tab may follow it up again, which
+ * changes nothing, as the usage store and the ledger key everything by the order.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderFollowUpService {
+  // Orders this tab is following up right now
+  private inProgress = new Set<string>();
+
+  constructor(
+    private apiService: HesburgerApiService,
+    private orderOutbox: OrderOutboxService,
+    private promotions: PromotionService,
+    private loyalty: LoyaltyService
+  ) {
+    this.orderOutbox.entries$.subscribe(entries => entries.forEach(entry => this.followUp(entry)));
+  }
+
+  // =============== PUBLIC API ===============
+
+  /**
+   * Empties the cart of a queued order, once. The outbox has a copy of its lines;
+   * they go back into the table's cart if the order ends up rejected.
+   */
+  holdCart(entry: OutboxEntry): void {
+    const held = this.loadHeldCarts();
+    if (held[entry.idempotencyKey] !== undefined) return;
+
+    this.saveHeldCarts({ ...held, [entry.idempotencyKey]: entry.order.tableId });
+    this.apiService.clearCart();
+  }
+
+  // =============== FOLLOW-UP ===============
+
+  private followUp(entry: OutboxEntry): void {
+    if (entry.status === 'rejected') {
+      this.releaseCart(entry, true);
+      this.releasePoints(entry);
+    } else if (entry.status === 'submitted') {
+      this.releaseCart(entry, false);
+      this.settle(entry);
+    }
+  }
+
+  private settle(entry: OutboxEntry): void {
+    const orderNumber = entry.response?.data?.orderNumber;
+    if (!orderNumber) return;
+
+    const order = entry.order;
+    this.once(entry, () => Promise.all([
+      logFailure(this.promotions.recordUse(orderNumber, order.pricing?.discounts.map(discount => discount.code) ?? []), 'Could not count the promo code use'),
+      order.loyalty && logFailure(this.loyalty.settle(orderNumber, order.loyalty), 'Could not record the loyalty points')
+    ]));
+  }
+
+  private releasePoints(entry: OutboxEntry): void {
+    const loyalty = entry.order.loyalty;
+    if (!loyalty?.holdId) return;
+
+    this.once(entry, () => logFailure(this.loyalty.release(loyalty), 'Could not give back the loyalty points'));
+  }
+
+  // Marks the entry settled once the follow-up went through; a failed one is tried
+  // again the next time the outbox changes
+  private once(entry: OutboxEntry, followUp: () => Promise<unknown>): void {
+    const key = entry.idempotencyKey;
+    if (entry.settled || this.inProgress.has(key)) return;
+    this.inProgress.add(key);
+
+    followUp()
+      .then(() => this.orderOutbox.markSettled(key))
+      .catch(() => undefined)
+      .finally(() => this.inProgress.delete(key));
+  }
+
+  private releaseCart(entry: OutboxEntry, restore: boolean): void {
+    const held = this.loadHeldCarts();
+    const tableId = held[entry.idempotencyKey];
+    if (tableId === undefined) return;
+
+    delete held[entry.idempotencyKey];
+    this.saveHeldCarts(held);
+    if (restore) {
+      console.log(`↩️ Order ${entry.idempotencyKey} was refused, its lines go back into the cart of table ${tableId}`);
+      this.apiService.restoreCartLines(tableId, entry.order.items);
+    }
+  }
+
+  // Idempotency key -> table of the queued orders whose carts were emptied
+  private loadHeldCarts(): { [idempotencyKey: string]: string } {
+    try {
+      const stored = JSON.parse(localStorage.getItem(HELD_CARTS_KEY) ?? '{}');
+      return stored && typeof stored === 'object' ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveHeldCarts(held: { [idempotencyKey: string]: string }): void {
+    localStorage.setItem(HELD_CARTS_KEY, JSON.stringify(held));
+  }
+}
+
+function logFailure<T>(promise: Promise<T>, message: string): Promise<T> {
+  return promise.catch(error => {
+    console.error(`❌ ${message}:`, error);
+    throw error;
+  });
+}
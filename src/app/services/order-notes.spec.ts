@@ -0,0 +1,31 @@
+import { hasQuickNote, itemDescription, normalizeInstructions, toggleQuickNote } from './order-notes';
+
+describe('order notes', () => {
+  it('normalizes whitespace and cuts instructions to the limit', () => {
+    expect(normalizeInstructions('  fără   ceapă \n bine făcut ')).toBe('fără ceapă bine făcut');
+    expect(normalizeInstructions('x'.repeat(200)).length).toBe(140);
+    expect(normalizeInstructions(null)).toBe('');
+  });
+
+  it('adds a quick note and takes it out again', () => {
+    const withNote = toggleQuickNote('Tăiat în două', 'Fără sos');
+    expect(withNote).toBe('Tăiat în două, Fără sos');
+    expect(hasQuickNote(withNote, 'fără sos')).toBeTrue();
+    expect(toggleQuickNote(withNote, 'Fără sos')).toBe('Tăiat în două');
+  });
+
+  it('does not add a quick note past the limit', () => {
+    const full = 'x'.repeat(135);
+    expect(toggleQuickNote(full, 'Fără sos', 140)).toBe(full);
+  });
+
+  it('describes an item with its removals first', () => {
+    expect(itemDescription(['Ceapă', 'Sos'], ' bine făcut ')).toBe('Fără: Ceapă, Sos; bine făcut');
+    expect(itemDescription([], 'bine făcut')).toBe('bine făcut');
+    expect(itemDescription([], '  ')).toBeNull();
+  });
+
+  it('names the diner of a shared cart first', () => {
+    expect(itemDescription(['Ceapă'], 'bine făcut', 'Ana')).toBe('Pentru: Ana; Fără: Ceapă; bine făcut');
+  });
+});
@@ -0,0 +1,57 @@
+// =============== ORDER NOTES ===============
+// Free text for the kitchen: instructions on a cart line and the order's special
+// requests. Both travel in the `description` fields of /ClientOrder/Insert.
+
+export const ITEM_INSTRUCTIONS_MAX_LENGTH = 140;
+export const ORDER_REQUESTS_MAX_LENGTH = 500;
+
+// Offered as one-tap additions to a line's instructions; sent as written
+export const QUICK_NOTES: string[] = [
+  'Fără ceapă',
+  'Fără sos',
+  'Sos separat',
+  'Bine făcut',
+  'Fără gheață',
+  'Tăiat în două'
+];
+
+// Trimmed, with runs of whitespace collapsed and cut to the limit; empty when there is nothing to say
+export function normalizeInstructions(instructions: string | null | undefined, maxLength = ITEM_INSTRUCTIONS_MAX_LENGTH): string {
+  return String(instructions ?? '').replace(/\s+/g, ' ').trim().slice(0, maxLength).trim();
+}
+
+export function hasQuickNote(instructions: string, note: string): boolean {
+  return splitNotes(instructions).some(part => part.toLowerCase() === note.toLowerCase());
+}
+
+// Adds the note, or takes it out again when it is already there; refuses to go over the limit
+export function toggleQuickNote(instructions: string, note: string, maxLength = ITEM_INSTRUCTIONS_MAX_LENGTH): string {
+  const parts = splitNotes(instructions);
+  if (hasQuickNote(instructions, note)) {
+    return parts.filter(part => part.toLowerCase() !== note.toLowerCase()).join(', ');
+  }
+
+  const combined = [...parts, note].join(', ');
+  return combined.length <= maxLength ? combined : instructions;
+}
+
+// Description of an order item: who it is for at a shared table, what to leave out,
+// then the diner's own words
+export function itemDescription(removed: string[], instructions: string | null | undefined, diner?: string): string | null {
+  const parts: string[] = [];
+  if (diner) {
+    parts.push(`Pentru: ${diner}`);
+  }
+  if (removed.length > 0) {
+    parts.push(`Fără: ${removed.join(', ')}`);
+  }
+  const note = normalizeInstructions(instructions);
+  if (note) {
+    parts.push(note);
+  }
+  return parts.length > 0 ? parts.join('; ') : null;
+}
+
+function splitNotes(instructions: string): string[] {
+  return instructions.split(',').map(part => part.trim()).filter(part => part.length > 0);
+}
@@ -0,0 +1,238 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, ReplaySubject, of } from 'rxjs';
+import { CustomerInfo, HesburgerApiService, Order, OrderErrorKind, OrderResponse } from './api.service';
+import { OrderOutboxService, OutboxEntry } from './order-outbox.service';
+import { NO_FEES, priceOrder } from './pricing';
+
+describe('OrderOutboxService', () => {
+  let createOrder: jasmine.Spy<(order: Order, idempotencyKey?: string) => Observable<OrderResponse>>;
+  let outbox: OrderOutboxService;
+
+  const order: Order = {
+    tableId: 'T1',
+    customerInfo: { firstName: 'Ana', lastName: 'Pop', email: 'ana@example.com', phone: '0700000000' },
+    items: [],
+    paymentMethod: 'card',
+    pricing: priceOrder([], NO_FEES)
+  };
+
+  const accepted: OrderResponse = {
+    isSuccess: true,
+    data: { id: 1, orderNumber: 'M00001', status: 'received', estimatedTime: 12, totalAmount: 0, createdAt: '2026-01-01T12:00:00.000Z' },
+    message: 'Order created',
+    timestamp: '2026-01-01T12:00:00.000Z'
+  };
+
+  function failed(kind: OrderErrorKind): OrderResponse {
+    return {
+      isSuccess: false,
+      data: null,
+      message: `${kind} failure`,
+      timestamp: '2026-01-01T12:00:00.000Z',
+      error: { kind, status: kind === 'network' ? 0 : 400, message: `${kind} failure` },
+      shouldRetry: kind === 'network' || kind === 'server'
+    };
+  }
+
+  function stored(key: string): OutboxEntry | undefined {
+    return outbox['memoryStore'].get(key);
+  }
+
+  // The service flushes once when it starts; tests flush when they mean to
+  async function idle(): Promise<void> {
+    do {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    } while (outbox['isFlushing']);
+  }
+
+  beforeEach(async () => {
+    // The in-memory store keeps every test to its own entries
+    spyOnProperty(window, 'indexedDB').and.returnValue(undefined as unknown as IDBFactory);
+    createOrder = jasmine.createSpy('createOrder');
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: HesburgerApiService, useValue: { createOrder } }]
+    });
+    outbox = TestBed.inject(OrderOutboxService);
+    await idle();
+  });
+
+  it('marks an order the API accepts as submitted', async () => {
+    createOrder.and.returnValue(of(accepted));
+
+    const entry = await outbox.submit(order, 'accepted-key');
+
+    expect(entry.status).toBe('submitted');
+    expect(entry.attempts).toBe(1);
+    expect(entry.response?.data?.orderNumber).toBe('M00001');
+    expect(createOrder).toHaveBeenCalledOnceWith(jasmine.objectContaining({ tableId: 'T1' }), 'accepted-key');
+  });
+
+  it('stores the order as submitting before it goes out', async () => {
+    let statusWhileSending: string | undefined;
+    createOrder.and.callFake((_, key) => {
+      statusWhileSending = stored(key!)?.status;
+      return of(accepted);
+    });
+
+    await outbox.submit(order, 'submitting-key');
+
+    expect(statusWhileSending).toBe('submitting');
+  });
+
+  it('never stores payment card fields', async () => {
+    createOrder.and.returnValue(of(failed('network')));
+    const customerInfo = { ...order.customerInfo, cardNumber: '4111111111111111', cvv: '123' } as CustomerInfo;
+
+    await outbox.submit({ ...order, customerInfo }, 'card-key');
+
+    expect(Object.keys(stored('card-key')!.order.customerInfo)).not.toContain('cardNumber');
+    expect(Object.keys(stored('card-key')!.order.customerInfo)).not.toContain('cvv');
+  });
+
+  it('keeps an order queued while offline and sends it again with the same key', async () => {
+    createOrder.and.returnValue(of(failed('network')));
+    const queued = await outbox.submit(order, 'offline-key');
+    expect(queued.status).toBe('queued');
+    expect(outbox.pendingCount).toBe(1);
+
+    createOrder.and.returnValue(of(accepted));
+    await outbox.flush();
+
+    expect(stored('offline-key')?.status).toBe('submitted');
+    expect(stored('offline-key')?.attempts).toBe(2);
+    expect(createOrder.calls.allArgs().map(([, key]) => key)).toEqual(['offline-key', 'offline-key']);
+    expect(outbox.pendingCount).toBe(0);
+  });
+
+  it('keeps an order waiting for its table session queued without holding up the others', async () => {
+    createOrder.and.returnValue(of(failed('network')));
+    await outbox.submit({ ...order, tableId: 'T2' }, 'other-table-key');
+    await outbox.submit(order, 'open-table-key');
+
+    createOrder.and.callFake(queued => of(queued.tableId === 'T2' ? failed('session') : accepted));
+    await outbox.flush();
+
+    expect(stored('other-table-key')?.status).toBe('queued');
+    expect(stored('open-table-key')?.status).toBe('submitted');
+  });
+
+  it('does not send a rejected order again', async () => {
+    createOrder.and.returnValue(of(failed('validation')));
+
+    const entry = await outbox.submit(order, 'rejected-key');
+    await outbox.flush();
+
+    expect(entry.status).toBe('rejected');
+    expect(entry.lastError?.kind).toBe('validation');
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores that a placed order was followed up, and only for a placed or refused one', async () => {
+    createOrder.and.returnValue(of(accepted));
+    await outbox.submit(order, 'settled-key');
+    createOrder.and.returnValue(of(failed('network')));
+    await outbox.submit(order, 'queued-key');
+
+    await outbox.markSettled('settled-key');
+    await outbox.markSettled('queued-key');
+
+    expect(stored('settled-key')?.settled).toBeTrue();
+    expect(stored('queued-key')?.settled).toBeUndefined();
+  });
+
+  it('sends an order once when a flush runs while it is being submitted', async () => {
+    const answer = new ReplaySubject<OrderResponse>(1);
+    createOrder.and.returnValue(answer);
+    setTimeout(() => answer.next(accepted), 20);
+
+    const submitting = outbox.submit(order, 'busy-key');
+    const flushing = outbox.flush();
+    await Promise.all([submitting, flushing]);
+
+    expect(createOrder).toHaveBeenCalledTimes(1);
+    expect(stored('busy-key')?.status).toBe('submitted');
+  });
+
+  it('returns an order already handed over instead of sending it again', async () => {
+    createOrder.and.returnValue(of(accepted));
+
+    await outbox.submit(order, 'twice-key');
+    const again = await outbox.submit(order, 'twice-key');
+
+    expect(again.status).toBe('submitted');
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not resend an order a closed tab left submitting, nor one still in flight', async () => {
+    createOrder.and.returnValue(of(accepted));
+    const now = Date.now();
+    const entry = (key: string, updatedAt: number): OutboxEntry => ({
+      idempotencyKey: key,
+      order,
+      status: 'submitting',
+      attempts: 1,
+      createdAt: new Date(updatedAt).toISOString(),
+      updatedAt: new Date(updatedAt).toISOString()
+    });
+    outbox['memoryStore'].set('stale-key', entry('stale-key', now - 5 * 60 * 1000));
+    outbox['memoryStore'].set('in-flight-key', entry('in-flight-key', now));
+
+    await outbox.flush();
+
+    expect(stored('stale-key')?.status).toBe('unknown');
+    expect(stored('in-flight-key')?.status).toBe('submitting');
+    expect(createOrder).not.toHaveBeenCalled();
+  });
+
+  it('leaves an order without a clear answer to the customer instead of resending it', async () => {
+    createOrder.and.returnValue(of(failed('unconfirmed')));
+
+    const entry = await outbox.submit(order, 'slow-key');
+    await outbox.flush();
+    const again = await outbox.submit(order, 'slow-key');
+
+    expect(entry.status).toBe('unknown');
+    expect(again.status).toBe('unknown');
+    expect(outbox.unknownOrderFor('T1')?.idempotencyKey).toBe('slow-key');
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends an order without a clear answer again when the customer says it did not arrive', async () => {
+    createOrder.and.returnValue(of(failed('unconfirmed')));
+    await outbox.submit(order, 'missing-key');
+
+    createOrder.and.returnValue(of(accepted));
+    const entry = await outbox.resend('missing-key');
+
+    expect(entry?.status).toBe('submitted');
+    expect(createOrder.calls.allArgs().map(([, key]) => key)).toEqual(['missing-key', 'missing-key']);
+  });
+
+  it('counts an order without a clear answer as placed when the customer says it arrived', async () => {
+    createOrder.and.returnValue(of(failed('unconfirmed')));
+    await outbox.submit(order, 'arrived-key');
+
+    const entry = await outbox.confirmArrived('arrived-key');
+
+    expect(entry?.status).toBe('submitted');
+    expect(outbox.unknownOrderFor('T1')).toBeUndefined();
+    expect(createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for another tab\'s lease where the browser has no Web Locks', async () => {
+    spyOnProperty(navigator, 'locks').and.returnValue(undefined as unknown as LockManager);
+    localStorage.setItem('hesburger_outbox_lease', JSON.stringify({ owner: 'other-tab', expiresAt: Date.now() + 10000 }));
+    createOrder.and.returnValue(of(accepted));
+
+    const submitting = outbox.submit(order, 'leased-key');
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(createOrder).not.toHaveBeenCalled();
+
+    localStorage.removeItem('hesburger_outbox_lease');
+    const entry = await submitting;
+
+    expect(entry.status).toBe('submitted');
+    expect(localStorage.getItem('hesburger_outbox_lease')).toBeNull();
+  });
+});
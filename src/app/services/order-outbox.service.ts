@@ -0,0 +1,402 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { HesburgerApiService, Order, OrderError, OrderResponse, customerInfoOf } from './api.service';
+
+// queued     - stored locally, waiting for connectivity (or for its table's session)
+// submitting - a request carrying the idempotency key is in flight
+// submitted  - the API accepted the order (response holds the server order), or the
+//              customer confirmed the restaurant has it (no response)
+// rejected   - the API answered with a non-network error, it will not be resent
+// unknown    - sent, but no answer says whether it arrived (timed out, unreadable, or a
+//              tab closed mid-request). Never resent by itself: only the customer can
+//              send it again, once the restaurant says it does not have it.
+export type OutboxStatus = 'queued' | 'submitting' | 'submitted' | 'rejected' | 'unknown';
+
+export interface OutboxEntry {
+  idempotencyKey: string;
+  order: Order;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: OrderError;
+  response?: OrderResponse;
+  // Followed up: a placed order's promo code uses and loyalty points are recorded,
+  // a refused one's held points given back. Stored so no tab or reload does it twice.
+  settled?: boolean;
+}
+
+const DB_NAME = 'hesburger_outbox';
+const STORE_NAME = 'orders';
+const LOCK_NAME = 'hesburger_outbox_flush';
+// Stands in for the lock where the browser has no Web Locks
+const LEASE_KEY = 'hesburger_outbox_lease';
+const LEASE_MS = 20000;
+const LEASE_POLL_MS = 250;
+const RETRY_INTERVAL_MS = 30000;
+const SUBMITTED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const STALE_SUBMISSION_MS = 60000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderOutboxService implements OnDestroy {
+  private entriesSubject = new BehaviorSubject<OutboxEntry[]>([]);
+  public entries$ = this.entriesSubject.asObservable();
+
+  private dbPromise: Promise<IDBDatabase | null>;
+  private memoryStore = new Map<string, OutboxEntry>();
+  private isFlushing = false;
+  // Tail of the sends started in this tab, each waiting for the one before
+  private sending: Promise<unknown> = Promise.resolve();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private onlineListener = () => this.flush();
+  // Owner of the lease this tab writes
+  private readonly tabId = this.createIdempotencyKey();
+
+  constructor(private apiService: HesburgerApiService, private zone: NgZone) {
+    this.dbPromise = this.openDatabase();
+    window.addEventListener('online', this.onlineListener);
+
+    this.refresh().then(() => {
+      console.log('📮 Order outbox ready:', this.entriesSubject.value.length, 'entries');
+      this.flush();
+    });
+  }
+
+  ngOnDestroy(): void {
+    window.removeEventListener('online', this.onlineListener);
+    this.stopRetryTimer();
+  }
+
+  // =============== PUBLIC API ===============
+
+  /**
+   * Stores the order under a fresh (or the given) idempotency key and submits it.
+   * An order that did not go out stays queued for background resubmission; one that
+   * went out without a clear answer is "unknown" and waits for the customer (see
+   * resend and confirmArrived); any other answer is final and returned as is. The entry is stored as "submitting" before
+   * the request goes out, under the same lock as flush(), so nothing else sends it
+   * meanwhile.
+   */
+  submit(order: Order, idempotencyKey: string = this.createIdempotencyKey()): Promise<OutboxEntry> {
+    return this.exclusively(async () => {
+      const existing = await this.get(idempotencyKey);
+      if (existing && existing.status !== 'queued' && existing.status !== 'rejected') {
+        console.warn('📮 Order already handed to the outbox:', idempotencyKey, existing.status);
+        return existing;
+      }
+
+      const now = new Date().toISOString();
+      const entry: OutboxEntry = {
+        idempotencyKey,
+        // Whatever the caller passed, payment card details never reach IndexedDB
+        order: { ...order, customerInfo: customerInfoOf(order.customerInfo) },
+        status: 'queued',
+        attempts: existing?.attempts ?? 0,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      };
+
+      // Persist before sending so a crash or a closed tab cannot lose the order
+      return this.send(await this.markSubmitting(entry));
+    });
+  }
+
+  watch(idempotencyKey: string): Observable<OutboxEntry | undefined> {
+    return this.entries$.pipe(
+      map(entries => entries.find(entry => entry.idempotencyKey === idempotencyKey)),
+      distinctUntilChanged((a, b) => a?.status === b?.status && a?.updatedAt === b?.updatedAt)
+    );
+  }
+
+  get pendingCount(): number {
+    return this.entriesSubject.value.filter(entry => entry.status === 'queued').length;
+  }
+
+  // An order of the table that went out without a clear answer, for the customer to resolve
+  unknownOrderFor(tableId: string): OutboxEntry | undefined {
+    return this.entriesSubject.value.find(entry => entry.status === 'unknown' && entry.order.tableId === tableId);
+  }
+
+  // The customer checked with the restaurant: it does not have the order, send it again
+  resend(idempotencyKey: string): Promise<OutboxEntry | undefined> {
+    return this.exclusively(async () => {
+      const entry = await this.get(idempotencyKey);
+      return entry?.status === 'unknown' ? this.send(await this.markSubmitting(entry)) : entry;
+    });
+  }
+
+  // The customer checked with the restaurant: it has the order, so it counts as placed
+  confirmArrived(idempotencyKey: string): Promise<OutboxEntry | undefined> {
+    return this.exclusively(async () => {
+      const entry = await this.get(idempotencyKey);
+      if (entry?.status !== 'unknown') return entry;
+
+      const arrived: OutboxEntry = { ...entry, status: 'submitted', lastError: undefined, updatedAt: new Date().toISOString() };
+      await this.put(arrived);
+      return arrived;
+    });
+  }
+
+  // A placed or refused order has been followed up; under the send lock, as it rewrites the entry
+  markSettled(idempotencyKey: string): Promise<void> {
+    return this.exclusively(async () => {
+      const entry = await this.get(idempotencyKey);
+      if (entry && !entry.settled && (entry.status === 'submitted' || entry.status === 'rejected')) {
+        await this.put({ ...entry, settled: true });
+      }
+    });
+  }
+
+  /**
+   * Resubmits every queued order. Guarded by an in-tab flag and a Web Lock (or a
+   * lease in localStorage) so two tabs never send the same entry at the same time.
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
+    try {
+      await this.exclusively(() => this.flushQueued());
+    } catch (error) {
+      console.error('❌ Outbox flush failed:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  createIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  }
+
+  // =============== SUBMISSION ===============
+
+  private async flushQueued(): Promise<void> {
+    // Another tab may have changed the store since our last read
+    await this.refresh();
+
+    const queued = this.entriesSubject.value.filter(entry => entry.status === 'queued');
+    if (queued.length === 0) return;
+
+    console.log(`📮 Resubmitting ${queued.length} queued order(s)...`);
+    for (const entry of queued) {
+      const result = await this.send(await this.markSubmitting(entry));
+      if (result.lastError?.kind === 'network') {
+        // Still offline - no point hammering the rest of the queue
+        break;
+      }
+    }
+  }
+
+  // Every send runs here: one at a time in this tab and in the browser
+  private exclusively<T>(task: () => Promise<T>): Promise<T> {
+    const run = () => navigator.locks ? navigator.locks.request(LOCK_NAME, task) as Promise<T> : this.underLease(task);
+    const result = this.sending.then(run, run);
+    this.sending = result.catch(() => undefined);
+    return result;
+  }
+
+  // =============== LEASE ===============
+
+  // Held for as long as the task runs; a tab that dies stops renewing and its lease runs out
+  private async underLease<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireLease();
+    let renewal: ReturnType<typeof setInterval> | undefined;
+    this.zone.runOutsideAngular(() => {
+      renewal = setInterval(() => this.writeLease(), LEASE_MS / 4);
+    });
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      if (this.readLease()?.owner === this.tabId) {
+        localStorage.removeItem(LEASE_KEY);
+      }
+    }
+  }
+
+  private async acquireLease(): Promise<void> {
+    for (;;) {
+      const lease = this.readLease();
+      if (!lease || lease.owner === this.tabId || lease.expiresAt < Date.now()) {
+        // Without storage there is no other tab to take turns with
+        if (!this.writeLease()) return;
+        // Two tabs may have written at once; the later write wins and the other waits
+        await new Promise(resolve => setTimeout(resolve, LEASE_POLL_MS / 5));
+        if (this.readLease()?.owner === this.tabId) return;
+      }
+      await new Promise(resolve => setTimeout(resolve, LEASE_POLL_MS));
+    }
+  }
+
+  private readLease(): { owner: string; expiresAt: number } | null {
+    try {
+      const lease = JSON.parse(localStorage.getItem(LEASE_KEY) ?? 'null');
+      return typeof lease?.owner === 'string' && typeof lease.expiresAt === 'number' ? lease : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeLease(): boolean {
+    try {
+      localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: this.tabId, expiresAt: Date.now() + LEASE_MS }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async markSubmitting(entry: OutboxEntry): Promise<OutboxEntry> {
+    const submitting: OutboxEntry = {
+      ...entry,
+      status: 'submitting',
+      attempts: entry.attempts + 1,
+      updatedAt: new Date().toISOString()
+    };
+    await this.put(submitting);
+    return submitting;
+  }
+
+  private async send(submitting: OutboxEntry): Promise<OutboxEntry> {
+    const response = await firstValueFrom(this.apiService.createOrder(submitting.order, submitting.idempotencyKey));
+
+    let status: OutboxStatus;
+    if (response.isSuccess) {
+      status = 'submitted';
+    } else if (response.error?.kind === 'network' || response.error?.kind === 'session') {
+      status = 'queued';
+    } else if (response.error?.kind === 'unconfirmed') {
+      status = 'unknown';
+    } else {
+      status = 'rejected';
+    }
+
+    const settled: OutboxEntry = {
+      ...submitting,
+      status,
+      response,
+      lastError: response.error,
+      updatedAt: new Date().toISOString()
+    };
+    await this.put(settled);
+
+    console.log(`📮 Outbox entry ${submitting.idempotencyKey} -> ${status}`);
+    return settled;
+  }
+
+  // =============== RETRY TIMER ===============
+
+  private updateRetryTimer(): void {
+    if (this.pendingCount > 0) {
+      if (!this.retryTimer) {
+        // Outside Angular so the interval does not keep the app from becoming stable
+        this.zone.runOutsideAngular(() => {
+          this.retryTimer = setInterval(() => this.zone.run(() => this.flush()), RETRY_INTERVAL_MS);
+        });
+      }
+    } else {
+      this.stopRetryTimer();
+    }
+  }
+
+  private stopRetryTimer(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // =============== STORAGE ===============
+
+  private async refresh(): Promise<void> {
+    const entries = await this.getAll();
+    const cutoff = Date.now() - SUBMITTED_RETENTION_MS;
+
+    for (const entry of entries) {
+      // A tab closed mid-request leaves its entry "submitting". The request may have
+      // reached the API, and only the mock API is known to honour the idempotency
+      // key, so the entry is not sent again by itself
+      if (entry.status === 'submitting' && Date.now() - Date.parse(entry.updatedAt) > STALE_SUBMISSION_MS) {
+        await this.put({ ...entry, status: 'unknown', updatedAt: new Date().toISOString() });
+        continue;
+      }
+      if (entry.status !== 'queued' && entry.status !== 'submitting' && Date.parse(entry.updatedAt) < cutoff) {
+        await this.delete(entry.idempotencyKey);
+      }
+    }
+
+    this.publish(await this.getAll());
+  }
+
+  private publish(entries: OutboxEntry[]): void {
+    entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    this.entriesSubject.next(entries);
+    this.updateRetryTimer();
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('⚠️ IndexedDB not available - outbox kept in memory only');
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'idempotencyKey' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('❌ Could not open outbox database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.dbPromise;
+    if (!db) throw new Error('Outbox database unavailable');
+
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async get(key: string): Promise<OutboxEntry | undefined> {
+    if (!(await this.dbPromise)) return this.memoryStore.get(key);
+    return this.runRequest<OutboxEntry | undefined>('readonly', store => store.get(key));
+  }
+
+  private async getAll(): Promise<OutboxEntry[]> {
+    if (!(await this.dbPromise)) return Array.from(this.memoryStore.values());
+    return this.runRequest<OutboxEntry[]>('readonly', store => store.getAll());
+  }
+
+  private async put(entry: OutboxEntry): Promise<void> {
+    if (await this.dbPromise) {
+      await this.runRequest('readwrite', store => store.put(entry));
+    } else {
+      this.memoryStore.set(entry.idempotencyKey, entry);
+    }
+
+    const entries = this.entriesSubject.value.filter(e => e.idempotencyKey !== entry.idempotencyKey);
+    this.publish([...entries, entry]);
+  }
+
+  private async delete(key: string): Promise<void> {
+    if (await this.dbPromise) {
+      await this.runRequest('readwrite', store => store.delete(key));
+    } else {
+      this.memoryStore.delete(key);
+    }
+  }
+}
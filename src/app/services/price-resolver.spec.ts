@@ -0,0 +1,46 @@
+import { ProductDto } from '../api/freya-dto';
+import { moneyOf, zero } from './money';
+import { isPriced, resolveProductPrice } from './price-resolver';
+
+describe('resolveProductPrice', () => {
+  const product = (fields: Partial<ProductDto>): ProductDto => ({ uid: 'p1', name: 'Cheeseburger', ...fields });
+
+  const located = product({
+    unitPriceWithVat: 10,
+    locationPrices: [
+      { locationUid: 'airport', unitPriceWithVat: 14.9 },
+      { locationUid: 'center', unitPriceWithVat: 12.904 },
+      { locationUid: 'mall', unitPriceWithVat: 11, isActive: false }
+    ]
+  });
+
+  it('uses the price of the requested location', () => {
+    expect(resolveProductPrice(located, 'center')).toEqual({ status: 'priced', price: moneyOf(12.9), source: 'locationPrice' });
+    expect(resolveProductPrice(located, 'airport')).toEqual({ status: 'priced', price: moneyOf(14.9), source: 'locationPrice' });
+  });
+
+  it('does not sell a product where its location price is missing or inactive', () => {
+    expect(resolveProductPrice(located, 'mall')).toEqual({ status: 'unpriced', reason: 'not-sold-at-location' });
+    expect(resolveProductPrice(located, 'station')).toEqual({ status: 'unpriced', reason: 'not-sold-at-location' });
+  });
+
+  it('uses the product price when there are no location prices', () => {
+    expect(resolveProductPrice(product({ unitPriceWithVat: 7.5, locationPrices: [] }), 'center'))
+      .toEqual({ status: 'priced', price: moneyOf(7.5), source: 'productPrice' });
+  });
+
+  it('reports a product without any price as unpriced', () => {
+    expect(resolveProductPrice(product({}), 'center')).toEqual({ status: 'unpriced', reason: 'no-price' });
+  });
+
+  it('reports zero prices as invalid rather than free', () => {
+    expect(resolveProductPrice(product({ unitPriceWithVat: 0 }), 'center')).toEqual({ status: 'unpriced', reason: 'invalid-price' });
+  });
+});
+
+describe('isPriced', () => {
+  it('rejects products carrying an unpriced reason', () => {
+    expect(isPriced({ price: zero(), unpricedReason: 'no-price' })).toBeFalse();
+    expect(isPriced({ price: moneyOf(12) })).toBeTrue();
+  });
+});
@@ -0,0 +1,61 @@
+import { ProductDto } from '../api/freya-dto';
+import { Money, isPositive, moneyOf } from './money';
+
+// =============== PRICE RESOLUTION ===============
+// A product either has a price the restaurant set, or it is explicitly not priced.
+// There is no guessed or generated price: an unpriced product cannot be ordered.
+
+export type PriceSource = 'locationPrice' | 'productPrice';
+
+// no-price             - the API sends no price for the product at all
+// invalid-price        - a price is present but zero or negative
+// not-sold-at-location - the product has location prices, but none active for this location
+export type UnpricedReason = 'no-price' | 'invalid-price' | 'not-sold-at-location';
+
+export type PriceResolution =
+  | { status: 'priced'; price: Money; source: PriceSource }
+  | { status: 'unpriced'; reason: UnpricedReason };
+
+const UNPRICED_REASON_TEXT: { [reason in UnpricedReason]: string } = {
+  'no-price': 'Restaurantul nu a stabilit un preț pentru acest produs',
+  'invalid-price': 'Prețul primit pentru acest produs nu este valid',
+  'not-sold-at-location': 'Produsul nu se vinde în acest restaurant'
+};
+
+/**
+ * Prices a product for one location. A product with location prices is sold only
+ * where it has an active entry; the product-level price with VAT applies only to
+ * products without any location prices.
+ */
+export function resolveProductPrice(product: ProductDto, locationUid: string): PriceResolution {
+  const locationPrices = product.locationPrices ?? [];
+
+  if (locationPrices.length > 0) {
+    const entry = locationPrices.find(locationPrice => locationPrice.locationUid === locationUid && locationPrice.isActive !== false);
+    if (!entry) {
+      return { status: 'unpriced', reason: 'not-sold-at-location' };
+    }
+    return checkPrice(entry.unitPriceWithVat ?? entry.price, 'locationPrice');
+  }
+
+  return checkPrice(product.unitPriceWithVat, 'productPrice');
+}
+
+// Orderable only with a positive price and no recorded reason against it
+export function isPriced(product: { price: Money; unpricedReason?: UnpricedReason }): boolean {
+  return !product.unpricedReason && isPositive(product.price);
+}
+
+export function describeUnpricedReason(reason: UnpricedReason | undefined): string {
+  return UNPRICED_REASON_TEXT[reason ?? 'no-price'];
+}
+
+function checkPrice(price: number | null | undefined, source: PriceSource): PriceResolution {
+  if (typeof price !== 'number') {
+    return { status: 'unpriced', reason: 'no-price' };
+  }
+  if (price <= 0) {
+    return { status: 'unpriced', reason: 'invalid-price' };
+  }
+  return { status: 'priced', price: moneyOf(price), source };
+}
@@ -0,0 +1,49 @@
+import { Inject, Injectable } from '@angular/core';
+import { APP_CONFIG, AppConfig } from '../config/app-config';
+import { CartItem } from './api.service';
+import { PriceBreakdown, PricingDiscount, PricingFees, PricingLine, priceOrder, tenantFees } from './pricing';
+import { subtract } from './money';
+import { unitPriceOf } from './product-modifiers';
+import { PromotionService } from './promotion.service';
+import { LoyaltyService } from './loyalty.service';
+
+/**
+ * The one place the totals of a cart come from: the cart and checkout screens, the
+ * receipt and the order payload all use the breakdown it returns. Fees come from the
+ * tenant's `pricing` configuration; the promo codes entered are applied before any
+ * other discount, redeemed loyalty points after all of them.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PricingService {
+  constructor(
+    @Inject(APP_CONFIG) private config: AppConfig,
+    private promotions: PromotionService,
+    private loyalty: LoyaltyService
+  ) {}
+
+  get fees(): PricingFees {
+    return tenantFees(this.config.tenant.pricing);
+  }
+
+  price(cart: CartItem[], discounts: PricingDiscount[] = []): PriceBreakdown {
+    const lines = cart.map(item => this.toPricingLine(item));
+    const applied = [...this.promotions.evaluate(cart).discounts, ...discounts];
+    const breakdown = priceOrder(lines, this.fees, applied);
+
+    // Points pay for what the other discounts left of the items
+    const points = this.loyalty.discountFor(subtract(breakdown.subtotal, breakdown.discountTotal));
+    return points ? priceOrder(lines, this.fees, [...applied, points]) : breakdown;
+  }
+
+  private toPricingLine(item: CartItem): PricingLine {
+    return {
+      lineId: item.lineId,
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: unitPriceOf(item.price, item.toppings),
+      vatRate: item.vatRate ?? this.fees.vatRate
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { moneyOf, toMajor } from './money';
+import { NO_FEES, PricingLine, priceOrder, vatRateFromPercent, vatRateToPercent } from './pricing';
+
+describe('pricing', () => {
+  const lines: PricingLine[] = [
+    { lineId: 'burger', name: 'Cheeseburger', quantity: 2, unitPrice: moneyOf(25.9), vatRate: 0.11 },
+    { lineId: 'cola', name: 'Coca-Cola', quantity: 1, unitPrice: moneyOf(8.5), vatRate: 0.21 }
+  ];
+  const fees = { serviceFee: moneyOf(2.5), serviceFeePercent: 0, deliveryFee: moneyOf(0), vatRate: 0.21 };
+
+  it('takes the VAT out of the prices, per rate, instead of adding it', () => {
+    const breakdown = priceOrder(lines, fees);
+
+    expect(breakdown.lines.map(line => toMajor(line.total))).toEqual([51.8, 8.5]);
+    expect(breakdown.itemCount).toBe(3);
+    expect(toMajor(breakdown.subtotal)).toBe(60.3);
+    expect(toMajor(breakdown.total)).toBe(62.8);
+    expect(breakdown.vat).toEqual([
+      { rate: 0.11, net: moneyOf(46.67), vat: moneyOf(5.13), gross: moneyOf(51.8) },
+      { rate: 0.21, net: moneyOf(9.09), vat: moneyOf(1.91), gross: moneyOf(11) }
+    ]);
+    expect(toMajor(breakdown.vatTotal)).toBe(7.04);
+  });
+
+  it('takes discounts off every rate pro rata and charges a percentage fee on what is left', () => {
+    const breakdown = priceOrder(lines, { ...fees, serviceFee: moneyOf(0), serviceFeePercent: 0.1 }, [
+      { code: 'SAVE10', description: 'Save 10 lei', amount: moneyOf(10) }
+    ]);
+
+    expect(toMajor(breakdown.discountTotal)).toBe(10);
+    expect(toMajor(breakdown.serviceFee)).toBe(5.03);
+    expect(toMajor(breakdown.total)).toBe(55.33);
+    expect(breakdown.vat.map(entry => toMajor(entry.gross))).toEqual([43.21, 12.12]);
+  });
+
+  it('never discounts below zero', () => {
+    const breakdown = priceOrder(lines, fees, [
+      { code: 'ALL', description: 'Everything', amount: moneyOf(100) },
+      { code: 'MORE', description: 'And more', amount: moneyOf(5) }
+    ]);
+
+    expect(breakdown.discounts.map(discount => [discount.code, toMajor(discount.amount)])).toEqual([['ALL', 60.3]]);
+    expect(breakdown.lines.map(line => toMajor(line.discount))).toEqual([51.8, 8.5]);
+    expect(toMajor(breakdown.total)).toBe(2.5);
+    expect(breakdown.vat.map(entry => entry.rate)).toEqual([0.21]);
+  });
+
+  it('takes line discounts off their own lines and rates', () => {
+    const breakdown = priceOrder(lines, fees, [
+      { code: 'COLA', description: 'Free drink', amount: moneyOf(8.5), lines: [{ lineId: 'cola', amount: moneyOf(10) }] },
+      { code: 'FREE5', description: '5 lei off', amount: moneyOf(5) }
+    ]);
+
+    expect(breakdown.discounts.map(discount => toMajor(discount.amount))).toEqual([8.5, 5]);
+    expect(breakdown.lines.map(line => toMajor(line.discount))).toEqual([5, 8.5]);
+    expect(breakdown.vat.map(entry => [entry.rate, toMajor(entry.gross)])).toEqual([[0.11, 46.8], [0.21, 2.5]]);
+    expect(toMajor(breakdown.total)).toBe(49.3);
+  });
+
+  it('charges nothing for an empty order', () => {
+    const breakdown = priceOrder([], fees);
+
+    expect(toMajor(breakdown.total)).toBe(0);
+    expect(toMajor(breakdown.serviceFee)).toBe(0);
+    expect(breakdown.vat).toEqual([]);
+    expect(toMajor(priceOrder(lines, NO_FEES).total)).toBe(60.3);
+  });
+
+  it('converts the API\'s VAT percentages', () => {
+    expect(vatRateFromPercent(11)).toBe(0.11);
+    expect(vatRateFromPercent(null)).toBeUndefined();
+    expect(vatRateToPercent(0.21)).toBe(21);
+    expect(vatRateToPercent(0.055)).toBe(5.5);
+  });
+});
@@ -0,0 +1,154 @@
+import { TenantConfig } from '../config/config-types';
+import { DEFAULT_CURRENCY, Money, add, allocate, isPositive, maxMoney, minMoney, moneyOf, multiply, subtract, sumMoney, zero } from './money';
+
+// =============== PRICING ===============
+// Menu prices include VAT (unitPriceWithVat) and so do the fees: the VAT of an order
+// is worked out of those gross amounts, per rate, never added on top. All amounts
+// are Money, so the parts always add up to the total.
+
+export interface PricingLine {
+  lineId: string;
+  name: string;
+  quantity: number;
+  // Per unit, options included, VAT included
+  unitPrice: Money;
+  vatRate: number;
+}
+
+export interface LineDiscount {
+  lineId: string;
+  amount: Money;
+}
+
+// An amount off the order, VAT included. With `lines` it comes off those lines;
+// without, it is spread over all lines in proportion to what is left of them.
+export interface PricingDiscount {
+  code: string;
+  description: string;
+  amount: Money;
+  lines?: LineDiscount[];
+}
+
+export interface PricingFees {
+  // Fixed per order
+  serviceFee: Money;
+  // Share of the discounted subtotal, e.g. 0.05
+  serviceFeePercent: number;
+  deliveryFee: Money;
+  // Rate the fees are charged at
+  vatRate: number;
+}
+
+export interface PricedLine extends PricingLine {
+  // Before discounts
+  total: Money;
+  // Taken off the total by all discounts together
+  discount: Money;
+}
+
+// The part of the total charged at one VAT rate
+export interface VatBreakdown {
+  rate: number;
+  net: Money;
+  vat: Money;
+  gross: Money;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  itemCount: number;
+  // Lines before discounts
+  subtotal: Money;
+  // As applied, each with its lines: capped so no line goes below zero
+  discounts: PricingDiscount[];
+  discountTotal: Money;
+  serviceFee: Money;
+  deliveryFee: Money;
+  // Included in the total, one entry per rate
+  vat: VatBreakdown[];
+  vatTotal: Money;
+  total: Money;
+}
+
+export const NO_FEES: PricingFees = { serviceFee: zero(), serviceFeePercent: 0, deliveryFee: zero(), vatRate: 0 };
+
+// The fees of a tenant's `pricing` configuration; what it leaves out is 0
+export function tenantFees(pricing: TenantConfig['pricing']): PricingFees {
+  return {
+    serviceFee: moneyOf(pricing?.serviceFee ?? 0),
+    serviceFeePercent: pricing?.serviceFeePercent ?? 0,
+    deliveryFee: moneyOf(pricing?.deliveryFee ?? 0),
+    vatRate: pricing?.vatRate ?? 0
+  };
+}
+
+/**
+ * Prices the lines of an order: line totals, discounts, fees, VAT per rate and the
+ * grand total. Discounts are applied in order, each to what the ones before it left
+ * of the lines, and lower the VAT at the rate of the lines they come off; fees are
+ * charged at their own rate. An order without lines costs nothing, fees included.
+ */
+export function priceOrder(lines: PricingLine[], fees: PricingFees, discounts: PricingDiscount[] = []): PriceBreakdown {
+  const currency = lines[0]?.unitPrice.currency ?? DEFAULT_CURRENCY;
+  const totals = lines.map(line => multiply(line.unitPrice, line.quantity));
+  const subtotal = sumMoney(totals, currency);
+
+  const remaining = [...totals];
+  const applied = discounts.map(discount => {
+    const wanted = discount.lines
+      ? lines.map(line => discount.lines!.find(entry => entry.lineId === line.lineId)?.amount ?? zero(currency))
+      : allocate(minMoney(maxMoney(discount.amount, zero(currency)), sumMoney(remaining, currency)), remaining.map(left => left.amount));
+    const taken = wanted.map((amount, index) => minMoney(maxMoney(amount, zero(currency)), remaining[index]));
+    taken.forEach((amount, index) => remaining[index] = subtract(remaining[index], amount));
+
+    return {
+      ...discount,
+      amount: sumMoney(taken, currency),
+      lines: lines.map((line, index) => ({ lineId: line.lineId, amount: taken[index] })).filter(entry => isPositive(entry.amount))
+    };
+  }).filter(discount => isPositive(discount.amount));
+  const afterDiscounts = sumMoney(remaining, currency);
+  const discountTotal = subtract(subtotal, afterDiscounts);
+
+  const hasLines = lines.length > 0;
+  const serviceFee = hasLines ? add(fees.serviceFee, multiply(afterDiscounts, fees.serviceFeePercent)) : zero(currency);
+  const deliveryFee = hasLines ? fees.deliveryFee : zero(currency);
+  const feeTotal = add(serviceFee, deliveryFee);
+
+  // Gross per rate: what is left of the lines, then the fees
+  const grossByRate = new Map<number, Money>();
+  lines.forEach((line, index) => grossByRate.set(line.vatRate, add(grossByRate.get(line.vatRate) ?? zero(currency), remaining[index])));
+  if (isPositive(feeTotal)) {
+    grossByRate.set(fees.vatRate, add(grossByRate.get(fees.vatRate) ?? zero(currency), feeTotal));
+  }
+
+  const vat = [...grossByRate.entries()]
+    .filter(([, gross]) => isPositive(gross))
+    .sort(([a], [b]) => a - b)
+    .map(([rate, gross]) => {
+      const vatAmount = multiply(gross, rate / (1 + rate));
+      return { rate, net: subtract(gross, vatAmount), vat: vatAmount, gross };
+    });
+
+  return {
+    lines: lines.map((line, index) => ({ ...line, total: totals[index], discount: subtract(totals[index], remaining[index]) })),
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    subtotal,
+    discounts: applied,
+    discountTotal,
+    serviceFee,
+    deliveryFee,
+    vat,
+    vatTotal: sumMoney(vat.map(entry => entry.vat), currency),
+    total: add(afterDiscounts, feeTotal)
+  };
+}
+
+// Freya gives VAT rates in percent (11 for 11%); the app works with fractions
+export function vatRateFromPercent(percent: number | null | undefined): number | undefined {
+  return typeof percent === 'number' && percent >= 0 ? percent / 100 : undefined;
+}
+
+export function vatRateToPercent(rate: number): number {
+  return Math.round(rate * 10000) / 100;
+}
@@ -0,0 +1,84 @@
+import { ModifierGroupDto } from '../api/freya-dto';
+import { moneyOf, toMajor, zero } from './money';
+import {
+  currentModifiers,
+  defaultSelection,
+  modifiersKey,
+  selectedModifiers,
+  selectionProblems,
+  toModifierGroups,
+  savedModifiers,
+  toggleModifier,
+  unitPriceOf
+} from './product-modifiers';
+
+describe('product modifiers', () => {
+  const dtos: ModifierGroupDto[] = [
+    {
+      uid: 'size', name: 'Size', kind: 'choice',
+      options: [{ productUid: 'small', name: 'Small', isDefault: true }, { productUid: 'large', name: 'Large', unitPriceWithVat: 3 }]
+    },
+    {
+      uid: 'extra', name: 'Extra', maxSelected: 2,
+      options: [{ productUid: 'bacon', name: 'Bacon', unitPriceWithVat: 3.5 }, { productUid: 'cheese', name: 'Cheese', unitPriceWithVat: 2 }, { productUid: 'egg', name: 'Egg', unitPriceWithVat: 2.5 }]
+    },
+    {
+      uid: 'without', name: 'Without', kind: 'removal',
+      options: [{ productUid: 'onion', name: 'Onion', unitPriceWithVat: -1 }]
+    }
+  ];
+  const groups = toModifierGroups(dtos);
+  const [size, extra, without] = groups;
+
+  it('fills in the limits of each kind of group', () => {
+    expect([size.min, size.max]).toEqual([1, 1]);
+    expect([extra.min, extra.max]).toEqual([0, 2]);
+    expect([without.min, without.max]).toEqual([0, 1]);
+    expect(without.options[0].priceDelta).toEqual(zero());
+  });
+
+  it('starts from the default options', () => {
+    expect(defaultSelection(groups)).toEqual({ size: ['small'], extra: [], without: [] });
+  });
+
+  it('swaps a single choice and stops add-ons at the maximum', () => {
+    let selection = defaultSelection(groups);
+    selection = toggleModifier(size, selection, 'large');
+    expect(selection['size']).toEqual(['large']);
+
+    selection = toggleModifier(extra, selection, 'bacon');
+    selection = toggleModifier(extra, selection, 'cheese');
+    selection = toggleModifier(extra, selection, 'egg');
+    expect(selection['extra']).toEqual(['bacon', 'cheese']);
+  });
+
+  it('reports a required choice that is missing', () => {
+    expect(selectionProblems(groups, { size: [], extra: [], without: [] })).toEqual(['Choose an option for Size']);
+    expect(selectionProblems(groups, defaultSelection(groups))).toEqual([]);
+  });
+
+  it('prices the chosen options on top of the product', () => {
+    const modifiers = selectedModifiers(groups, { size: ['large'], extra: ['cheese', 'bacon'], without: ['onion'] });
+    expect(modifiers.map(modifier => modifier.optionUid)).toEqual(['large', 'bacon', 'cheese', 'onion']);
+    expect(toMajor(unitPriceOf(moneyOf(12.9), modifiers))).toBe(21.4);
+  });
+
+  it('gives the same key to the same options in any order', () => {
+    const a = selectedModifiers(groups, { extra: ['bacon', 'cheese'] });
+    const b = selectedModifiers(groups, { extra: ['cheese', 'bacon'] });
+    expect(modifiersKey(a)).toBe(modifiersKey(b));
+    expect(modifiersKey(a)).not.toBe(modifiersKey(selectedModifiers(groups, { extra: ['bacon'] })));
+  });
+
+  it('takes the current prices of options chosen elsewhere and refuses unknown ones', () => {
+    const chosen = selectedModifiers(groups, { size: ['large'], extra: ['bacon'] }).map(modifier => ({ ...modifier, priceDelta: zero() }));
+    expect(currentModifiers(groups, chosen)?.map(modifier => modifier.priceDelta)).toEqual([moneyOf(3), moneyOf(3.5)]);
+    expect(currentModifiers(groups, [...chosen, { groupUid: 'extra', optionUid: 'gold', name: 'Gold', kind: 'addon', priceDelta: zero() }])).toBeNull();
+    expect(currentModifiers(groups, chosen.filter(modifier => modifier.groupUid !== 'size'))).toBeNull();
+  });
+
+  it('reads the options of lines saved with decimal price deltas', () => {
+    const saved = [{ groupUid: 'extra', optionUid: 'bacon', name: 'Bacon', kind: 'addon', priceDelta: 3.5 }, { optionUid: 'broken' }];
+    expect(savedModifiers(saved)).toEqual([{ groupUid: 'extra', optionUid: 'bacon', name: 'Bacon', kind: 'addon', priceDelta: moneyOf(3.5) }]);
+  });
+});
@@ -0,0 +1,176 @@
+import { ModifierGroupDto } from '../api/freya-dto';
+import { Money, add, isMoney, moneyOf, zero } from './money';
+
+// =============== PRODUCT MODIFIERS ===============
+// Add-ons, removals and choices a product can be customized with. A customized
+// product is priced as its own price plus the deltas of the chosen options, and
+// every distinct set of choices is a cart line of its own.
+
+export type ModifierKind = 'addon' | 'removal' | 'choice';
+
+export interface ModifierOption {
+  // Product uid of the topping or ingredient
+  uid: string;
+  name: string;
+  // Added to the unit price of the product when chosen
+  priceDelta: Money;
+  isDefault: boolean;
+}
+
+export interface ModifierGroup {
+  uid: string;
+  name: string;
+  kind: ModifierKind;
+  min: number;
+  max: number;
+  options: ModifierOption[];
+}
+
+// An option chosen for a cart line, self-contained so the cart survives menu changes
+export interface SelectedModifier {
+  groupUid: string;
+  optionUid: string;
+  name: string;
+  kind: ModifierKind;
+  priceDelta: Money;
+}
+
+// Chosen option uids per group uid
+export type ModifierSelection = { [groupUid: string]: string[] };
+
+/**
+ * Fills in the limits the API leaves out: a choice is exactly one option, add-ons
+ * and removals are optional and unlimited. Removals never change the price.
+ */
+export function toModifierGroups(groups: ModifierGroupDto[] | null | undefined): ModifierGroup[] {
+  return (groups ?? [])
+    .filter(group => group.options.length > 0)
+    .map(group => {
+      const kind = group.kind ?? 'addon';
+      const max = Math.min(group.maxSelected ?? (kind === 'choice' ? 1 : group.options.length), group.options.length);
+      const min = Math.min(group.minSelected ?? (kind === 'choice' ? 1 : 0), max);
+
+      return {
+        uid: group.uid,
+        name: group.name,
+        kind,
+        min,
+        max,
+        options: group.options.map(option => ({
+          uid: option.productUid,
+          name: option.name,
+          priceDelta: kind === 'removal' ? zero() : moneyOf(option.unitPriceWithVat ?? 0),
+          isDefault: kind !== 'removal' && option.isDefault === true
+        }))
+      };
+    });
+}
+
+export function defaultSelection(groups: ModifierGroup[]): ModifierSelection {
+  const selection: ModifierSelection = {};
+  for (const group of groups) {
+    selection[group.uid] = group.options.filter(option => option.isDefault).slice(0, group.max).map(option => option.uid);
+  }
+  return selection;
+}
+
+// A single-option group swaps its choice; other groups toggle, refusing to go past the maximum
+export function toggleModifier(group: ModifierGroup, selection: ModifierSelection, optionUid: string): ModifierSelection {
+  const chosen = selection[group.uid] ?? [];
+
+  if (chosen.includes(optionUid)) {
+    return { ...selection, [group.uid]: chosen.filter(uid => uid !== optionUid) };
+  }
+  if (group.max === 1) {
+    return { ...selection, [group.uid]: [optionUid] };
+  }
+  if (chosen.length >= group.max) {
+    return selection;
+  }
+  return { ...selection, [group.uid]: [...chosen, optionUid] };
+}
+
+// What keeps the selection from being added to the cart; empty when it is complete
+export function selectionProblems(groups: ModifierGroup[], selection: ModifierSelection): string[] {
+  const problems: string[] = [];
+  for (const group of groups) {
+    const count = (selection[group.uid] ?? []).length;
+    if (count < group.min) {
+      problems.push(group.min === 1 ? `Choose an option for ${group.name}` : `Choose at least ${group.min} for ${group.name}`);
+    } else if (count > group.max) {
+      problems.push(`Choose at most ${group.max} for ${group.name}`);
+    }
+  }
+  return problems;
+}
+
+// Chosen options in menu order, whatever order they were clicked in
+export function selectedModifiers(groups: ModifierGroup[], selection: ModifierSelection): SelectedModifier[] {
+  return groups.flatMap(group => group.options
+    .filter(option => (selection[group.uid] ?? []).includes(option.uid))
+    .map(option => ({
+      groupUid: group.uid,
+      optionUid: option.uid,
+      name: option.name,
+      kind: group.kind,
+      priceDelta: option.priceDelta
+    }))
+  );
+}
+
+// The selection a cart line was made from, e.g. to add a saved line again
+export function selectionOf(modifiers: SelectedModifier[] | undefined): ModifierSelection {
+  const selection: ModifierSelection = {};
+  for (const modifier of modifiers ?? []) {
+    selection[modifier.groupUid] = [...(selection[modifier.groupUid] ?? []), modifier.optionUid];
+  }
+  return selection;
+}
+
+/**
+ * The options of a line as the menu has them now, with their current names and
+ * prices; null when one of them is no longer on the menu or the choice no longer
+ * fits its groups. Lines made elsewhere are checked with this before they count.
+ */
+export function currentModifiers(groups: ModifierGroup[], modifiers: SelectedModifier[] | undefined): SelectedModifier[] | null {
+  const selection = selectionOf(modifiers);
+  const current = selectedModifiers(groups, selection);
+  if (current.length !== (modifiers ?? []).length || selectionProblems(groups, selection).length > 0) {
+    return null;
+  }
+  return current;
+}
+
+// The product's price plus its options', per unit
+export function unitPriceOf(price: Money, modifiers: SelectedModifier[] | undefined): Money {
+  return add(price, ...(modifiers ?? []).map(modifier => modifier.priceDelta));
+}
+
+// Same key for the same choices, in any order
+export function modifiersKey(modifiers: SelectedModifier[] | undefined): string {
+  return (modifiers ?? []).map(modifier => `${modifier.groupUid}:${modifier.optionUid}`).sort().join(',');
+}
+
+export function describeModifiers(modifiers: SelectedModifier[] | undefined): string {
+  return (modifiers ?? [])
+    .map(modifier => modifier.kind === 'removal' ? `No ${modifier.name}` : modifier.name)
+    .join(', ');
+}
+
+// Keeps only well-formed entries of a cart saved by an earlier version
+export function isSelectedModifier(value: unknown): value is SelectedModifier {
+  const modifier = value as SelectedModifier;
+  return typeof modifier?.groupUid === 'string' &&
+    typeof modifier.optionUid === 'string' &&
+    typeof modifier.name === 'string' &&
+    ['addon', 'removal', 'choice'].includes(modifier.kind) &&
+    isMoney(modifier.priceDelta);
+}
+
+// The options of a saved cart line; versions before Money kept the delta as a decimal amount
+export function savedModifiers(value: unknown): SelectedModifier[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(modifier => typeof modifier?.priceDelta === 'number' ? { ...modifier, priceDelta: moneyOf(modifier.priceDelta) } : modifier)
+    .filter(isSelectedModifier);
+}
@@ -0,0 +1,79 @@
+import { HttpClient } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { number, object, parse } from '../api/schema';
+import { APP_CONFIG } from '../config/app-config';
+
+// =============== PROMOTION USAGE ===============
+// How many orders each promo code went out on, for the codes' usage limits. The
+// default counts in localStorage, so limits hold per device only; an environment
+// with `promotionUsageUrl` counts in a service shared by every device (the mock API
+// has a stand-in), and PROMOTION_USAGE_STORE can be provided to count elsewhere.
+
+// Code -> orders it went out on
+export type PromotionUsage = { [code: string]: number };
+
+export interface PromotionUsageStore {
+  usage(): Promise<PromotionUsage>;
+  // Counts the order towards the code once, however often it is recorded
+  record(code: string, orderNumber: string): Promise<void>;
+}
+
+export const PROMOTION_USAGE_STORE = new InjectionToken<PromotionUsageStore>('PROMOTION_USAGE_STORE', {
+  providedIn: 'root',
+  factory: () => {
+    const config = inject(APP_CONFIG);
+    return config.environment.promotionUsageUrl
+      ? new HttpPromotionUsageStore(inject(HttpClient), config.environment.promotionUsageUrl, config.tenant.id)
+      : new LocalPromotionUsageStore(`hesburger_promo_usage:${config.tenant.id}`);
+  }
+});
+
+export class LocalPromotionUsageStore implements PromotionUsageStore {
+  constructor(private storageKey: string) {}
+
+  async usage(): Promise<PromotionUsage> {
+    return Object.fromEntries(Object.entries(this.load()).map(([code, orders]) => [code, orders.length]));
+  }
+
+  async record(code: string, orderNumber: string): Promise<void> {
+    const usage = this.load();
+    usage[code] = [...new Set([...(usage[code] ?? []), orderNumber])];
+    localStorage.setItem(this.storageKey, JSON.stringify(usage));
+  }
+
+  // Code -> numbers of the orders it was used on
+  private load(): { [code: string]: string[] } {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '{}');
+      return Object.fromEntries(Object.entries(stored && typeof stored === 'object' ? stored : {}).filter(([, orders]) => Array.isArray(orders))) as { [code: string]: string[] };
+    } catch {
+      return {};
+    }
+  }
+}
+
+const usageResponseSchema = object({ usage: object({}) });
+const usedResponseSchema = object({ orders: number });
+
+// GET <url>/<tenant> answers { usage: { <code>: <orders> } }; POST <url>/<tenant>/<code>
+// with { orderNumber } counts the order towards the code once and answers { orders }
+export class HttpPromotionUsageStore implements PromotionUsageStore {
+  constructor(private http: HttpClient, private url: string, private tenantId: string) {}
+
+  async usage(): Promise<PromotionUsage> {
+    const body = await firstValueFrom(this.http.get<unknown>(this.tenantUrl()));
+    const { usage } = parse(usageResponseSchema, body, 'promotion usage');
+    return Object.fromEntries(Object.entries(usage).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+  }
+
+  async record(code: string, orderNumber: string): Promise<void> {
+    const body = await firstValueFrom(this.http.post<unknown>(this.tenantUrl(code), { orderNumber }));
+    parse(usedResponseSchema, body, 'promotion usage');
+  }
+
+  private tenantUrl(code?: string): string {
+    const path = [this.tenantId, code].filter((part): part is string => !!part).map(encodeURIComponent).join('/');
+    return new URL(`${this.url.replace(/\/$/, '')}/${path}`, window.location.href).toString();
+  }
+}
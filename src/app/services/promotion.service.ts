@@ -0,0 +1,147 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { APP_CONFIG, AppConfig, PromotionConfig } from '../config/app-config';
+import { CartItem } from './api.service';
+import { PromotionContext, PromotionLine, PromotionOutcome, applyPromotions, findPromotion, normalizeCode, promotionProblem } from './discounts';
+import { PROMOTION_USAGE_STORE, PromotionUsage, PromotionUsageStore } from './promotion-usage';
+import { unitPriceOf } from './product-modifiers';
+
+const CODES_KEY_PREFIX = 'hesburger_promo_codes:';
+
+/**
+ * The promo codes entered on this device, checked against the tenant's `promotions`.
+ * Entered codes last for the browser session; how many orders each code went out on
+ * comes from the PROMOTION_USAGE_STORE, for usage limits.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PromotionService {
+  private codesSubject = new BehaviorSubject<string[]>(this.loadCodes());
+  public codes$ = this.codesSubject.asObservable();
+  // As the usage store last reported it
+  private usage: PromotionUsage = {};
+
+  constructor(
+    @Inject(APP_CONFIG) private config: AppConfig,
+    @Inject(PROMOTION_USAGE_STORE) private usageStore: PromotionUsageStore
+  ) {
+    this.refreshUsage();
+  }
+
+  // =============== PUBLIC API ===============
+
+  get codes(): string[] {
+    return this.codesSubject.value;
+  }
+
+  /**
+   * Enters a code for the cart; returns why it cannot be used, or null once it is
+   * entered. Codes are refused up front only when they could never apply to this
+   * cart as it is; later cart changes can still turn them off (see evaluate).
+   */
+  apply(code: string, cart: CartItem[]): string | null {
+    const promotion = findPromotion(this.promotions, code);
+    if (!promotion) {
+      return 'Invalid promo code';
+    }
+
+    const normalized = normalizeCode(promotion.code);
+    if (this.codes.includes(normalized)) {
+      return `${normalized} is already applied`;
+    }
+
+    const problem = promotionProblem(promotion, this.toPromotionLines(cart), [...this.enteredPromotions(), promotion], this.context());
+    if (problem) {
+      return problem;
+    }
+
+    this.setCodes([...this.codes, normalized]);
+    console.log('🎟️ Promo code applied:', normalized);
+    return null;
+  }
+
+  remove(code: string): void {
+    this.setCodes(this.codes.filter(entered => entered !== normalizeCode(code)));
+  }
+
+  // What the entered codes take off the cart right now, and which take nothing off
+  evaluate(cart: CartItem[]): PromotionOutcome {
+    return applyPromotions(this.enteredPromotions(), this.toPromotionLines(cart), this.context());
+  }
+
+  // The codes went out with an order; the next order starts without any
+  clear(): void {
+    this.setCodes([]);
+  }
+
+  /**
+   * Counts a placed order towards the usage limits of its codes. Uses are counted
+   * per order number, so counting an order again changes nothing.
+   */
+  async recordUse(orderNumber: string, codes: string[]): Promise<void> {
+    const used = new Set(codes.filter(code => findPromotion(this.promotions, code)).map(normalizeCode));
+    for (const code of used) {
+      await this.usageStore.record(code, orderNumber);
+    }
+    await this.refreshUsage();
+  }
+
+  // =============== HELPERS ===============
+
+  private get promotions(): PromotionConfig[] {
+    return this.config.tenant.promotions ?? [];
+  }
+
+  // Codes dropped from the configuration since they were entered are ignored
+  private enteredPromotions(): PromotionConfig[] {
+    return this.codes
+      .map(code => findPromotion(this.promotions, code))
+      .filter((promotion): promotion is PromotionConfig => !!promotion);
+  }
+
+  private toPromotionLines(cart: CartItem[]): PromotionLine[] {
+    return cart.map(item => ({
+      lineId: item.lineId,
+      categories: [item.category, item.categoryUid].filter((category): category is string => !!category),
+      quantity: item.quantity,
+      unitPrice: unitPriceOf(item.price, item.toppings)
+    }));
+  }
+
+  private context(): PromotionContext {
+    return { now: new Date(), usage: this.usage };
+  }
+
+  // The entered codes are checked again against the new counts
+  private async refreshUsage(): Promise<void> {
+    try {
+      this.usage = await this.usageStore.usage();
+      this.codesSubject.next(this.codes);
+    } catch (error) {
+      console.warn('⚠️ Could not load promo code usage:', error);
+    }
+  }
+
+  private setCodes(codes: string[]): void {
+    try {
+      sessionStorage.setItem(this.codesKey, JSON.stringify(codes));
+    } catch (error) {
+      console.warn('⚠️ Could not save promo codes:', error);
+    }
+    this.codesSubject.next(codes);
+  }
+
+  private loadCodes(): string[] {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(this.codesKey) ?? '[]');
+      return Array.isArray(stored) ? stored.filter(code => typeof code === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private get codesKey(): string {
+    return `${CODES_KEY_PREFIX}${this.config.tenant.id}`;
+  }
+}
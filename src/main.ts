@@ -1,6 +1,12 @@
 import { bootstrapApplication } from '@angular/platform-browser';
 import { appConfig } from './app/app.config';
 import { AppComponent } from './app/app';
+import { loadAppConfig, provideAppConfig } from './app/config/app-config';
 
-bootstrapApplication(AppComponent, appConfig)
+// The environment/tenant JSON must be known before any service is created
+loadAppConfig()
+  .then(config => bootstrapApplication(AppComponent, {
+    ...appConfig,
+    providers: [...appConfig.providers, provideAppConfig(config)]
+  }))
   .catch((err) => console.error(err));
\ No newline at end of file